@@ -27,12 +27,25 @@ redis.on('connect', () => {
   console.log('Successfully connected to Redis');
 });
 
+// Export the clients before the routes are required below, since every
+// route module pulls them in through `require('../index')`.
+module.exports = {
+  prisma,
+  redis,
+};
+
 // Initialize Express app
 const app = express();
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({
+  limit: '10mb', // Large enough for customer imports
+  // Vendor webhook signatures are over the exact bytes sent
+  verify: (req, res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(morgan('dev'));
 
 // Root route handler
@@ -69,18 +82,25 @@ app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerDocs));
 // Import routes
 const authRoutes = require('./routes/auth');
 const customerRoutes = require('./routes/customers');
+const orderRoutes = require('./routes/orders');
 const segmentRoutes = require('./routes/segments');
 const campaignRoutes = require('./routes/campaigns');
 const deliveryRoutes = require('./routes/delivery');
 const dashboardRoutes = require('./routes/dashboard'); // Import the dashboard routes
+const trackingRoutes = require('./routes/tracking');
+const { startSegmentWorker } = require('./workers/segmentWorker');
+const { startCampaignWorker } = require('./workers/campaignWorker');
+const { startCampaignScheduler } = require('./workers/campaignScheduler');
 
 // Use routes
 app.use('/api/auth', authRoutes);
 app.use('/api/customers', customerRoutes);
+app.use('/api/orders', orderRoutes);
 app.use('/api/segments', segmentRoutes);
 app.use('/api/campaigns', campaignRoutes);
 app.use('/api/delivery', deliveryRoutes);
 app.use('/api/dashboard', dashboardRoutes); // Register dashboard routes
+app.use('/api/track', trackingRoutes); // Opened by message recipients, so no auth
 
 // Error handling middleware
 app.use((err, req, res, next) => {
@@ -92,6 +112,13 @@ app.use((err, req, res, next) => {
   });
 });
 
+// Background stream consumers run in the API process unless disabled,
+// e.g. when they are scaled separately
+const stopWorkers = [];
+if (process.env.DISABLE_WORKERS !== 'true') {
+  stopWorkers.push(startSegmentWorker(), startCampaignWorker(), startCampaignScheduler());
+}
+
 // Start server
 const PORT = process.env.PORT || 3001;
 const server = app.listen(PORT, () => {
@@ -111,6 +138,7 @@ const server = app.listen(PORT, () => {
 // Handle graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received. Closing HTTP server...');
+  await Promise.all(stopWorkers.map((stop) => stop()));
   await prisma.$disconnect();
   await redis.quit();
   server.close(() => {
@@ -119,11 +147,4 @@ process.on('SIGTERM', async () => {
   });
 });
 
-// Export app and clients
-const appExports = {
-  app,
-  prisma,
-  redis
-};
-
-module.exports = appExports;
\ No newline at end of file
+module.exports.app = app;
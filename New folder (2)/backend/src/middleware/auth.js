@@ -1,9 +1,40 @@
+const crypto = require('crypto');
 const { OAuth2Client } = require('google-auth-library');
 const jwt = require('jsonwebtoken');
 const { prisma } = require('../index');
+const { requireSecret } = require('../utils/secrets');
 
 const client = new OAuth2Client(process.env.GOOGLE_CLIENT_ID);
 
+// Shared with delivery vendors so their receipt callbacks can skip user
+// auth. Every instance must use the same one, so it is required outside
+// development.
+const DELIVERY_CALLBACK_SECRET = requireSecret('DELIVERY_CALLBACK_SECRET');
+
+// How far a webhook's timestamp may be from now, so a captured request
+// can't be replayed later
+const WEBHOOK_TOLERANCE_SECONDS = Number(process.env.DELIVERY_WEBHOOK_TOLERANCE_SECONDS) || 300;
+
+/**
+ * The secret `vendor` signs its webhooks with, from
+ * DELIVERY_WEBHOOK_SECRET_<VENDOR>, or null if it has none. The built-in
+ * dummy vendor falls back to the delivery callback secret.
+ * @param {string} vendor
+ */
+const vendorWebhookSecret = (vendor) =>
+  process.env[`DELIVERY_WEBHOOK_SECRET_${vendor.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`]
+  || (vendor === 'dummy' ? DELIVERY_CALLBACK_SECRET : null);
+
+/**
+ * The X-Webhook-Signature header for a webhook body sent at `timestamp`
+ * (Unix seconds): an HMAC-SHA256 of `<timestamp>.<body>`.
+ * @param {string} secret
+ * @param {number | string} timestamp
+ * @param {string | Buffer} body The exact bytes sent
+ */
+const signVendorWebhook = (secret, timestamp, body) =>
+  `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(body).digest('hex')}`;
+
 const verifyGoogleToken = async (token) => {
   try {
     const ticket = await client.verifyIdToken({
@@ -41,7 +72,46 @@ const authenticateUser = async (req, res, next) => {
   }
 };
 
+// Lets delivery vendors in with the X-Delivery-Secret header; everyone else
+// needs a user token
+const authenticateDeliveryCallback = (req, res, next) => {
+  const provided = Buffer.from(req.get('x-delivery-secret') || '');
+  const expected = Buffer.from(DELIVERY_CALLBACK_SECRET);
+
+  if (provided.length === expected.length && crypto.timingSafeEqual(provided, expected)) {
+    return next();
+  }
+  return authenticateUser(req, res, next);
+};
+
+// Lets in webhooks signed by the vendor named in the path, sent within
+// WEBHOOK_TOLERANCE_SECONDS. Needs the raw body kept by the JSON parser.
+const authenticateVendorWebhook = (req, res, next) => {
+  const { vendor } = req.params;
+  const secret = vendorWebhookSecret(vendor);
+  if (!secret) {
+    return res.status(401).json({ message: `No webhook secret configured for vendor ${vendor}` });
+  }
+
+  const timestamp = req.get('x-webhook-timestamp') || '';
+  if (!/^\d+$/.test(timestamp) || Math.abs(Date.now() / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) {
+    return res.status(401).json({ message: 'Webhook timestamp missing or outside the allowed window' });
+  }
+
+  const provided = Buffer.from(req.get('x-webhook-signature') || '');
+  const expected = Buffer.from(signVendorWebhook(secret, timestamp, req.rawBody || ''));
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return res.status(401).json({ message: 'Invalid webhook signature' });
+  }
+  next();
+};
+
 module.exports = {
+  DELIVERY_CALLBACK_SECRET,
+  signVendorWebhook,
+  vendorWebhookSecret,
   verifyGoogleToken,
   authenticateUser,
+  authenticateDeliveryCallback,
+  authenticateVendorWebhook,
 }; 
\ No newline at end of file
@@ -0,0 +1,27 @@
+const { validate } = require('../../../shared/schema');
+
+// Validates req.body against a shared schema and replaces it with the
+// normalised value, answering 400 with `{ errors: [{ path, msg }] }` otherwise
+const validateBody = (schema) => (req, res, next) => {
+  const { value, errors } = validate(schema, req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ errors });
+  }
+  req.body = value;
+  next();
+};
+
+// Same as validateBody, for query string parameters
+const validateQuery = (schema) => (req, res, next) => {
+  const { value, errors } = validate(schema, req.query);
+  if (errors.length > 0) {
+    return res.status(400).json({ errors });
+  }
+  req.query = value;
+  next();
+};
+
+module.exports = {
+  validateBody,
+  validateQuery,
+};
@@ -1,11 +1,50 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
 const { prisma, redis } = require('../index');
 const { authenticateUser } = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
+const {
+  campaignInput,
+  campaignScheduleInput,
+  generateMessageInput,
+  messagePreviewInput,
+} = require('../../../shared/schema');
+const { nextCronTime } = require('../../../shared/cron');
+const { compileTemplate, templateErrors } = require('../../../shared/template');
+const { composeWhatsAppMessage } = require('../../../shared/channels');
 const { generateAIMessage } = require('../utils/aiUtils');
+const {
+  CampaignLifecycleError,
+  launchCampaign,
+  pauseCampaign,
+  resumeCampaign,
+  cancelCampaign,
+} = require('../utils/campaignLifecycle');
+const { engagementByCampaign } = require('../utils/tracking');
+const { variantLabel, variantResultsByCampaign } = require('../utils/abTesting');
 
 const router = express.Router();
 
+// Campaigns whose schedule may still be changed
+const SCHEDULABLE_STATUSES = ['DRAFT', 'SCHEDULED'];
+
+// Recipients offered when previewing a message
+const PREVIEW_RECIPIENTS = 20;
+
+// The columns holding the content of a campaign or of one of its variants
+const storedContent = (channel, whatsappTemplate, { subject, message, whatsappParams }) => ({
+  message: channel === 'WHATSAPP' ? composeWhatsAppMessage(whatsappTemplate, whatsappParams || []) : message,
+  subject: channel === 'EMAIL' ? subject : null,
+  whatsappParams: channel === 'WHATSAPP' ? whatsappParams || [] : undefined,
+});
+
+// Splits 100 percent between `count` variants, the first ones getting the
+// remainder
+const evenWeights = (count) =>
+  Array.from({ length: count }, (_, i) => Math.floor(100 / count) + (i < 100 % count ? 1 : 0));
+
+const neverRuns = (res) =>
+  res.status(400).json({ errors: [{ path: 'recurrence', msg: 'never matches a future time' }] });
+
 // Apply authentication middleware to all routes
 router.use(authenticateUser);
 
@@ -14,6 +53,14 @@ router.use(authenticateUser);
  * /api/campaigns:
  *   post:
  *     summary: Create a new campaign
+ *     description: >
+ *       Campaigns without a schedule are saved as drafts until launched.
+ *       Scheduled ones are started by the scheduler when `scheduledFor`
+ *       comes; recurring ones spawn a run against the segment's members
+ *       each time `recurrence` fires. With `variants`, each recipient gets
+ *       one of them, picked by weight but always the same for a customer;
+ *       with `abTest` as well, only a slice of the recipients get a variant
+ *       at first and the rest get the winner once the wait is over.
  *     tags: [Campaigns]
  *     security:
  *       - bearerAuth: []
@@ -26,7 +73,6 @@ router.use(authenticateUser);
  *             required:
  *               - name
  *               - segmentId
- *               - message
  *             properties:
  *               name:
  *                 type: string
@@ -34,29 +80,89 @@ router.use(authenticateUser);
  *                 type: string
  *               segmentId:
  *                 type: string
+ *               channel:
+ *                 type: string
+ *                 enum: [EMAIL, SMS, WHATSAPP]
+ *                 default: EMAIL
+ *                 description: Recipients without an email address or phone number for it are skipped
+ *               subject:
+ *                 type: string
+ *                 description: Email subject, required for email; a template like `message`
  *               message:
  *                 type: string
+ *                 description: >
+ *                   Template rendered for each recipient, e.g.
+ *                   "Hi {{firstName | default: \"there\"}}". Unknown tokens are rejected.
+ *                   Required for email and SMS.
+ *               whatsappTemplate:
+ *                 type: string
+ *                 description: Approved WhatsApp template, required for WhatsApp
+ *               whatsappParams:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Templates filling the WhatsApp template's placeholders, in order
  *               scheduledFor:
  *                 type: string
  *                 format: date-time
+ *               recurrence:
+ *                 type: string
+ *                 description: Cron expression in UTC, e.g. "0 9 * * 1" or "@daily"
+ *               variants:
+ *                 type: array
+ *                 minItems: 2
+ *                 maxItems: 5
+ *                 description: A/B variants used instead of the content above; weights add up to 100
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - weight
+ *                   properties:
+ *                     weight:
+ *                       type: integer
+ *                     subject:
+ *                       type: string
+ *                     message:
+ *                       type: string
+ *                     whatsappParams:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *               abTest:
+ *                 type: object
+ *                 required:
+ *                   - testPercent
+ *                   - waitMinutes
+ *                   - winnerMetric
+ *                 properties:
+ *                   testPercent:
+ *                     type: integer
+ *                     description: Percent of the recipients the variants are tested on, 5 to 50
+ *                   waitMinutes:
+ *                     type: integer
+ *                     description: How long after the start the winner is picked
+ *                   winnerMetric:
+ *                     type: string
+ *                     enum: [DELIVERY, OPEN, CLICK]
  */
 router.post(
   '/',
-  [
-    body('name').trim().notEmpty(),
-    body('description').optional().trim(),
-    body('segmentId').isUUID(),
-    body('message').trim().notEmpty(),
-    body('scheduledFor').optional().isISO8601(),
-  ],
+  validateBody(campaignInput),
   async (req, res) => {
     try {
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
-      }
-
-      const { name, description, segmentId, message, scheduledFor } = req.body;
+      const {
+        name,
+        description,
+        segmentId,
+        channel = 'EMAIL',
+        subject,
+        whatsappTemplate,
+        whatsappParams,
+        scheduledFor,
+        recurrence,
+        variants,
+        abTest,
+      } = req.body;
 
       // Verify segment exists and belongs to user
       const segment = await prisma.segment.findFirst({
@@ -65,10 +171,8 @@ router.post(
           createdById: req.user.id,
         },
         include: {
-          customers: {
-            select: {
-              customerId: true,
-            },
+          _count: {
+            select: { customers: { where: { customer: { deletedAt: null } } } },
           },
         },
       });
@@ -77,44 +181,58 @@ router.post(
         return res.status(404).json({ message: 'Segment not found' });
       }
 
-      // Create campaign
+      const runAt = scheduledFor
+        ? new Date(scheduledFor)
+        : recurrence ? nextCronTime(recurrence, new Date()) : null;
+      if (recurrence && !runAt) {
+        return neverRuns(res);
+      }
+
+      // Create campaign. With variants, its own content is the first one's.
+      const content = variants ? variants[0] : { subject, message: req.body.message, whatsappParams };
       const campaign = await prisma.campaign.create({
         data: {
           name,
           description,
-          message,
-          status: scheduledFor ? 'SCHEDULED' : 'DRAFT',
-          scheduledFor: scheduledFor ? new Date(scheduledFor) : null,
+          ...storedContent(channel, whatsappTemplate, content),
+          channel,
+          whatsappTemplate: channel === 'WHATSAPP' ? whatsappTemplate : null,
+          status: runAt ? 'SCHEDULED' : 'DRAFT',
+          scheduledFor: runAt,
+          recurrence: recurrence || null,
           createdById: req.user.id,
           segmentId,
+          ...(variants && {
+            variants: {
+              create: variants.map((variant, i) => ({
+                label: variantLabel(i),
+                weight: variant.weight,
+                ...storedContent(channel, whatsappTemplate, variant),
+              })),
+            },
+          }),
+          ...(variants && abTest && {
+            testPercent: abTest.testPercent,
+            testWaitMinutes: abTest.waitMinutes,
+            winnerMetric: abTest.winnerMetric,
+          }),
         },
+        include: { variants: { orderBy: { label: 'asc' } } },
       });
 
-      // Create communication logs for each customer in the segment
-      const communicationLogs = segment.customers.map(({ customerId }) => ({
-        campaignId: campaign.id,
-        customerId: customerId,
-        status: 'PENDING',
-      }));
-
-      // Create logs in batches
-      const batchSize = 100;
-      for (let i = 0; i < communicationLogs.length; i += batchSize) {
-        const batch = communicationLogs.slice(i, i + batchSize);
-        await prisma.communicationLog.createMany({
-          data: batch,
-        });
-      }
+      // Campaigns get their recipients when they start, so they reach
+      // whoever is in the segment by then
+      const customerCount = segment._count.customers;
 
       // Publish to Redis stream for async processing
       await redis.xadd('campaign_stream', '*', 'event', 'campaign_created', 'data', JSON.stringify({
         campaignId: campaign.id,
-        scheduledFor,
+        scheduledFor: runAt,
       }));
 
       res.status(201).json({
         ...campaign,
-        customerCount: communicationLogs.length,
+        customerCount,
       });
     } catch (error) {
       console.error('Error creating campaign:', error);
@@ -123,11 +241,372 @@ router.post(
   }
 );
 
+/**
+ * @swagger
+ * /api/campaigns/preview-message:
+ *   post:
+ *     summary: Render a message template for a customer in a segment
+ *     description: >
+ *       Renders `message` for `customerId`, or for the first recipient if none
+ *       is given, and lists up to 20 of the segment's members (matching
+ *       `search`, if given) to choose from.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - segmentId
+ *               - message
+ *             properties:
+ *               segmentId:
+ *                 type: string
+ *               message:
+ *                 type: string
+ *               customerId:
+ *                 type: string
+ *               search:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: The rendered message and the recipients to choose from
+ *       400:
+ *         description: The template has mistakes
+ *       404:
+ *         description: Segment not found, or the customer isn't in it
+ */
+router.post(
+  '/preview-message',
+  validateBody(messagePreviewInput),
+  async (req, res) => {
+    try {
+      const { segmentId, message, customerId, search } = req.body;
+
+      const segment = await prisma.segment.findFirst({
+        where: { id: segmentId, createdById: req.user.id },
+        select: { id: true },
+      });
+      if (!segment) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+
+      const members = { deletedAt: null, segments: { some: { segmentId } } };
+      const fields = {
+        id: true,
+        name: true,
+        email: true,
+        phone: true,
+        totalSpend: true,
+        visitCount: true,
+        lastVisit: true,
+      };
+
+      const recipients = await prisma.customer.findMany({
+        where: search
+          ? { ...members, OR: [{ name: { contains: search } }, { email: { contains: search } }] }
+          : members,
+        select: fields,
+        orderBy: { name: 'asc' },
+        take: PREVIEW_RECIPIENTS,
+      });
+
+      const customer = customerId
+        ? await prisma.customer.findFirst({ where: { ...members, id: customerId }, select: fields })
+        : recipients[0] || null;
+      if (customerId && !customer) {
+        return res.status(404).json({ message: 'Customer is not in this segment' });
+      }
+
+      const summary = ({ id, name, email }) => ({ id, name, email });
+      res.json({
+        customer: customer && summary(customer),
+        rendered: customer && compileTemplate(message)(customer),
+        recipients: recipients.map(summary),
+      });
+    } catch (error) {
+      console.error('Error previewing message:', error);
+      res.status(500).json({ message: 'Error previewing message' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/schedule:
+ *   patch:
+ *     summary: Reschedule a draft or scheduled campaign
+ *     description: >
+ *       Omitting `recurrence` keeps the current one; null makes the campaign
+ *       a one-off. A recurring campaign without `scheduledFor` next runs
+ *       when its recurrence next fires.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               scheduledFor:
+ *                 type: string
+ *                 format: date-time
+ *               recurrence:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: The rescheduled campaign
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: The campaign has already started
+ */
+router.patch(
+  '/:id/schedule',
+  validateBody(campaignScheduleInput),
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const campaign = await prisma.campaign.findFirst({
+        where: { id, createdById: req.user.id },
+      });
+      if (!campaign) {
+        return res.status(404).json({ message: 'Campaign not found' });
+      }
+
+      const recurrence = req.body.recurrence !== undefined ? req.body.recurrence : campaign.recurrence;
+      const runAt = req.body.scheduledFor
+        ? new Date(req.body.scheduledFor)
+        : recurrence ? nextCronTime(recurrence, new Date()) : null;
+      if (!runAt) {
+        return recurrence
+          ? neverRuns(res)
+          : res.status(400).json({ errors: [{ path: 'scheduledFor', msg: 'is required without a recurrence' }] });
+      }
+
+      const { count } = await prisma.campaign.updateMany({
+        where: { id, status: { in: SCHEDULABLE_STATUSES } },
+        data: { status: 'SCHEDULED', scheduledFor: runAt, recurrence },
+      });
+      if (count === 0) {
+        return res.status(409).json({ message: `A ${campaign.status.toLowerCase()} campaign cannot be rescheduled` });
+      }
+
+      res.json(await prisma.campaign.findUnique({ where: { id } }));
+    } catch (error) {
+      console.error('Error rescheduling campaign:', error);
+      res.status(500).json({ message: 'Error rescheduling campaign' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/unschedule:
+ *   patch:
+ *     summary: Unschedule a campaign
+ *     description: Moves a scheduled campaign back to DRAFT and clears its schedule and recurrence.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The unscheduled campaign
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: The campaign isn't scheduled
+ */
+router.patch('/:id/unschedule', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const campaign = await prisma.campaign.findFirst({
+      where: { id, createdById: req.user.id },
+    });
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+
+    const { count } = await prisma.campaign.updateMany({
+      where: { id, status: 'SCHEDULED' },
+      data: { status: 'DRAFT', scheduledFor: null, recurrence: null },
+    });
+    if (count === 0) {
+      return res.status(409).json({ message: 'Only scheduled campaigns can be unscheduled' });
+    }
+
+    res.json(await prisma.campaign.findUnique({ where: { id } }));
+  } catch (error) {
+    console.error('Error unscheduling campaign:', error);
+    res.status(500).json({ message: 'Error unscheduling campaign' });
+  }
+});
+
+// Runs a lifecycle change on one of the user's campaigns and tells the
+// delivery worker about it
+const changeStatus = (apply, event, action) => async (req, res) => {
+  try {
+    const campaign = await prisma.campaign.findFirst({
+      where: { id: req.params.id, createdById: req.user.id },
+    });
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+
+    const updated = await apply(campaign);
+
+    await redis.xadd('campaign_stream', '*', 'event', event, 'data', JSON.stringify({
+      campaignId: updated.id,
+      status: updated.status,
+    }));
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof CampaignLifecycleError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error(`Error ${action} campaign:`, error);
+    res.status(500).json({ message: `Error ${action} campaign` });
+  }
+};
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/launch:
+ *   post:
+ *     summary: Send a draft or scheduled campaign now
+ *     description: >
+ *       Moves the campaign to RUNNING and creates a message for each of the
+ *       segment's current members. Recurring campaigns can't be launched.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The updated campaign
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: The campaign isn't a one-off draft or scheduled campaign
+ */
+router.post('/:id/launch', changeStatus(launchCampaign, 'campaign_started', 'launching'));
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/pause:
+ *   post:
+ *     summary: Pause a running campaign
+ *     description: >
+ *       Delivery stops after the batch being sent. Messages already sent
+ *       still get their delivery receipts.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The updated campaign
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: The campaign isn't running
+ */
+router.post('/:id/pause', changeStatus(pauseCampaign, 'campaign_paused', 'pausing'));
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/resume:
+ *   post:
+ *     summary: Resume a paused campaign
+ *     description: >
+ *       Moves the campaign back to RUNNING; delivery carries on with the
+ *       messages not sent yet.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The updated campaign
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: The campaign isn't paused
+ */
+router.post('/:id/resume', changeStatus(resumeCampaign, 'campaign_resumed', 'resuming'));
+
+/**
+ * @swagger
+ * /api/campaigns/{id}/cancel:
+ *   post:
+ *     summary: Cancel a campaign
+ *     description: >
+ *       Cancels a campaign that hasn't finished, including a recurring
+ *       campaign's future runs. Messages not sent yet are marked SKIPPED.
+ *     tags: [Campaigns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The updated campaign
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: The campaign has already finished
+ */
+router.post('/:id/cancel', changeStatus(cancelCampaign, 'campaign_cancelled', 'cancelling'));
+
 /**
  * @swagger
  * /api/campaigns/{id}/generate-message:
  *   post:
  *     summary: Generate AI-powered message for campaign
+ *     description: >
+ *       Replaces the message of a DRAFT or SCHEDULED campaign, and of its
+ *       variant A if it has variants. With `variants`, generates that many
+ *       messages and makes them the campaign's A/B variants, split evenly.
  *     tags: [Campaigns]
  *     security:
  *       - bearerAuth: []
@@ -148,19 +627,25 @@ router.post(
  *             properties:
  *               objective:
  *                 type: string
+ *               variants:
+ *                 type: integer
+ *                 minimum: 2
+ *                 maximum: 5
+ *     responses:
+ *       200:
+ *         description: The campaign with its new message and variants
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: The campaign has started
  */
 router.post(
   '/:id/generate-message',
-  [body('objective').trim().notEmpty()],
+  validateBody(generateMessageInput),
   async (req, res) => {
     try {
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
-      }
-
       const { id } = req.params;
-      const { objective } = req.body;
+      const { objective, variants } = req.body;
 
       // Get campaign and segment details
       const campaign = await prisma.campaign.findFirst({
@@ -172,6 +657,7 @@ router.post(
           segment: {
             include: {
               customers: {
+                where: { customer: { deletedAt: null } },
                 take: 5,
                 select: {
                   customer: {
@@ -191,22 +677,75 @@ router.post(
       if (!campaign) {
         return res.status(404).json({ message: 'Campaign not found' });
       }
+      if (campaign.channel === 'WHATSAPP') {
+        return res.status(400).json({ message: 'WhatsApp campaigns send an approved template' });
+      }
+      if (!SCHEDULABLE_STATUSES.includes(campaign.status)) {
+        return res.status(409).json({ message: 'The message can only be changed before the campaign starts' });
+      }
 
       // Generate AI message
-      const message = await generateAIMessage({
+      const generated = await generateAIMessage({
         objective,
+        channel: campaign.channel,
         segmentName: campaign.segment.name,
         sampleCustomers: campaign.segment.customers.map(c => c.customer),
+        variants,
       });
+      const messages = variants ? generated : [generated];
 
-      // Update campaign message
-      const updatedCampaign = await prisma.campaign.update({
-        where: { id },
-        data: { message },
+      // The message is sent as a template, so it must only use known tokens
+      const errors = messages.flatMap((message, i) =>
+        templateErrors(message).map((msg) => ({ path: variants ? `variants.${i}.message` : 'message', msg })));
+      if (errors.length > 0) {
+        return res.status(502).json({
+          message: 'The generated message is not a valid template',
+          errors,
+        });
+      }
+
+      // Update campaign message, unless it started while the message was
+      // generated, and replace its variants if asked for some
+      const weights = evenWeights(messages.length);
+      const updatedCampaign = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.campaign.updateMany({
+          where: { id, status: { in: SCHEDULABLE_STATUSES } },
+          data: { message: messages[0] },
+        });
+        if (count === 0) {
+          throw new CampaignLifecycleError('The message can only be changed before the campaign starts');
+        }
+
+        if (variants) {
+          await tx.campaignVariant.deleteMany({ where: { campaignId: id } });
+          await tx.campaignVariant.createMany({
+            data: messages.map((message, i) => ({
+              campaignId: id,
+              label: variantLabel(i),
+              weight: weights[i],
+              subject: campaign.subject,
+              message,
+            })),
+          });
+        } else {
+          // Variant A is the campaign's own content, so it must not keep
+          // sending the old message
+          await tx.campaignVariant.updateMany({
+            where: { campaignId: id, label: variantLabel(0) },
+            data: { message: messages[0] },
+          });
+        }
+        return tx.campaign.findUnique({
+          where: { id },
+          include: { variants: { orderBy: { label: 'asc' } } },
+        });
       });
 
       res.json(updatedCampaign);
     } catch (error) {
+      if (error instanceof CampaignLifecycleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error('Error generating message:', error);
       res.status(500).json({ message: 'Error generating message' });
     }
@@ -218,6 +757,10 @@ router.post(
  * /api/campaigns:
  *   get:
  *     summary: Get all campaigns
+ *     description: >
+ *       Each campaign comes with its message counts by status, its tracked
+ *       opens and clicks, unique and total, and the results of each of its
+ *       A/B variants.
  *     tags: [Campaigns]
  *     security:
  *       - bearerAuth: []
@@ -233,19 +776,25 @@ router.get('/', async (req, res) => {
           select: {
             name: true,
             _count: {
-              select: { customers: true },
+              select: { customers: { where: { customer: { deletedAt: null } } } },
             },
           },
         },
         _count: {
-          select: { communications: true },
+          select: { communications: true, runs: true },
         },
+        variants: { orderBy: { label: 'asc' } },
       },
       orderBy: {
         createdAt: 'desc',
       },
     });
 
+    const [engagement, variantResults] = await Promise.all([
+      engagementByCampaign(campaigns.map(({ id }) => id)),
+      variantResultsByCampaign(campaigns),
+    ]);
+
     // Get delivery stats for each campaign
     const campaignsWithStats = await Promise.all(
       campaigns.map(async (campaign) => {
@@ -261,6 +810,8 @@ router.get('/', async (req, res) => {
             acc[curr.status.toLowerCase()] = curr._count;
             return acc;
           }, {}),
+          engagement: engagement.get(campaign.id),
+          variants: variantResults.get(campaign.id),
         };
       })
     );
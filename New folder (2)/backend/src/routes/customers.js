@@ -1,7 +1,18 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
 const { prisma, redis } = require('../index');
 const { authenticateUser } = require('../middleware/auth');
+const { validateBody, validateQuery } = require('../middleware/validate');
+const {
+  customerInput,
+  customerUpdateInput,
+  customerImportInput,
+  customerListQuery,
+  customerExportQuery,
+  orderInput,
+} = require('../../../shared/schema');
+const { ImportError, importCustomers } = require('../utils/customerImport');
+const { streamCustomerExport } = require('../utils/customerExport');
+const { createOrder } = require('../utils/orders');
 
 const router = express.Router();
 
@@ -35,18 +46,9 @@ router.use(authenticateUser);
  */
 router.post(
   '/',
-  [
-    body('email').isEmail().normalizeEmail(),
-    body('name').trim().notEmpty(),
-    body('phone').optional().trim(),
-  ],
+  validateBody(customerInput),
   async (req, res) => {
     try {
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
-      }
-
       const { email, name, phone } = req.body;
 
       // Check if customer already exists
@@ -55,7 +57,11 @@ router.post(
       });
 
       if (existingCustomer) {
-        return res.status(400).json({ message: 'Customer already exists' });
+        return res.status(400).json({
+          message: existingCustomer.deletedAt
+            ? 'A deleted customer has this email; restore it instead'
+            : 'Customer already exists',
+        });
       }
 
       // Create customer
@@ -78,6 +84,119 @@ router.post(
   }
 );
 
+/**
+ * @swagger
+ * /api/customers/import:
+ *   post:
+ *     summary: Bulk import customers from a CSV or JSON file
+ *     description: >
+ *       Maps file columns onto customer fields, dedupes on email and can
+ *       create historical orders. Runs as a dry run unless dryRun is false.
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - format
+ *               - content
+ *             properties:
+ *               format:
+ *                 type: string
+ *                 enum: [csv, json]
+ *               content:
+ *                 type: string
+ *               mapping:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *               dryRun:
+ *                 type: boolean
+ *                 default: true
+ *               onDuplicate:
+ *                 type: string
+ *                 enum: [update, skip]
+ */
+router.post(
+  '/import',
+  validateBody(customerImportInput),
+  async (req, res) => {
+    try {
+      const report = await importCustomers(req.body);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof ImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error importing customers:', error);
+      res.status(500).json({ message: 'Error importing customers' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/customers/export:
+ *   get:
+ *     summary: Export customers as CSV or JSON
+ *     description: >
+ *       Streams every customer, or only the members of a segment, with their
+ *       spend, visit and order counts and the last campaign they received.
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, json]
+ *           default: csv
+ *       - in: query
+ *         name: segmentId
+ *         schema:
+ *           type: string
+ */
+router.get('/export', validateQuery(customerExportQuery), async (req, res) => {
+  try {
+    const { format = 'csv', segmentId } = req.query;
+
+    let filename = 'customers';
+    if (segmentId) {
+      // Verify segment exists and belongs to user
+      const segment = await prisma.segment.findFirst({
+        where: {
+          id: segmentId,
+          createdById: req.user.id,
+        },
+      });
+
+      if (!segment) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+      filename = `segment-${segment.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}-${date}.${format}"`);
+    res.setHeader('Access-Control-Expose-Headers', 'Content-Disposition');
+
+    await streamCustomerExport(res, { format, segmentId });
+  } catch (error) {
+    console.error('Error exporting customers:', error);
+    // Once streaming has started the status line is gone, so just cut it off
+    if (res.headersSent) {
+      return res.destroy(error);
+    }
+    res.status(500).json({ message: 'Error exporting customers' });
+  }
+});
+
 /**
  * @swagger
  * /api/customers/{id}/orders:
@@ -106,45 +225,29 @@ router.post(
  *                 type: number
  *               status:
  *                 type: string
+ *                 enum: [PENDING, COMPLETED, CANCELLED]
+ *     responses:
+ *       404:
+ *         description: Customer not found or deleted
  */
 router.post(
   '/:id/orders',
-  [
-    body('amount').isFloat({ min: 0 }),
-    body('status').isIn(['PENDING', 'COMPLETED', 'CANCELLED']),
-  ],
+  validateBody(orderInput),
   async (req, res) => {
     try {
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
-      }
-
       const { id } = req.params;
       const { amount, status } = req.body;
 
-      // Create order
-      const order = await prisma.order.create({
-        data: {
-          customerId: id,
-          amount,
-          status,
-        },
+      const customer = await prisma.customer.findFirst({
+        where: { id, deletedAt: null },
+        select: { id: true },
       });
+      if (!customer) {
+        return res.status(404).json({ message: 'Customer not found' });
+      }
 
-      // Update customer's total spend
-      await prisma.customer.update({
-        where: { id },
-        data: {
-          totalSpend: {
-            increment: amount,
-          },
-          visitCount: {
-            increment: 1,
-          },
-          lastVisit: new Date(),
-        },
-      });
+      // Only completed orders count towards the customer's aggregates
+      const order = await createOrder(id, { amount, status });
 
       // Publish to Redis stream for async processing
       await redis.xadd('order_stream', '*', 'event', 'order_created', 'data', JSON.stringify(order));
@@ -157,11 +260,42 @@ router.post(
   }
 );
 
+// Builds the Prisma filter for the customer list from its query parameters
+const buildCustomerFilter = ({ search, minSpend, maxSpend, minVisits, maxVisits, lastVisitFrom, lastVisitTo, deleted }) => {
+  const conditions = [{ deletedAt: deleted ? { not: null } : null }];
+
+  if (search) {
+    conditions.push({
+      OR: [
+        { name: { contains: search } },
+        { email: { contains: search } },
+        { phone: { contains: search } },
+      ],
+    });
+  }
+  if (minSpend !== undefined || maxSpend !== undefined) {
+    conditions.push({ totalSpend: { gte: minSpend, lte: maxSpend } });
+  }
+  if (minVisits !== undefined || maxVisits !== undefined) {
+    conditions.push({ visitCount: { gte: minVisits, lte: maxVisits } });
+  }
+  if (lastVisitFrom || lastVisitTo) {
+    conditions.push({
+      lastVisit: {
+        gte: lastVisitFrom ? new Date(lastVisitFrom) : undefined,
+        lte: lastVisitTo ? new Date(lastVisitTo) : undefined,
+      },
+    });
+  }
+
+  return { AND: conditions };
+};
+
 /**
  * @swagger
  * /api/customers:
  *   get:
- *     summary: Get all customers with pagination
+ *     summary: Search, filter and sort customers with pagination
  *     tags: [Customers]
  *     security:
  *       - bearerAuth: []
@@ -176,15 +310,66 @@ router.post(
  *         schema:
  *           type: integer
  *           default: 10
+ *           maximum: 100
+ *       - in: query
+ *         name: search
+ *         description: Matches name, email or phone
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: minSpend
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxSpend
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: minVisits
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: maxVisits
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: lastVisitFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: lastVisitTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, name, email, totalSpend, visitCount, lastVisit]
+ *           default: createdAt
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *       - in: query
+ *         name: deleted
+ *         description: List soft-deleted customers instead of active ones
+ *         schema:
+ *           type: boolean
+ *           default: false
  */
-router.get('/', async (req, res) => {
+router.get('/', validateQuery(customerListQuery), async (req, res) => {
   try {
-    const page = parseInt(req.query.page) || 1;
-    const limit = parseInt(req.query.limit) || 10;
+    const { page = 1, limit = 10, sortBy = 'createdAt', sortOrder = 'desc' } = req.query;
     const skip = (page - 1) * limit;
+    const where = buildCustomerFilter(req.query);
 
     const [customers, total] = await Promise.all([
       prisma.customer.findMany({
+        where,
         skip,
         take: limit,
         include: {
@@ -192,11 +377,10 @@ router.get('/', async (req, res) => {
             select: { orders: true },
           },
         },
-        orderBy: {
-          createdAt: 'desc',
-        },
+        // Tie-break on id so pages stay stable when sort values repeat
+        orderBy: [{ [sortBy]: sortOrder }, { id: 'asc' }],
       }),
-      prisma.customer.count(),
+      prisma.customer.count({ where }),
     ]);
 
     res.json({
@@ -214,4 +398,229 @@ router.get('/', async (req, res) => {
   }
 });
 
-module.exports = router; 
\ No newline at end of file
+/**
+ * @swagger
+ * /api/customers/{id}:
+ *   get:
+ *     summary: Get a customer with orders, segments and communication history
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const customer = await prisma.customer.findUnique({
+      where: { id },
+      include: {
+        orders: {
+          orderBy: { createdAt: 'desc' },
+        },
+        // Only the segments and campaigns owned by the requesting user
+        segments: {
+          where: {
+            segment: { createdById: req.user.id },
+          },
+          select: {
+            segmentId: true,
+            createdAt: true,
+            segment: {
+              select: { id: true, name: true },
+            },
+          },
+          orderBy: { createdAt: 'desc' },
+        },
+        communications: {
+          where: {
+            campaign: { createdById: req.user.id },
+          },
+          include: {
+            campaign: {
+              select: { id: true, name: true },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!customer) {
+      return res.status(404).json({ message: 'Customer not found' });
+    }
+
+    res.json(customer);
+  } catch (error) {
+    console.error('Error fetching customer:', error);
+    res.status(500).json({ message: 'Error fetching customer' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/customers/{id}:
+ *   patch:
+ *     summary: Update a customer's name, email or phone
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *                 nullable: true
+ */
+router.patch(
+  '/:id',
+  validateBody(customerUpdateInput),
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { email, name, phone } = req.body;
+
+      const existingCustomer = await prisma.customer.findFirst({
+        where: { id, deletedAt: null },
+      });
+      if (!existingCustomer) {
+        return res.status(404).json({ message: 'Customer not found' });
+      }
+
+      // Emails stay unique across deleted customers too, so a restore can't clash
+      if (email && email !== existingCustomer.email) {
+        const emailOwner = await prisma.customer.findUnique({ where: { email } });
+        if (emailOwner) {
+          return res.status(400).json({ message: 'Another customer already has this email' });
+        }
+      }
+
+      const customer = await prisma.customer.update({
+        where: { id },
+        data: { email, name, phone },
+      });
+
+      await redis.xadd('customer_stream', '*', 'event', 'customer_updated', 'data', JSON.stringify(customer));
+
+      res.json(customer);
+    } catch (error) {
+      console.error('Error updating customer:', error);
+      res.status(500).json({ message: 'Error updating customer' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/customers/{id}:
+ *   delete:
+ *     summary: Soft delete a customer
+ *     description: >
+ *       Hides the customer from lists, segments and new campaigns. Orders and
+ *       communication history are kept; messages not yet handed to the
+ *       delivery vendor are skipped.
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingCustomer = await prisma.customer.findFirst({
+      where: { id, deletedAt: null },
+      select: { id: true },
+    });
+    if (!existingCustomer) {
+      return res.status(404).json({ message: 'Customer not found' });
+    }
+
+    const now = new Date();
+    const [customer] = await prisma.$transaction([
+      prisma.customer.update({
+        where: { id },
+        data: { deletedAt: now },
+      }),
+      // Messages already with the vendor stay PENDING until their receipt
+      prisma.communicationLog.updateMany({
+        where: { customerId: id, status: 'PENDING', dispatchedAt: null },
+        data: { status: 'SKIPPED', dispatchedAt: now, errorMessage: 'Customer was deleted' },
+      }),
+    ]);
+
+    await redis.xadd('customer_stream', '*', 'event', 'customer_deleted', 'data', JSON.stringify(customer));
+
+    res.json(customer);
+  } catch (error) {
+    console.error('Error deleting customer:', error);
+    res.status(500).json({ message: 'Error deleting customer' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/customers/{id}/restore:
+ *   post:
+ *     summary: Restore a soft-deleted customer
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ */
+router.post('/:id/restore', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const deletedCustomer = await prisma.customer.findFirst({
+      where: { id, deletedAt: { not: null } },
+      select: { id: true },
+    });
+    if (!deletedCustomer) {
+      return res.status(404).json({ message: 'Deleted customer not found' });
+    }
+
+    const customer = await prisma.customer.update({
+      where: { id },
+      data: { deletedAt: null },
+    });
+
+    await redis.xadd('customer_stream', '*', 'event', 'customer_restored', 'data', JSON.stringify(customer));
+
+    res.json(customer);
+  } catch (error) {
+    console.error('Error restoring customer:', error);
+    res.status(500).json({ message: 'Error restoring customer' });
+  }
+});
+
+module.exports = router;
\ No newline at end of file
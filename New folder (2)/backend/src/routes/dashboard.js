@@ -1,16 +1,82 @@
 const express = require('express');
 const router = express.Router();
-const { prisma } = require('../index'); // Assuming Prisma is initialized in index.js
+const { prisma } = require('../index');
+const { authenticateUser } = require('../middleware/auth');
 
+// Apply authentication middleware to all routes
+router.use(authenticateUser);
+
+/**
+ * @swagger
+ * /api/dashboard/stats:
+ *   get:
+ *     summary: Get dashboard totals and recent activity
+ *     tags: [Dashboard]
+ *     security:
+ *       - bearerAuth: []
+ */
 router.get('/stats', async (req, res) => {
   try {
-    // Example stats data
-    const userCount = await prisma.user.count();
-    const segmentCount = await prisma.segment.count();
+    const [
+      totalCustomers,
+      totalSegments,
+      totalCampaigns,
+      activeCampaigns,
+      recentCustomers,
+      recentSegments,
+      recentCampaigns,
+    ] = await Promise.all([
+      prisma.customer.count({ where: { deletedAt: null } }),
+      prisma.segment.count({ where: { createdById: req.user.id } }),
+      prisma.campaign.count({ where: { createdById: req.user.id } }),
+      prisma.campaign.count({
+        where: {
+          createdById: req.user.id,
+          status: { in: ['SCHEDULED', 'RUNNING', 'PAUSED'] },
+        },
+      }),
+      prisma.customer.findMany({
+        where: { deletedAt: null },
+        select: { id: true, name: true, createdAt: true },
+        orderBy: { createdAt: 'desc' },
+        take: 5,
+      }),
+      prisma.segment.findMany({
+        where: { createdById: req.user.id },
+        select: { id: true, name: true, createdAt: true },
+        orderBy: { createdAt: 'desc' },
+        take: 5,
+      }),
+      prisma.campaign.findMany({
+        where: { createdById: req.user.id },
+        select: { id: true, name: true, createdAt: true },
+        orderBy: { createdAt: 'desc' },
+        take: 5,
+      }),
+    ]);
+
+    // Merge the latest records of each kind into a single activity feed
+    const recentActivity = [
+      ...recentCustomers.map((c) => ({ ...c, type: 'customer' })),
+      ...recentSegments.map((s) => ({ ...s, type: 'segment' })),
+      ...recentCampaigns.map((c) => ({ ...c, type: 'campaign' })),
+    ]
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, 5)
+      .map(({ id, name, type, createdAt }) => ({
+        id: `${type}-${id}`,
+        type,
+        action: 'created',
+        name,
+        timestamp: createdAt,
+      }));
 
     res.json({
-      users: userCount,
-      segments: segmentCount,
+      totalCustomers,
+      totalSegments,
+      totalCampaigns,
+      activeCampaigns,
+      recentActivity,
     });
   } catch (error) {
     console.error('Error fetching dashboard stats:', error);
@@ -18,4 +84,4 @@ router.get('/stats', async (req, res) => {
   }
 });
 
-module.exports = router;
\ No newline at end of file
+module.exports = router;
@@ -1,18 +1,48 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
-const { prisma, redis } = require('../index');
-const { authenticateUser } = require('../middleware/auth');
+const { prisma } = require('../index');
+const {
+  authenticateUser,
+  authenticateDeliveryCallback,
+  authenticateVendorWebhook,
+} = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
+const {
+  deliveryReceiptInput,
+  deliveryBatchInput,
+  vendorWebhookInput,
+  vendorEventReplayInput,
+} = require('../../../shared/schema');
+const { CAMPAIGN_CHANNELS } = require('../../../shared/channels');
+const { engagementByCampaign } = require('../utils/tracking');
+const {
+  receiveDeliveryReceipts,
+  receiveVendorEvents,
+  replayVendorEvents,
+} = require('../utils/vendorEvents');
 
 const router = express.Router();
 
-// Apply authentication middleware to all routes
-router.use(authenticateUser);
+// Records and applies receipts, answering with how many had each outcome
+const receiveReceipts = async (res, receipts) => {
+  const outcomes = await receiveDeliveryReceipts(receipts);
+  if (outcomes.ERROR > 0) {
+    return res.status(500).json({ message: 'Some receipts could not be applied', ...outcomes });
+  }
+  res.json(outcomes);
+};
 
 /**
  * @swagger
  * /api/delivery/receipt:
  *   post:
  *     summary: Update delivery status for a communication
+ *     description: >
+ *       Called by delivery vendors with the X-Delivery-Secret header, or by
+ *       a signed-in user. Handled like a webhook event of the `receipt`
+ *       vendor that happened on arrival: it only replaces a PENDING status
+ *       of a message handed to a vendor or one reported earlier, and is
+ *       kept for replay. A receipt with the same status for the same
+ *       message is ignored. Completes the campaign once nothing is pending.
  *     tags: [Delivery]
  *     security:
  *       - bearerAuth: []
@@ -33,44 +63,17 @@ router.use(authenticateUser);
  *                 enum: [SENT, FAILED]
  *               errorMessage:
  *                 type: string
+ *     responses:
+ *       200:
+ *         description: Whether the receipt was APPLIED, STALE, UNKNOWN (no such message) or DUPLICATE
  */
 router.post(
   '/receipt',
-  [
-    body('communicationId').isUUID(),
-    body('status').isIn(['SENT', 'FAILED']),
-    body('errorMessage').optional().trim(),
-  ],
+  authenticateDeliveryCallback,
+  validateBody(deliveryReceiptInput),
   async (req, res) => {
     try {
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
-      }
-
-      const { communicationId, status, errorMessage } = req.body;
-
-      // Update communication log
-      const communication = await prisma.communicationLog.update({
-        where: { id: communicationId },
-        data: {
-          status,
-          errorMessage,
-          sentAt: status === 'SENT' ? new Date() : null,
-        },
-        include: {
-          campaign: true,
-        },
-      });
-
-      // Publish to Redis stream for async processing
-      await redis.xadd('delivery_stream', '*', 'event', 'delivery_updated', 'data', JSON.stringify({
-        communicationId,
-        status,
-        campaignId: communication.campaignId,
-      }));
-
-      res.json(communication);
+      await receiveReceipts(res, [req.body]);
     } catch (error) {
       console.error('Error updating delivery status:', error);
       res.status(500).json({ message: 'Error updating delivery status' });
@@ -83,6 +86,7 @@ router.post(
  * /api/delivery/batch:
  *   post:
  *     summary: Update delivery status for multiple communications
+ *     description: Each update is handled as a receipt, in the order given.
  *     tags: [Delivery]
  *     security:
  *       - bearerAuth: []
@@ -102,73 +106,249 @@ router.post(
  *                   required:
  *                     - communicationId
  *                     - status
+ *     responses:
+ *       200:
+ *         description: How many updates were APPLIED, STALE or UNKNOWN
  */
 router.post(
   '/batch',
-  [
-    body('updates').isArray(),
-    body('updates.*.communicationId').isUUID(),
-    body('updates.*.status').isIn(['SENT', 'FAILED']),
-    body('updates.*.errorMessage').optional().trim(),
-  ],
+  authenticateDeliveryCallback,
+  validateBody(deliveryBatchInput),
   async (req, res) => {
     try {
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
-      }
+      await receiveReceipts(res, req.body.updates);
+    } catch (error) {
+      console.error('Error updating batch delivery status:', error);
+      res.status(500).json({ message: 'Error updating batch delivery status' });
+    }
+  }
+);
 
-      const { updates } = req.body;
-
-      // Process updates in batches
-      const batchSize = 100;
-      const results = [];
-
-      for (let i = 0; i < updates.length; i += batchSize) {
-        const batch = updates.slice(i, i + batchSize);
-        const batchResults = await Promise.all(
-          batch.map(async (update) => {
-            const { communicationId, status, errorMessage } = update;
-
-            const communication = await prisma.communicationLog.update({
-              where: { id: communicationId },
-              data: {
-                status,
-                errorMessage,
-                sentAt: status === 'SENT' ? new Date() : null,
-              },
-              include: {
-                campaign: true,
-              },
-            });
-
-            // Publish to Redis stream for async processing
-            await redis.xadd('delivery_stream', '*', 'event', 'delivery_updated', 'data', JSON.stringify({
-              communicationId,
-              status,
-              campaignId: communication.campaignId,
-            }));
-
-            return communication;
-          })
-        );
-
-        results.push(...batchResults);
+/**
+ * @swagger
+ * /api/delivery/webhooks/{vendor}:
+ *   post:
+ *     summary: Delivery status webhook for messaging vendors
+ *     description: >
+ *       Signed by the vendor with its own secret (DELIVERY_WEBHOOK_SECRET_<VENDOR>):
+ *       X-Webhook-Signature is `sha256=` and the hex HMAC-SHA256 of
+ *       `<X-Webhook-Timestamp>.<raw body>`, the timestamp being Unix seconds
+ *       no more than DELIVERY_WEBHOOK_TOLERANCE_SECONDS (300) from now.
+ *       Every event is stored for replay. Events whose id was seen before
+ *       are ignored, and a report older than the one that set a message's
+ *       status never changes it, so PENDING can't overwrite SENT or FAILED.
+ *     tags: [Delivery]
+ *     parameters:
+ *       - in: path
+ *         name: vendor
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Webhook-Timestamp
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Webhook-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - events
+ *             properties:
+ *               events:
+ *                 type: array
+ *                 maxItems: 500
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - id
+ *                     - communicationId
+ *                     - status
+ *                     - occurredAt
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       description: The vendor's id for the event
+ *                     communicationId:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                       enum: [PENDING, SENT, FAILED]
+ *                     errorMessage:
+ *                       type: string
+ *                     occurredAt:
+ *                       type: string
+ *                       format: date-time
+ *     responses:
+ *       200:
+ *         description: How many events were APPLIED, STALE, UNKNOWN (no such message) or DUPLICATE
+ *       401:
+ *         description: Unknown vendor, bad signature or timestamp out of range
+ *       500:
+ *         description: Some events could not be applied; sending them again retries those
+ */
+router.post(
+  '/webhooks/:vendor',
+  authenticateVendorWebhook,
+  validateBody(vendorWebhookInput),
+  async (req, res) => {
+    try {
+      const outcomes = await receiveVendorEvents(req.params.vendor, req.body.events);
+      if (outcomes.ERROR > 0) {
+        return res.status(500).json({ message: 'Some events could not be applied', ...outcomes });
       }
+      res.json(outcomes);
+    } catch (error) {
+      console.error('Error receiving vendor events:', error);
+      res.status(500).json({ message: 'Error receiving vendor events' });
+    }
+  }
+);
 
-      res.json(results);
+/**
+ * @swagger
+ * /api/delivery/webhooks/{vendor}/replay:
+ *   post:
+ *     summary: Apply a vendor's recorded webhook events again
+ *     description: >
+ *       Replays, oldest first, the events received in the window for
+ *       messages of the user's campaigns. Only changes what the events
+ *       would have changed the first time. Each event keeps the outcome it
+ *       had when it arrived; the replay's is stored as its replayOutcome.
+ *     tags: [Delivery]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: vendor
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - since
+ *             properties:
+ *               since:
+ *                 type: string
+ *                 format: date-time
+ *               until:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: How many events were APPLIED, STALE, UNKNOWN or ERROR in this replay
+ */
+router.post(
+  '/webhooks/:vendor/replay',
+  authenticateUser,
+  validateBody(vendorEventReplayInput),
+  async (req, res) => {
+    try {
+      res.json(await replayVendorEvents(req.params.vendor, req.body, req.user.id));
     } catch (error) {
-      console.error('Error updating batch delivery status:', error);
-      res.status(500).json({ message: 'Error updating batch delivery status' });
+      console.error('Error replaying vendor events:', error);
+      res.status(500).json({ message: 'Error replaying vendor events' });
     }
   }
 );
 
+// Delivery and failure rates leave out skipped messages, which were never
+// attempted. Open and click rates are of the messages sent.
+const rates = ({ sent, failed, skipped, total, opens, clicks }) => {
+  const attempted = total - skipped;
+  return {
+    deliveryRate: attempted > 0 ? (sent / attempted) * 100 : 0,
+    failureRate: attempted > 0 ? (failed / attempted) * 100 : 0,
+    openRate: sent > 0 ? (opens.unique / sent) * 100 : 0,
+    clickRate: sent > 0 ? (clicks.unique / sent) * 100 : 0,
+  };
+};
+
+/**
+ * @swagger
+ * /api/delivery/stats/channels:
+ *   get:
+ *     summary: Get delivery statistics per channel across the user's campaigns
+ *     description: Includes tracked opens and clicks, unique and total.
+ *     tags: [Delivery]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: One entry per channel, including channels without campaigns
+ */
+router.get('/stats/channels', authenticateUser, async (req, res) => {
+  try {
+    const campaigns = await prisma.campaign.findMany({
+      where: { createdById: req.user.id },
+      select: { id: true, channel: true },
+    });
+    const channelOf = new Map(campaigns.map(({ id, channel }) => [id, channel]));
+
+    const campaignIds = campaigns.map(({ id }) => id);
+    const [counts, engagement] = await Promise.all([
+      prisma.communicationLog.groupBy({
+        by: ['campaignId', 'status'],
+        where: { campaignId: { in: campaignIds } },
+        _count: true,
+      }),
+      engagementByCampaign(campaignIds),
+    ]);
+
+    const byChannel = new Map(CAMPAIGN_CHANNELS.map((channel) => [channel, {
+      channel,
+      campaigns: campaigns.filter((c) => c.channel === channel).length,
+      total: 0,
+      sent: 0,
+      failed: 0,
+      pending: 0,
+      skipped: 0,
+      opens: { unique: 0, total: 0 },
+      clicks: { unique: 0, total: 0 },
+    }]));
+    for (const { campaignId, status, _count } of counts) {
+      const stats = byChannel.get(channelOf.get(campaignId));
+      if (!stats) continue;
+      stats.total += _count;
+      stats[status.toLowerCase()] += _count;
+    }
+    for (const [campaignId, { opens, clicks }] of engagement) {
+      const stats = byChannel.get(channelOf.get(campaignId));
+      if (!stats) continue;
+      stats.opens.unique += opens.unique;
+      stats.opens.total += opens.total;
+      stats.clicks.unique += clicks.unique;
+      stats.clicks.total += clicks.total;
+    }
+
+    res.json([...byChannel.values()].map((stats) => ({ ...stats, ...rates(stats) })));
+  } catch (error) {
+    console.error('Error fetching channel stats:', error);
+    res.status(500).json({ message: 'Error fetching channel stats' });
+  }
+});
+
 /**
  * @swagger
  * /api/delivery/stats/{campaignId}:
  *   get:
  *     summary: Get delivery statistics for a campaign
+ *     description: >
+ *       Includes tracked opens and clicks, unique and total, and the share
+ *       of sent messages opened and clicked at least once.
  *     tags: [Delivery]
  *     security:
  *       - bearerAuth: []
@@ -179,7 +359,7 @@ router.post(
  *         schema:
  *           type: string
  */
-router.get('/stats/:campaignId', async (req, res) => {
+router.get('/stats/:campaignId', authenticateUser, async (req, res) => {
   try {
     const { campaignId } = req.params;
 
@@ -207,14 +387,18 @@ router.get('/stats/:campaignId', async (req, res) => {
     const sent = stats.find(s => s.status === 'SENT')?._count || 0;
     const failed = stats.find(s => s.status === 'FAILED')?._count || 0;
     const pending = stats.find(s => s.status === 'PENDING')?._count || 0;
+    const skipped = stats.find(s => s.status === 'SKIPPED')?._count || 0;
+    const { opens, clicks } = (await engagementByCampaign([campaignId])).get(campaignId);
 
     res.json({
       total,
       sent,
       failed,
       pending,
-      deliveryRate: total > 0 ? (sent / total) * 100 : 0,
-      failureRate: total > 0 ? (failed / total) * 100 : 0,
+      skipped,
+      ...rates({ sent, failed, skipped, total, opens, clicks }),
+      opens,
+      clicks,
     });
   } catch (error) {
     console.error('Error fetching delivery stats:', error);
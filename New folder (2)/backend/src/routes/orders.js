@@ -0,0 +1,117 @@
+const express = require('express');
+const { prisma, redis } = require('../index');
+const { authenticateUser } = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
+const { orderUpdateInput } = require('../../../shared/schema');
+const { OrderLifecycleError, updateOrderStatus } = require('../utils/orders');
+
+const router = express.Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateUser);
+
+/**
+ * @swagger
+ * /api/orders/{id}:
+ *   get:
+ *     summary: Get an order with its customer
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      include: {
+        customer: {
+          select: { id: true, name: true, email: true },
+        },
+      },
+    });
+
+    if (!order) {
+      return res.status(404).json({ message: 'Order not found' });
+    }
+
+    res.json(order);
+  } catch (error) {
+    console.error('Error fetching order:', error);
+    res.status(500).json({ message: 'Error fetching order' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/orders/{id}:
+ *   patch:
+ *     summary: Change an order's status or refund it
+ *     description: >
+ *       Allowed transitions are PENDING to COMPLETED or CANCELLED, and
+ *       COMPLETED to REFUNDED. A refundAmount below the remaining amount is a
+ *       partial refund and leaves the order COMPLETED. The customer's spend
+ *       and visit totals are recomputed from completed orders.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [COMPLETED, CANCELLED, REFUNDED]
+ *               refundAmount:
+ *                 type: number
+ *     responses:
+ *       400:
+ *         description: Transition not allowed or refund too large
+ *       409:
+ *         description: The order changed while the update was running
+ */
+router.patch(
+  '/:id',
+  validateBody(orderUpdateInput),
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const order = await updateOrderStatus(id, req.body);
+      if (!order) {
+        return res.status(404).json({ message: 'Order not found' });
+      }
+
+      // Publish to Redis stream for async processing
+      await redis.xadd('order_stream', '*', 'event', 'order_updated', 'data', JSON.stringify(order));
+
+      res.json(order);
+    } catch (error) {
+      if (error instanceof OrderLifecycleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error('Error updating order:', error);
+      res.status(500).json({ message: 'Error updating order' });
+    }
+  }
+);
+
+module.exports = router;
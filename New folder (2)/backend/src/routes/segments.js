@@ -1,14 +1,68 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
 const { prisma } = require('../index');
 const { authenticateUser } = require('../middleware/auth');
-const { evaluateSegmentRules } = require('../utils/segmentEvaluator');
+const { validateBody, validateQuery } = require('../middleware/validate');
+const {
+  segmentInput,
+  segmentDuplicateInput,
+  segmentDeleteQuery,
+  segmentFromTextInput,
+  segmentOverlapInput,
+  segmentPreviewInput,
+} = require('../../../shared/schema');
+const { SegmentRuleError, evaluateSegmentRules } = require('../utils/segmentEvaluator');
+const { addSegmentMembers, materializeSegment } = require('../utils/segmentMembership');
+const { buildSegmentPreview } = require('../utils/segmentPreview');
+const { SegmentTextError, rulesFromText } = require('../utils/segmentFromText');
+const { compareSegments } = require('../utils/segmentOverlap');
 
 const router = express.Router();
 
+// Memberships of soft-deleted customers are kept so a restore brings them
+// back, but they don't count towards a segment
+const activeMembers = { customer: { deletedAt: null } };
+
+// Writing a large segment's membership can take a while
+const MEMBERSHIP_TIMEOUT_MS = 60000;
+
 // Apply authentication middleware to all routes
 router.use(authenticateUser);
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SegmentRules:
+ *       description: >
+ *         A condition `{ field, operator, value }` or a group
+ *         `{ type: AND | OR | NOT, conditions: [...] }`. Groups nest up to 5
+ *         levels deep with at most 50 conditions in total; NOT matches when
+ *         none of its conditions do. Order fields (orderCount, avgOrderValue,
+ *         recentSpend, firstOrderDate, lastOrderDate) only count completed
+ *         orders; recentSpend also needs `days`, the look-back window.
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [AND, OR, NOT]
+ *         conditions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/SegmentRules'
+ *         field:
+ *           type: string
+ *           enum: [totalSpend, visitCount, lastVisit, email, name, phone, createdAt, orderCount, avgOrderValue, recentSpend, firstOrderDate, lastOrderDate]
+ *         operator:
+ *           type: string
+ *           enum: [gt, gte, lt, lte, eq, before, after, between, daysAgo, notSince, contains, startsWith, endsWith, equals]
+ *         days:
+ *           type: integer
+ *         value:
+ *           oneOf:
+ *             - type: string
+ *             - type: number
+ */
+
 /**
  * @swagger
  * /api/segments:
@@ -32,55 +86,51 @@ router.use(authenticateUser);
  *               description:
  *                 type: string
  *               rules:
- *                 type: object
+ *                 $ref: '#/components/schemas/SegmentRules'
+ *               isDynamic:
+ *                 type: boolean
+ *                 default: true
+ *                 description: >
+ *                   Dynamic segments gain and lose members as customers and
+ *                   orders change; static ones keep the members they start with
+ *     responses:
+ *       400:
+ *         description: >
+ *           Invalid rules. Each entry in `errors` has the path to the bad
+ *           node (e.g. rules.conditions.1.operator) and a message.
  */
 router.post(
   '/',
-  [
-    body('name').trim().notEmpty(),
-    body('description').optional().trim(),
-    body('rules').isObject(),
-  ],
+  validateBody(segmentInput),
   async (req, res) => {
     try {
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
-      }
+      const { name, description, rules, isDynamic = true } = req.body;
 
-      const { name, description, rules } = req.body;
+      // The segment and its initial members are saved together; invalid
+      // rules throw before anything is written
+      const { segment, customerCount } = await prisma.$transaction(async (tx) => {
+        const matchingCustomers = await evaluateSegmentRules(rules, {}, tx);
 
-      // Create segment
-      const segment = await prisma.segment.create({
-        data: {
-          name,
-          description,
-          rules,
-          createdById: req.user.id,
-        },
-      });
-
-      // Evaluate rules and add matching customers
-      const matchingCustomers = await evaluateSegmentRules(rules);
-      
-      // Add customers to segment in batches
-      const batchSize = 100;
-      for (let i = 0; i < matchingCustomers.length; i += batchSize) {
-        const batch = matchingCustomers.slice(i, i + batchSize);
-        await prisma.customerSegment.createMany({
-          data: batch.map(customerId => ({
-            customerId,
-            segmentId: segment.id,
-          })),
-          skipDuplicates: true,
+        const segment = await tx.segment.create({
+          data: {
+            name,
+            description,
+            rules,
+            isDynamic,
+            createdById: req.user.id,
+          },
         });
-      }
 
-      res.status(201).json({
-        ...segment,
-        customerCount: matchingCustomers.length,
-      });
+        // Add the initial members, recording when they joined
+        await addSegmentMembers(segment.id, matchingCustomers, tx);
+        return { segment, customerCount: matchingCustomers.length };
+      }, { timeout: MEMBERSHIP_TIMEOUT_MS });
+
+      res.status(201).json({ ...segment, customerCount });
     } catch (error) {
+      if (error instanceof SegmentRuleError) {
+        return res.status(400).json({ errors: error.errors });
+      }
       console.error('Error creating segment:', error);
       res.status(500).json({ message: 'Error creating segment' });
     }
@@ -105,28 +155,136 @@ router.post(
  *               - rules
  *             properties:
  *               rules:
- *                 type: object
+ *                 $ref: '#/components/schemas/SegmentRules'
+ *     responses:
+ *       200:
+ *         description: >
+ *           Audience size and its share of all customers, the top spenders as
+ *           sample records, and spend, visit and recency distributions as
+ *           lists of `{ label, count }` buckets
+ *       400:
+ *         description: Invalid rules, reported per node as for segment creation
  */
 router.post(
   '/preview',
-  [body('rules').isObject()],
+  validateBody(segmentPreviewInput),
   async (req, res) => {
     try {
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
+      const preview = await buildSegmentPreview(req.body.rules);
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof SegmentRuleError) {
+        return res.status(400).json({ errors: error.errors });
       }
+      console.error('Error previewing segment:', error);
+      res.status(500).json({ message: 'Error previewing segment' });
+    }
+  }
+);
 
-      const { rules } = req.body;
+/**
+ * @swagger
+ * /api/segments/from-text:
+ *   post:
+ *     summary: Generate segment rules from a plain-language description
+ *     description: >
+ *       Nothing is saved; the rules come back with the number of matching
+ *       customers so they can be reviewed in the rule builder first. Uses
+ *       OpenAI when OPENAI_API_KEY is set and an offline phrase parser
+ *       otherwise (SEGMENT_AI_PROVIDER=openai|stub overrides this).
+ *     tags: [Segments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - text
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 example: Customers who spent over 500 and haven't visited in 3 months
+ *     responses:
+ *       422:
+ *         description: No valid rules could be generated; `errors` lists what was wrong
+ */
+router.post(
+  '/from-text',
+  validateBody(segmentFromTextInput),
+  async (req, res) => {
+    try {
+      const rules = await rulesFromText(req.body.text);
       const matchingCustomers = await evaluateSegmentRules(rules);
 
       res.json({
+        rules,
         customerCount: matchingCustomers.length,
-        sampleCustomers: matchingCustomers.slice(0, 5),
       });
     } catch (error) {
-      console.error('Error previewing segment:', error);
-      res.status(500).json({ message: 'Error previewing segment' });
+      if (error instanceof SegmentTextError) {
+        return res.status(422).json({ message: error.message, errors: error.errors });
+      }
+      console.error('Error generating segment rules:', error);
+      res.status(500).json({ message: 'Error generating segment rules' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/segments/overlap:
+ *   post:
+ *     summary: Compare two to four segments and how their members overlap
+ *     description: >
+ *       Based on current memberships. `regions` lists, for each combination
+ *       of segments that has any customers, how many belong to exactly that
+ *       combination.
+ *     tags: [Segments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - segmentIds
+ *             properties:
+ *               segmentIds:
+ *                 type: array
+ *                 minItems: 2
+ *                 maxItems: 4
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       404:
+ *         description: One of the segments was not found
+ */
+router.post(
+  '/overlap',
+  validateBody(segmentOverlapInput),
+  async (req, res) => {
+    try {
+      const { segmentIds } = req.body;
+
+      const found = await prisma.segment.findMany({
+        where: { id: { in: segmentIds }, createdById: req.user.id },
+        select: { id: true, name: true, isDynamic: true },
+      });
+      if (found.length !== segmentIds.length) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+
+      // Keep the requested order, which the response follows
+      const segments = segmentIds.map((id) => found.find((s) => s.id === id));
+      res.json(await compareSegments(segments));
+    } catch (error) {
+      console.error('Error comparing segments:', error);
+      res.status(500).json({ message: 'Error comparing segments' });
     }
   }
 );
@@ -148,7 +306,7 @@ router.get('/', async (req, res) => {
       },
       include: {
         _count: {
-          select: { customers: true },
+          select: { customers: { where: activeMembers }, campaigns: true },
         },
       },
       orderBy: {
@@ -182,13 +340,14 @@ router.get('/:id', async (req, res) => {
   try {
     const { id } = req.params;
 
-    const segment = await prisma.segment.findUnique({
-      where: { id },
+    const segment = await prisma.segment.findFirst({
+      where: { id, createdById: req.user.id },
       include: {
         _count: {
-          select: { customers: true },
+          select: { customers: { where: activeMembers } },
         },
         customers: {
+          where: activeMembers,
           take: 10,
           select: {
             customer: {
@@ -217,4 +376,296 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/segments/{id}:
+ *   put:
+ *     summary: Update a segment and re-materialize its membership
+ *     description: >
+ *       The new rules are evaluated against every customer; the response's
+ *       `membership` reports how many customers were added and removed.
+ *     tags: [Segments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - rules
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               rules:
+ *                 $ref: '#/components/schemas/SegmentRules'
+ *               isDynamic:
+ *                 type: boolean
+ *                 description: Left as it is when omitted
+ *     responses:
+ *       400:
+ *         description: Invalid rules, reported per node as for segment creation
+ *       404:
+ *         description: Segment not found
+ */
+router.put(
+  '/:id',
+  validateBody(segmentInput),
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { name, description, rules, isDynamic } = req.body;
+
+      const existingSegment = await prisma.segment.findFirst({
+        where: { id, createdById: req.user.id },
+        select: { id: true },
+      });
+      if (!existingSegment) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+
+      // The membership and the rules it follows are saved together; invalid
+      // rules throw before anything is written. An omitted isDynamic is
+      // undefined, which Prisma leaves unchanged.
+      const { segment, membership } = await prisma.$transaction(async (tx) => {
+        const membership = await materializeSegment(id, rules, tx);
+        const segment = await tx.segment.update({
+          where: { id },
+          data: {
+            name,
+            description: description ?? null,
+            rules,
+            isDynamic,
+          },
+          include: {
+            _count: {
+              select: { customers: { where: activeMembers } },
+            },
+          },
+        });
+        return { segment, membership };
+      }, { timeout: MEMBERSHIP_TIMEOUT_MS });
+
+      res.json({ ...segment, membership });
+    } catch (error) {
+      if (error instanceof SegmentRuleError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error('Error updating segment:', error);
+      res.status(500).json({ message: 'Error updating segment' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/segments/{id}:
+ *   delete:
+ *     summary: Delete a segment
+ *     description: >
+ *       Segments targeted by campaigns are only deleted with `cascade=true`,
+ *       which deletes those campaigns and their delivery logs too.
+ *     tags: [Segments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: cascade
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       404:
+ *         description: Segment not found
+ *       409:
+ *         description: >
+ *           Campaigns target the segment and `cascade` was not set, or one of
+ *           them is still running
+ */
+router.delete(
+  '/:id',
+  validateQuery(segmentDeleteQuery),
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { cascade = false } = req.query;
+
+      const segment = await prisma.segment.findFirst({
+        where: { id, createdById: req.user.id },
+        include: {
+          campaigns: {
+            select: { id: true, name: true, status: true },
+          },
+        },
+      });
+      if (!segment) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+
+      const { campaigns } = segment;
+      if (campaigns.length > 0 && !cascade) {
+        return res.status(409).json({
+          message: `Segment is used by ${campaigns.length} campaign(s); delete them too or keep the segment`,
+          campaigns,
+        });
+      }
+      if (campaigns.some((campaign) => ['RUNNING', 'PAUSED'].includes(campaign.status))) {
+        return res.status(409).json({
+          message: 'Segment is used by a running or paused campaign',
+          campaigns,
+        });
+      }
+
+      const campaignIds = campaigns.map((campaign) => campaign.id);
+      await prisma.$transaction([
+        prisma.communicationEvent.deleteMany({ where: { campaignId: { in: campaignIds } } }),
+        prisma.communicationLog.deleteMany({ where: { campaignId: { in: campaignIds } } }),
+        prisma.campaignVariant.deleteMany({ where: { campaignId: { in: campaignIds } } }),
+        prisma.campaign.deleteMany({ where: { id: { in: campaignIds } } }),
+        prisma.segmentMembershipEvent.deleteMany({ where: { segmentId: id } }),
+        prisma.customerSegment.deleteMany({ where: { segmentId: id } }),
+        prisma.segment.delete({ where: { id } }),
+      ]);
+
+      res.json({ id, deletedCampaigns: campaignIds.length });
+    } catch (error) {
+      console.error('Error deleting segment:', error);
+      res.status(500).json({ message: 'Error deleting segment' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/segments/{id}/duplicate:
+ *   post:
+ *     summary: Copy a segment together with its current members
+ *     tags: [Segments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Defaults to the original name with " (copy)"
+ */
+router.post(
+  '/:id/duplicate',
+  validateBody(segmentDuplicateInput),
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const source = await prisma.segment.findFirst({
+        where: { id, createdById: req.user.id },
+        include: {
+          customers: { select: { customerId: true } },
+        },
+      });
+      if (!source) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+
+      const segment = await prisma.$transaction(async (tx) => {
+        const { id: copyId } = await tx.segment.create({
+          data: {
+            name: req.body.name || `${source.name} (copy)`,
+            description: source.description,
+            rules: source.rules,
+            isDynamic: source.isDynamic,
+            createdById: req.user.id,
+          },
+        });
+
+        // Copy members as they are rather than re-evaluating, so a static
+        // segment's copy matches the original
+        await addSegmentMembers(copyId, source.customers.map((c) => c.customerId), tx);
+
+        return tx.segment.findUnique({
+          where: { id: copyId },
+          include: {
+            _count: {
+              select: { customers: { where: activeMembers } },
+            },
+          },
+        });
+      }, { timeout: MEMBERSHIP_TIMEOUT_MS });
+
+      res.status(201).json(segment);
+    } catch (error) {
+      console.error('Error duplicating segment:', error);
+      res.status(500).json({ message: 'Error duplicating segment' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/segments/{id}/events:
+ *   get:
+ *     summary: Get the latest customers to join or leave a segment
+ *     tags: [Segments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ */
+router.get('/:id/events', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const segment = await prisma.segment.findFirst({
+      where: { id, createdById: req.user.id },
+      select: { id: true },
+    });
+    if (!segment) {
+      return res.status(404).json({ message: 'Segment not found' });
+    }
+
+    const events = await prisma.segmentMembershipEvent.findMany({
+      where: { segmentId: id },
+      include: {
+        customer: {
+          select: { id: true, name: true, email: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    res.json(events);
+  } catch (error) {
+    console.error('Error fetching segment events:', error);
+    res.status(500).json({ message: 'Error fetching segment events' });
+  }
+});
+
 module.exports = router; 
\ No newline at end of file
@@ -0,0 +1,100 @@
+const express = require('express');
+const { verifySignature, recordEvent } = require('../utils/tracking');
+
+const router = express.Router();
+
+// A transparent 1x1 GIF
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+/**
+ * @swagger
+ * /api/track/open/{communicationId}.gif:
+ *   get:
+ *     summary: Open pixel embedded in campaign emails
+ *     description: >
+ *       Records an open of the message when the signature matches. Always
+ *       answers with the image, so mail clients show nothing amiss.
+ *     tags: [Tracking]
+ *     parameters:
+ *       - in: path
+ *         name: communicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sig
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: A transparent 1x1 GIF
+ */
+router.get('/open/:communicationId.gif', async (req, res) => {
+  const { communicationId } = req.params;
+
+  if (verifySignature(req.query.sig, 'open', communicationId)) {
+    try {
+      await recordEvent(communicationId, 'OPEN', { userAgent: req.get('user-agent') });
+    } catch (error) {
+      console.error('Error recording open:', error);
+    }
+  }
+
+  res.set({
+    'Content-Type': 'image/gif',
+    'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+  });
+  res.send(PIXEL);
+});
+
+/**
+ * @swagger
+ * /api/track/click/{communicationId}:
+ *   get:
+ *     summary: Tracked link in campaign messages
+ *     description: >
+ *       Records a click and redirects to `url`. Only links signed when the
+ *       message was sent are followed, so this can't be used to redirect
+ *       anywhere else.
+ *     tags: [Tracking]
+ *     parameters:
+ *       - in: path
+ *         name: communicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: url
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sig
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       302:
+ *         description: Redirect to the original link
+ *       400:
+ *         description: The link isn't a valid tracked link
+ */
+router.get('/click/:communicationId', async (req, res) => {
+  const { communicationId } = req.params;
+  const { url, sig } = req.query;
+
+  if (typeof url !== 'string' || !verifySignature(sig, 'click', communicationId, url)) {
+    return res.status(400).json({ message: 'Invalid tracking link' });
+  }
+
+  // The customer gets where they were going even if recording fails
+  try {
+    await recordEvent(communicationId, 'CLICK', { url, userAgent: req.get('user-agent') });
+  } catch (error) {
+    console.error('Error recording click:', error);
+  }
+  res.redirect(302, url);
+});
+
+module.exports = router;
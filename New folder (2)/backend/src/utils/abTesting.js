@@ -0,0 +1,139 @@
+const crypto = require('crypto');
+const { prisma } = require('../index');
+
+// The rate each winner metric compares
+const METRIC_RATES = { DELIVERY: 'deliveryRate', OPEN: 'openRate', CLICK: 'clickRate' };
+
+/** A, B, C, ... for the variants in the order they were given */
+const variantLabel = (index) => String.fromCharCode(65 + index);
+
+// A number in [0, 100) that is random across customers but always the same
+// for one customer of a campaign. The salt keeps the test slice and the
+// variant draws independent of each other.
+const bucket = (campaignId, customerId, salt) =>
+  (crypto.createHash('sha256').update(`${campaignId}:${customerId}:${salt}`).digest().readUInt32BE(0) / 2 ** 32) * 100;
+
+/**
+ * The id of the variant a customer gets, by the variants' weights, or null
+ * if an A/B test holds them back for the winner.
+ * @param {{ id: string, testPercent: number | null }} campaign
+ * @param {{ id: string, weight: number }[]} variants In label order
+ * @param {string} customerId
+ */
+const assignVariant = (campaign, variants, customerId) => {
+  if (campaign.testPercent && bucket(campaign.id, customerId, 'test') >= campaign.testPercent) {
+    return null;
+  }
+
+  const draw = bucket(campaign.id, customerId, 'variant');
+  let upTo = 0;
+  for (const variant of variants) {
+    upTo += variant.weight;
+    if (draw < upTo) return variant.id;
+  }
+  return variants[variants.length - 1].id;
+};
+
+/**
+ * Each variant of the campaigns with its delivery, open and click results.
+ * @param {{ id: string, winnerVariantId: string | null, variants: any[] }[]} campaigns Variants in label order
+ * @returns {Promise<Map<string, import('../../../shared/schema').CampaignVariantResult[]>>}
+ */
+const variantResultsByCampaign = async (campaigns) => {
+  const variantIds = campaigns.flatMap(({ variants }) => variants.map(({ id }) => id));
+  const where = { variantId: { in: variantIds } };
+  const [counts, firsts] = variantIds.length === 0 ? [[], []] : await Promise.all([
+    prisma.communicationLog.groupBy({ by: ['variantId', 'status'], where, _count: true }),
+    prisma.communicationLog.groupBy({
+      by: ['variantId'],
+      where,
+      _count: { firstOpenedAt: true, firstClickedAt: true },
+    }),
+  ]);
+
+  const results = new Map();
+  for (const campaign of campaigns) {
+    results.set(campaign.id, campaign.variants.map((variant) => {
+      const stats = { total: 0 };
+      for (const { status, _count } of counts.filter((count) => count.variantId === variant.id)) {
+        stats[status.toLowerCase()] = _count;
+        stats.total += _count;
+      }
+      const first = firsts.find((count) => count.variantId === variant.id);
+      const opened = first ? first._count.firstOpenedAt : 0;
+      const clicked = first ? first._count.firstClickedAt : 0;
+      const sent = stats.sent || 0;
+      const attempted = stats.total - (stats.skipped || 0);
+
+      return {
+        id: variant.id,
+        label: variant.label,
+        weight: variant.weight,
+        subject: variant.subject,
+        message: variant.message,
+        stats,
+        opened,
+        clicked,
+        deliveryRate: attempted > 0 ? (sent / attempted) * 100 : 0,
+        openRate: sent > 0 ? (opened / sent) * 100 : 0,
+        clickRate: sent > 0 ? (clicked / sent) * 100 : 0,
+        winner: variant.id === campaign.winnerVariantId,
+      };
+    }));
+  }
+  return results;
+};
+
+/**
+ * Picks the winner of every running A/B test whose wait is over and whose
+ * test slice has all been handed to the vendor, and gives the recipients
+ * held back the winning variant. On a tie the earlier variant wins.
+ * Resolves to the ids of the campaigns that now have messages to deliver.
+ * Safe to run on several instances at once.
+ */
+const settleDueTests = async (now = new Date()) => {
+  const due = await prisma.campaign.findMany({
+    where: { status: 'RUNNING', winnerVariantId: null, testEndsAt: { lte: now } },
+    include: { variants: { orderBy: { label: 'asc' } } },
+  });
+  if (due.length === 0) return [];
+
+  const results = await variantResultsByCampaign(due);
+  const settled = [];
+  for (const campaign of due) {
+    try {
+      const unsent = await prisma.communicationLog.count({
+        where: { campaignId: campaign.id, variantId: { not: null }, status: 'PENDING', dispatchedAt: null },
+      });
+      if (unsent > 0) continue;
+
+      const rate = METRIC_RATES[campaign.winnerMetric] || METRIC_RATES.DELIVERY;
+      const winner = results.get(campaign.id).reduce((best, result) => (result[rate] > best[rate] ? result : best));
+
+      const won = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.campaign.updateMany({
+          where: { id: campaign.id, status: 'RUNNING', winnerVariantId: null },
+          data: { winnerVariantId: winner.id },
+        });
+        if (count === 0) return false;
+
+        await tx.communicationLog.updateMany({
+          where: { campaignId: campaign.id, variantId: null, status: 'PENDING' },
+          data: { variantId: winner.id },
+        });
+        return true;
+      });
+      if (won) settled.push(campaign.id);
+    } catch (error) {
+      console.error(`Error picking the winner of campaign ${campaign.id}:`, error);
+    }
+  }
+  return settled;
+};
+
+module.exports = {
+  variantLabel,
+  assignVariant,
+  variantResultsByCampaign,
+  settleDueTests,
+};
@@ -1,12 +1,55 @@
 const OpenAI = require("openai");
+const {
+  SEGMENT_FIELDS,
+  SEGMENT_OPERATORS,
+  WINDOWED_SEGMENT_FIELDS,
+} = require("../../../shared/schema");
+const { TEMPLATE_FIELDS } = require("../../../shared/template");
 
-// Initialize OpenAI API
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY, // Ensure this is set in your .env file
-});
+// Created on first use: the client throws without an API key, and the
+// server must still start (and use the stub rule provider) without one
+let openai;
+const getOpenAI = () => {
+  if (!openai) {
+    openai = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY, // Ensure this is set in your .env file
+    });
+  }
+  return openai;
+};
+
+// Channel-specific guidance for generated campaign messages
+const CHANNEL_GUIDANCE = {
+  EMAIL: "It is the body of an email; the subject is written separately",
+  SMS: "It is an SMS, so keep it under 160 characters and avoid emoji",
+};
 
-const generateAIMessage = async ({ objective, segmentName, sampleCustomers }) => {
+// The variants are found in the answer as a JSON array of strings
+const parseVariants = (output, count) => {
+  const start = output.indexOf("[");
+  const end = output.lastIndexOf("]");
+  let variants;
   try {
+    variants = JSON.parse(output.slice(start, end + 1));
+  } catch (error) {
+    variants = undefined;
+  }
+  if (start === -1 || !Array.isArray(variants) || variants.length !== count
+    || variants.some((variant) => typeof variant !== "string" || !variant.trim())) {
+    throw new Error(`Expected ${count} message variants from the model`);
+  }
+  return variants.map((variant) => variant.trim());
+};
+
+// Resolves to the message, or with `variants` to that many distinct
+// messages to A/B test against each other
+const generateAIMessage = async ({ objective, channel = "EMAIL", segmentName, sampleCustomers, variants }) => {
+  try {
+    const answer = variants
+      ? `Generate ${variants} clearly different versions of the message, e.g. in tone, offer or
+      call-to-action, to A/B test against each other. Answer with only a JSON array of
+      ${variants} strings, one per message.`
+      : "Generate the message:";
     const prompt = `
       Generate a personalized marketing message for a campaign with the following details:
       
@@ -22,11 +65,18 @@ const generateAIMessage = async ({ objective, segmentName, sampleCustomers }) =>
       3. Keep it concise (max 2-3 sentences)
       4. Use a friendly, conversational tone
       5. Consider the customer's spending history and visit patterns
+      6. It is a template sent to every customer in the segment, so personalize
+         it with these tokens rather than details of the sample customers:
+      ${Object.entries(TEMPLATE_FIELDS).map(([field, { description }]) => `   {{${field}}} - ${description}`).join("\n      ")}
+         Tokens take filters, e.g. {{lastVisit | date}}, {{totalSpend | money}} and
+         {{firstName | default: "there"}}, and conditionals, e.g.
+         {{#if visitCount >= 10}}...{{else}}...{{/if}}. Use no other {{...}} tokens.
+      ${CHANNEL_GUIDANCE[channel] ? `7. ${CHANNEL_GUIDANCE[channel]}` : ""}
       
-      Generate the message:
+      ${answer}
     `;
 
-    const completion = await openai.chat.completions.create({
+    const completion = await getOpenAI().chat.completions.create({
       model: "gpt-4",
       messages: [
         {
@@ -39,10 +89,11 @@ const generateAIMessage = async ({ objective, segmentName, sampleCustomers }) =>
         },
       ],
       temperature: 0.7,
-      max_tokens: 150,
+      max_tokens: 150 * (variants || 1),
     });
 
-    return completion.choices[0].message.content.trim();
+    const output = completion.choices[0].message.content.trim();
+    return variants ? parseVariants(output, variants) : output;
   } catch (error) {
     console.error("Error generating AI message:", error);
     throw error;
@@ -73,7 +124,7 @@ const generateCampaignInsights = async (campaignData) => {
       Analysis:
     `;
 
-    const completion = await openai.chat.completions.create({
+    const completion = await getOpenAI().chat.completions.create({
       model: "gpt-4",
       messages: [
         {
@@ -96,7 +147,19 @@ const generateCampaignInsights = async (campaignData) => {
   }
 };
 
-const generateSegmentRules = async (naturalLanguageQuery) => {
+const describeSegmentFields = () =>
+  Object.entries(SEGMENT_FIELDS)
+    .map(([field, type]) => {
+      const windowed = WINDOWED_SEGMENT_FIELDS.includes(field)
+        ? ' (also needs "days": the look-back window in days)'
+        : "";
+      return `- ${field} (${type}): ${SEGMENT_OPERATORS[type].join(", ")}${windowed}`;
+    })
+    .join("\n");
+
+// Returns the model's raw answer; callers parse and validate it. `feedback`
+// carries the previous answer and what was wrong with it when retrying.
+const generateSegmentRules = async (naturalLanguageQuery, feedback = null) => {
   try {
     const prompt = `
       Convert the following natural language query into structured segment rules:
@@ -104,14 +167,16 @@ const generateSegmentRules = async (naturalLanguageQuery) => {
       Query: "${naturalLanguageQuery}"
       
       Available fields and operators:
-      - totalSpend: gt, gte, lt, lte, eq
-      - visitCount: gt, gte, lt, lte, eq
-      - lastVisit: before, after, between, daysAgo
-      - email: contains, startsWith, endsWith, equals
+      ${describeSegmentFields()}
       
-      Generate the rules in JSON format with the following structure:
+      Values: numbers for number fields and for daysAgo (a number of days),
+      ISO dates for other date operators, "start,end" for between.
+      Today is ${new Date().toISOString().slice(0, 10)}.
+      
+      Generate the rules in JSON format with the following structure, where
+      a group may also appear inside "conditions" to nest rules:
       {
-        "type": "AND" | "OR",
+        "type": "AND" | "OR" | "NOT",
         "conditions": [
           {
             "field": string,
@@ -120,11 +185,20 @@ const generateSegmentRules = async (naturalLanguageQuery) => {
           }
         ]
       }
+      ${feedback ? `
+      Your previous answer was:
+      ${feedback.output}
+      
+      It was rejected because:
+      ${feedback.errors.map((e) => `- ${e.path}: ${e.msg}`).join("\n")}
+      
+      Fix these problems.` : ""}
+      Answer with the JSON only.
       
       Rules:
     `;
 
-    const completion = await openai.chat.completions.create({
+    const completion = await getOpenAI().chat.completions.create({
       model: "gpt-4",
       messages: [
         {
@@ -140,8 +214,7 @@ const generateSegmentRules = async (naturalLanguageQuery) => {
       max_tokens: 300,
     });
 
-    const rules = JSON.parse(completion.choices[0].message.content.trim());
-    return rules;
+    return completion.choices[0].message.content.trim();
   } catch (error) {
     console.error("Error generating segment rules:", error);
     throw error;
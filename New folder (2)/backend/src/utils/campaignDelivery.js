@@ -0,0 +1,229 @@
+const { prisma } = require('../index');
+const { compileTemplate } = require('../../../shared/template');
+const { WHATSAPP_TEMPLATES, missingContact } = require('../../../shared/channels');
+const { trackContent } = require('./tracking');
+
+const BATCH_SIZE = Number(process.env.DELIVERY_BATCH_SIZE) || 50;
+const RATE_PER_SECOND = Number(process.env.DELIVERY_RATE_PER_SECOND) || 20;
+const VENDOR_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+
+// Campaigns in these states haven't settled yet; a PAUSED one whose
+// messages have all been handed over still settles as receipts come in
+const UNSETTLED_STATUSES = ['RUNNING', 'PAUSED'];
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Messages waiting to be handed to the vendor
+const undispatched = (campaignId) => ({ campaignId, status: 'PENDING', dispatchedAt: null });
+
+const sendWithRetry = async (vendor, messages) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await vendor.sendBatch(messages);
+    } catch (error) {
+      if (attempt >= VENDOR_ATTEMPTS) throw error;
+      console.error(`Vendor ${vendor.name} failed (attempt ${attempt}), retrying:`, error);
+      await sleep(RETRY_DELAY_MS * attempt);
+    }
+  }
+};
+
+// Compiles a campaign's templates into a function giving the channel
+// content of its message to one customer. Throws if a template is invalid.
+const compileContent = (campaign) => {
+  const body = compileTemplate(campaign.message);
+
+  if (campaign.channel === 'EMAIL') {
+    const subject = compileTemplate(campaign.subject || '');
+    return (customer) => ({ body: body(customer), subject: subject(customer) });
+  }
+
+  if (campaign.channel === 'WHATSAPP') {
+    const template = WHATSAPP_TEMPLATES[campaign.whatsappTemplate];
+    if (!template) {
+      throw new Error(`Unknown WhatsApp template "${campaign.whatsappTemplate}"`);
+    }
+    const params = (campaign.whatsappParams || []).map(compileTemplate);
+    return (customer) => ({
+      body: body(customer),
+      whatsapp: {
+        template: campaign.whatsappTemplate,
+        language: template.language,
+        params: params.map((param) => param(customer)),
+      },
+    });
+  }
+
+  return (customer) => ({ body: body(customer) });
+};
+
+// Marks messages to customers without the channel's contact field as
+// SKIPPED, with the reason, and resolves to the rest
+const skipUnreachable = async (campaign, logs) => {
+  const reachable = [];
+  const skipped = new Map();
+  for (const log of logs) {
+    const reason = missingContact(campaign.channel, log.customer);
+    if (!reason) {
+      reachable.push(log);
+    } else {
+      skipped.set(reason, [...(skipped.get(reason) || []), log.id]);
+    }
+  }
+
+  const now = new Date();
+  await prisma.$transaction([...skipped].map(([reason, ids]) =>
+    prisma.communicationLog.updateMany({
+      where: { id: { in: ids } },
+      data: { status: 'SKIPPED', dispatchedAt: now, errorMessage: reason },
+    })
+  ));
+  return reachable;
+};
+
+// Records the vendor's answer for each message of a batch, along with the
+// text that was sent. A message it didn't answer for counts as rejected,
+// so it isn't sent again forever.
+const recordResults = async (logs, contents, results) => {
+  const now = new Date();
+  const byId = new Map(results.map((result) => [result.communicationId, result]));
+  const answers = logs.map((log) =>
+    byId.get(log.id) || { communicationId: log.id, accepted: false, error: 'No answer from vendor' });
+
+  await prisma.$transaction(answers.map(({ communicationId, accepted, vendorMessageId, error }) =>
+    prisma.communicationLog.update({
+      where: { id: communicationId },
+      data: {
+        dispatchedAt: now,
+        renderedMessage: contents.get(communicationId).body,
+        ...(accepted
+          ? { vendorMessageId: vendorMessageId || null }
+          : { status: 'FAILED', errorMessage: error || 'Rejected by vendor' }),
+      },
+    })
+  ));
+};
+
+/**
+ * Settles a RUNNING or PAUSED campaign once none of its messages are PENDING any
+ * more: COMPLETED if any were sent (or there was nobody it could reach),
+ * FAILED if every one failed. Safe to call repeatedly.
+ */
+const finalizeCampaign = async (campaignId) => {
+  const [pending, sent, failed] = await Promise.all([
+    prisma.communicationLog.count({ where: { campaignId, status: 'PENDING' } }),
+    prisma.communicationLog.count({ where: { campaignId, status: 'SENT' } }),
+    prisma.communicationLog.count({ where: { campaignId, status: 'FAILED' } }),
+  ]);
+  if (pending > 0) return null;
+
+  const status = sent > 0 || failed === 0 ? 'COMPLETED' : 'FAILED';
+  await prisma.campaign.updateMany({
+    where: { id: campaignId, status: { in: UNSETTLED_STATUSES } },
+    data: { status },
+  });
+  return status;
+};
+
+// Whether the campaign is still RUNNING, i.e. hasn't been paused or
+// cancelled since delivery began
+const stillRunning = async (campaignId) =>
+  (await prisma.campaign.count({ where: { id: campaignId, status: 'RUNNING' } })) > 0;
+
+/**
+ * Renders a RUNNING campaign's message for each undispatched recipient and
+ * hands them to `vendor` in batches of BATCH_SIZE, skipping recipients
+ * without a contact for the campaign's channel, at no more than
+ * RATE_PER_SECOND messages a second. Campaigns in any other status are left
+ * alone, and delivery stops after the current batch once the campaign is
+ * paused or cancelled. Recipients of A/B tested campaigns get their
+ * variant; those a test holds back wait for its winner. If the vendor keeps
+ * failing, the campaign and its remaining messages are marked FAILED.
+ * `onBatch` runs before each batch, e.g. to extend a lock.
+ */
+const deliverCampaign = async (campaignId, { vendor, onBatch }) => {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    include: { variants: true },
+  });
+  if (!campaign || campaign.status !== 'RUNNING') return;
+
+  const failRemaining = (errorMessage) => prisma.$transaction([
+    prisma.communicationLog.updateMany({
+      where: undispatched(campaignId),
+      data: { status: 'FAILED', errorMessage },
+    }),
+    prisma.campaign.updateMany({
+      where: { id: campaignId, status: { in: UNSETTLED_STATUSES } },
+      data: { status: 'FAILED' },
+    }),
+  ]);
+
+  // Messages are checked when a campaign is created, but not ones written
+  // before templates existed
+  const renderers = new Map();
+  try {
+    renderers.set(null, compileContent(campaign));
+    for (const { id, subject, message, whatsappParams } of campaign.variants) {
+      renderers.set(id, compileContent({ ...campaign, subject, message, whatsappParams }));
+    }
+  } catch (error) {
+    console.error(`Campaign ${campaignId} has an invalid message:`, error);
+    await failRemaining('Invalid message template');
+    return;
+  }
+
+  for (;;) {
+    if (onBatch) await onBatch();
+    if (!(await stillRunning(campaignId))) return;
+
+    const logs = await prisma.communicationLog.findMany({
+      where: {
+        ...undispatched(campaignId),
+        ...(campaign.variants.length > 0 && { variantId: { not: null } }),
+      },
+      include: {
+        customer: {
+          select: { name: true, email: true, phone: true, totalSpend: true, visitCount: true, lastVisit: true },
+        },
+      },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    });
+    if (logs.length === 0) break;
+
+    const reachable = await skipUnreachable(campaign, logs);
+    if (reachable.length === 0) continue;
+
+    const startedAt = Date.now();
+    const contents = new Map(reachable.map((log) => [log.id, renderers.get(log.variantId)(log.customer)]));
+    let results;
+    try {
+      results = await sendWithRetry(vendor, reachable.map((log) => ({
+        communicationId: log.id,
+        channel: campaign.channel,
+        recipient: { name: log.customer.name, email: log.customer.email, phone: log.customer.phone },
+        ...trackContent(log.id, campaign.channel, contents.get(log.id)),
+      })));
+    } catch (error) {
+      console.error(`Giving up on campaign ${campaignId}:`, error);
+      await failRemaining(`Vendor ${vendor.name} unavailable`);
+      return;
+    }
+
+    await recordResults(reachable, contents, results);
+
+    const minDuration = (reachable.length / RATE_PER_SECOND) * 1000;
+    await sleep(Math.max(0, minDuration - (Date.now() - startedAt)));
+  }
+
+  // Messages the vendor turned down are settled already; if that was all
+  // of them, the campaign is done without waiting for receipts
+  await finalizeCampaign(campaignId);
+};
+
+module.exports = {
+  deliverCampaign,
+  finalizeCampaign,
+};
@@ -0,0 +1,88 @@
+const { prisma } = require('../index');
+const { CAMPAIGN_STATUS_TRANSITIONS } = require('../../../shared/schema');
+const { startCampaign } = require('./campaignScheduling');
+
+// Thrown for campaign status changes the lifecycle doesn't allow;
+// `statusCode` is the HTTP status the route should answer with
+class CampaignLifecycleError extends Error {
+  constructor(message, statusCode = 409) {
+    super(message);
+    this.name = 'CampaignLifecycleError';
+    this.statusCode = statusCode;
+  }
+}
+
+// `from` narrows the statuses an action starts from where others could reach
+// `status` too: only a PAUSED campaign resumes, only a DRAFT or SCHEDULED one
+// launches
+const checkTransition = (campaign, status, from = Object.keys(CAMPAIGN_STATUS_TRANSITIONS)) => {
+  if (!from.includes(campaign.status) || !CAMPAIGN_STATUS_TRANSITIONS[campaign.status].includes(status)) {
+    throw new CampaignLifecycleError(`Cannot change a campaign from ${campaign.status} to ${status}`);
+  }
+};
+
+const changedMeanwhile = () =>
+  new CampaignLifecycleError('The campaign was changed by another request; reload and try again');
+
+// Moves a campaign to `status`, but only if nobody changed its status since
+// it was read
+const transition = async (campaign, status, from) => {
+  checkTransition(campaign, status, from);
+  const { count } = await prisma.campaign.updateMany({
+    where: { id: campaign.id, status: campaign.status },
+    data: { status },
+  });
+  if (count === 0) throw changedMeanwhile();
+  return prisma.campaign.findUnique({ where: { id: campaign.id } });
+};
+
+/**
+ * Sends a DRAFT or SCHEDULED campaign now, to the segment's current
+ * members. Recurring campaigns only run on their schedule.
+ */
+const launchCampaign = async (campaign) => {
+  checkTransition(campaign, 'RUNNING', ['DRAFT', 'SCHEDULED']);
+  if (campaign.recurrence) {
+    throw new CampaignLifecycleError('Recurring campaigns run on their schedule; unschedule it to send it once');
+  }
+  if (!(await startCampaign(campaign))) throw changedMeanwhile();
+  return prisma.campaign.findUnique({ where: { id: campaign.id } });
+};
+
+/**
+ * Stops handing a RUNNING campaign's messages to the vendor. The batch
+ * being sent finishes; messages already sent still get their receipts.
+ */
+const pauseCampaign = (campaign) => transition(campaign, 'PAUSED');
+
+/** Carries on delivering a PAUSED campaign */
+const resumeCampaign = (campaign) => transition(campaign, 'RUNNING', ['PAUSED']);
+
+/**
+ * Cancels a campaign that hasn't finished, including a recurring one's
+ * future runs. Its messages not yet sent are SKIPPED.
+ */
+const cancelCampaign = (campaign) => {
+  checkTransition(campaign, 'CANCELLED');
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.campaign.updateMany({
+      where: { id: campaign.id, status: campaign.status },
+      data: { status: 'CANCELLED', scheduledFor: null },
+    });
+    if (count === 0) throw changedMeanwhile();
+
+    await tx.communicationLog.updateMany({
+      where: { campaignId: campaign.id, status: 'PENDING', dispatchedAt: null },
+      data: { status: 'SKIPPED', dispatchedAt: new Date(), errorMessage: 'Campaign cancelled' },
+    });
+    return tx.campaign.findUnique({ where: { id: campaign.id } });
+  });
+};
+
+module.exports = {
+  CampaignLifecycleError,
+  launchCampaign,
+  pauseCampaign,
+  resumeCampaign,
+  cancelCampaign,
+};
@@ -0,0 +1,151 @@
+const { prisma } = require('../index');
+const { nextCronTime } = require('../../../shared/cron');
+const { assignVariant } = require('./abTesting');
+
+const BATCH_SIZE = 100;
+// Starting a run writes a log per recipient, which takes a while for big segments
+const START_TIMEOUT_MS = 60000;
+
+/**
+ * Creates a PENDING communication log for every active member of the
+ * campaign's segment, i.e. the recipients of one send, each assigned one of
+ * its A/B variants if it has any. An A/B test's wait starts now. Resolves
+ * to how many recipients there are. Pass a transaction client as `db` to
+ * create them inside it.
+ */
+const createCommunicationLogs = async (campaign, db = prisma) => {
+  const [members, variants] = await Promise.all([
+    db.customerSegment.findMany({
+      where: { segmentId: campaign.segmentId, customer: { deletedAt: null } },
+      select: { customerId: true },
+    }),
+    db.campaignVariant.findMany({
+      where: { campaignId: campaign.id },
+      orderBy: { label: 'asc' },
+    }),
+  ]);
+
+  for (let i = 0; i < members.length; i += BATCH_SIZE) {
+    await db.communicationLog.createMany({
+      data: members.slice(i, i + BATCH_SIZE).map(({ customerId }) => ({
+        campaignId: campaign.id,
+        customerId,
+        status: 'PENDING',
+        variantId: variants.length > 0 ? assignVariant(campaign, variants, customerId) : null,
+      })),
+    });
+  }
+
+  if (variants.length > 0 && campaign.testPercent) {
+    await db.campaign.update({
+      where: { id: campaign.id },
+      data: { testEndsAt: new Date(Date.now() + campaign.testWaitMinutes * 60000) },
+    });
+  }
+  return members.length;
+};
+
+// e.g. "Weekly digest (2024-05-06 09:00 UTC)"
+const runName = (name, at) => `${name} (${at.toISOString().slice(0, 16).replace('T', ' ')} UTC)`;
+
+/**
+ * Moves a one-off campaign from its current DRAFT or SCHEDULED status to
+ * RUNNING with a log per current member. The status change and the logs
+ * commit together, so the delivery worker never sees it RUNNING with nobody
+ * to send to. Resolves to whether this call was the one to start it.
+ */
+const startCampaign = (campaign) =>
+  prisma.$transaction(async (tx) => {
+    const { count } = await tx.campaign.updateMany({
+      where: { id: campaign.id, status: campaign.status, recurrence: null },
+      data: { status: 'RUNNING' },
+    });
+    if (count === 0) return false;
+
+    const existing = await tx.communicationLog.count({ where: { campaignId: campaign.id } });
+    if (existing === 0) {
+      await createCommunicationLogs(campaign, tx);
+    }
+    return true;
+  }, { timeout: START_TIMEOUT_MS });
+
+// Moves a due recurring campaign on to its next time and spawns a run of it,
+// with its A/B variants, against the segment's current members. A recurring
+// campaign that will never fire again is COMPLETED. Resolves to the run's id, or null if
+// another instance got there first.
+const startRecurringRun = (campaign, now) =>
+  prisma.$transaction(async (tx) => {
+    const dueAt = campaign.scheduledFor;
+    const next = nextCronTime(campaign.recurrence, now);
+    const { count } = await tx.campaign.updateMany({
+      where: { id: campaign.id, status: 'SCHEDULED', scheduledFor: dueAt },
+      data: next ? { scheduledFor: next } : { status: 'COMPLETED', scheduledFor: null },
+    });
+    if (count === 0) return null;
+
+    const run = await tx.campaign.create({
+      data: {
+        name: runName(campaign.name, dueAt),
+        description: campaign.description,
+        message: campaign.message,
+        channel: campaign.channel,
+        subject: campaign.subject,
+        whatsappTemplate: campaign.whatsappTemplate,
+        whatsappParams: campaign.whatsappParams ?? undefined,
+        status: 'RUNNING',
+        scheduledFor: dueAt,
+        createdById: campaign.createdById,
+        segmentId: campaign.segmentId,
+        parentCampaignId: campaign.id,
+        testPercent: campaign.testPercent,
+        testWaitMinutes: campaign.testWaitMinutes,
+        winnerMetric: campaign.winnerMetric,
+        variants: {
+          create: campaign.variants.map(({ label, weight, subject, message, whatsappParams }) => ({
+            label,
+            weight,
+            subject,
+            message,
+            whatsappParams: whatsappParams ?? undefined,
+          })),
+        },
+      },
+    });
+    await createCommunicationLogs(run, tx);
+    return run.id;
+  }, { timeout: START_TIMEOUT_MS });
+
+/**
+ * Starts every SCHEDULED campaign whose time has come: one-off campaigns
+ * become RUNNING themselves, recurring ones spawn a RUNNING run and wait for
+ * their next time. Resolves to the ids of the campaigns that should now be
+ * delivered. Safe to run on several instances at once.
+ */
+const startDueCampaigns = async (now = new Date()) => {
+  const due = await prisma.campaign.findMany({
+    where: { status: 'SCHEDULED', scheduledFor: { lte: now } },
+    include: { variants: true },
+    orderBy: { scheduledFor: 'asc' },
+  });
+
+  const started = [];
+  for (const campaign of due) {
+    try {
+      if (campaign.recurrence) {
+        const runId = await startRecurringRun(campaign, now);
+        if (runId) started.push(runId);
+      } else if (await startCampaign(campaign)) {
+        started.push(campaign.id);
+      }
+    } catch (error) {
+      console.error(`Error starting campaign ${campaign.id}:`, error);
+    }
+  }
+  return started;
+};
+
+module.exports = {
+  createCommunicationLogs,
+  startCampaign,
+  startDueCampaigns,
+};
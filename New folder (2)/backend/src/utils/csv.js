@@ -0,0 +1,88 @@
+// Parses RFC 4180 style CSV (quoted fields, escaped quotes, CRLF or LF line
+// endings) into an array of rows, each an array of cell strings
+const parseCsvRows = (text) => {
+  const rows = [];
+  let row = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Skip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field');
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+};
+
+// Parses CSV with a header row into `{ columns, records }`, where each
+// record maps a header to the cell in that column
+const parseCsv = (text) => {
+  const [header = [], ...rows] = parseCsvRows(text);
+  const columns = header.map((c) => c.trim());
+
+  const records = rows.map((cells) =>
+    columns.reduce((acc, column, index) => {
+      acc[column] = cells[index] !== undefined ? cells[index].trim() : '';
+      return acc;
+    }, {})
+  );
+
+  return { columns, records };
+};
+
+// Quotes a cell when needed. Cells that a spreadsheet would run as a formula
+// get a leading apostrophe so exported data can't execute on open.
+const escapeCsvCell = (value) => {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (/^[=+\-@]/.test(text) && typeof value === 'string') {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (values) => `${values.map(escapeCsvCell).join(',')}\r\n`;
+
+module.exports = {
+  parseCsv,
+  toCsvRow,
+};
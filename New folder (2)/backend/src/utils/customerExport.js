@@ -0,0 +1,117 @@
+const { prisma } = require('../index');
+const { toCsvRow } = require('./csv');
+
+const EXPORT_BATCH_SIZE = 500;
+
+const EXPORT_COLUMNS = [
+  'id',
+  'email',
+  'name',
+  'phone',
+  'totalSpend',
+  'visitCount',
+  'orderCount',
+  'lastVisit',
+  'lastCampaign',
+  'lastCampaignSentAt',
+  'createdAt',
+];
+
+const toExportRecord = (customer) => {
+  const [lastCommunication] = customer.communications;
+  return {
+    id: customer.id,
+    email: customer.email,
+    name: customer.name,
+    phone: customer.phone,
+    totalSpend: customer.totalSpend,
+    visitCount: customer.visitCount,
+    orderCount: customer._count.orders,
+    lastVisit: customer.lastVisit,
+    lastCampaign: lastCommunication ? lastCommunication.campaign.name : null,
+    lastCampaignSentAt: lastCommunication ? lastCommunication.sentAt : null,
+    createdAt: customer.createdAt,
+  };
+};
+
+// Pages through the customers matching `where` with a cursor, so exports of
+// the whole table never hold more than one batch in memory
+async function* exportBatches(where) {
+  let cursor = null;
+
+  while (true) {
+    const batch = await prisma.customer.findMany({
+      where,
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      orderBy: { id: 'asc' },
+      include: {
+        _count: {
+          select: { orders: true },
+        },
+        communications: {
+          where: { status: 'SENT' },
+          orderBy: { sentAt: 'desc' },
+          take: 1,
+          select: {
+            sentAt: true,
+            campaign: {
+              select: { name: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (batch.length > 0) {
+      yield batch.map(toExportRecord);
+    }
+    if (batch.length < EXPORT_BATCH_SIZE) return;
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+// Resolves once the chunk is flushed, waiting for 'drain' when the socket
+// buffer is full
+const write = (res, chunk) =>
+  new Promise((resolve) => {
+    if (res.write(chunk)) {
+      resolve();
+    } else {
+      res.once('drain', resolve);
+    }
+  });
+
+/**
+ * Streams every customer (or only the members of `segmentId`) to `res` as
+ * CSV or as a JSON array.
+ */
+const streamCustomerExport = async (res, { format, segmentId }) => {
+  const where = {
+    deletedAt: null,
+    ...(segmentId && { segments: { some: { segmentId } } }),
+  };
+
+  if (format === 'csv') {
+    await write(res, toCsvRow(EXPORT_COLUMNS));
+    for await (const records of exportBatches(where)) {
+      await write(res, records.map((r) => toCsvRow(EXPORT_COLUMNS.map((c) => r[c]))).join(''));
+    }
+  } else {
+    let first = true;
+    await write(res, '[');
+    for await (const records of exportBatches(where)) {
+      const chunk = records.map((r) => JSON.stringify(r)).join(',');
+      await write(res, first ? chunk : `,${chunk}`);
+      first = false;
+    }
+    await write(res, ']');
+  }
+
+  res.end();
+};
+
+module.exports = {
+  EXPORT_COLUMNS,
+  streamCustomerExport,
+};
@@ -0,0 +1,240 @@
+const { prisma, redis } = require('../index');
+const { parseCsv } = require('./csv');
+const { recomputeCustomerAggregates } = require('./orders');
+const {
+  validate,
+  customerImportRow,
+  CUSTOMER_IMPORT_FIELDS,
+} = require('../../../shared/schema');
+
+const MAX_IMPORT_ROWS = 5000;
+
+// Header spellings that don't normalise onto a field name by themselves
+const COLUMN_ALIASES = {
+  fullname: 'name',
+  customername: 'name',
+  emailaddress: 'email',
+  mail: 'email',
+  phonenumber: 'phone',
+  mobile: 'phone',
+  amount: 'orderAmount',
+  orderamount: 'orderAmount',
+  status: 'orderStatus',
+  orderdate: 'orderDate',
+  date: 'orderDate',
+};
+
+// Thrown for uploads that can't be read at all, as opposed to bad rows
+class ImportError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+const normalizeColumn = (column) => column.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Guesses a column -> field mapping from the header names
+const suggestMapping = (columns) => {
+  const byNormalizedName = CUSTOMER_IMPORT_FIELDS.reduce((acc, field) => {
+    acc[normalizeColumn(field)] = field;
+    return acc;
+  }, { ...COLUMN_ALIASES });
+
+  const mapping = {};
+  const used = new Set();
+  for (const column of columns) {
+    const field = byNormalizedName[normalizeColumn(column)];
+    if (field && !used.has(field)) {
+      mapping[column] = field;
+      used.add(field);
+    }
+  }
+  return mapping;
+};
+
+const parseRecords = (format, content) => {
+  let parsed;
+  if (format === 'csv') {
+    try {
+      parsed = parseCsv(content);
+    } catch (error) {
+      throw new ImportError(`Invalid CSV: ${error.message}`);
+    }
+  } else {
+    let records;
+    try {
+      records = JSON.parse(content);
+    } catch (error) {
+      throw new ImportError(`Invalid JSON: ${error.message}`);
+    }
+    if (!Array.isArray(records) || records.some((r) => typeof r !== 'object' || r === null)) {
+      throw new ImportError('JSON imports must be an array of objects');
+    }
+    const columns = [...new Set(records.flatMap((r) => Object.keys(r)))];
+    parsed = { columns, records };
+  }
+
+  if (parsed.records.length === 0) {
+    throw new ImportError('The file contains no rows');
+  }
+  if (parsed.records.length > MAX_IMPORT_ROWS) {
+    throw new ImportError(`Imports are limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+  return parsed;
+};
+
+const applyMapping = (record, mapping) =>
+  Object.entries(mapping).reduce((acc, [column, field]) => {
+    const value = record[column];
+    acc[field] = typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+    return acc;
+  }, {});
+
+// Creates or updates one customer, plus its historical order if the row has
+// one, after which the customer's aggregates are recomputed from its orders
+const writeRow = (row, existingId) =>
+  prisma.$transaction(async (tx) => {
+    const data = {
+      ...(row.name !== undefined && { name: row.name }),
+      ...(row.phone !== undefined && { phone: row.phone }),
+    };
+
+    let customer = existingId
+      ? await tx.customer.update({ where: { id: existingId }, data })
+      : await tx.customer.create({ data: { email: row.email, ...data } });
+
+    let order = null;
+    if (row.orderAmount !== undefined) {
+      const status = row.orderStatus || 'COMPLETED';
+      const createdAt = row.orderDate ? new Date(row.orderDate) : new Date();
+
+      order = await tx.order.create({
+        data: {
+          customerId: customer.id,
+          amount: row.orderAmount,
+          refundedAmount: status === 'REFUNDED' ? row.orderAmount : 0,
+          status,
+          createdAt,
+        },
+      });
+      customer = await recomputeCustomerAggregates(tx, customer.id);
+    }
+
+    return { customer, order };
+  });
+
+/**
+ * Imports customers from a CSV or JSON upload, deduplicating on email.
+ * With `dryRun` (the default) nothing is written and the report describes
+ * what would happen.
+ */
+const importCustomers = async ({ format, content, mapping, dryRun = true, onDuplicate = 'update' }) => {
+  const { columns, records } = parseRecords(format, content);
+
+  const effectiveMapping = Object.fromEntries(
+    Object.entries(mapping || suggestMapping(columns)).filter(
+      ([column, field]) => field && columns.includes(column)
+    )
+  );
+  if (!Object.values(effectiveMapping).includes('email')) {
+    throw new ImportError('A column must be mapped to email');
+  }
+
+  const rows = records.map((record) => applyMapping(record, effectiveMapping));
+
+  // Look up which emails already exist in one query
+  const emails = [...new Set(
+    rows.map((r) => (typeof r.email === 'string' ? r.email.trim().toLowerCase() : null)).filter(Boolean)
+  )];
+  const existing = await prisma.customer.findMany({
+    where: { email: { in: emails } },
+    select: { id: true, email: true, deletedAt: true },
+  });
+  const existingIds = new Map(existing.map((c) => [c.email, c.id]));
+  const deletedEmails = new Set(existing.filter((c) => c.deletedAt).map((c) => c.email));
+
+  // Customers created earlier in this file; later rows for the same email
+  // are merged into them regardless of `onDuplicate`
+  const importedIds = new Map();
+  const results = [];
+
+  for (let i = 0; i < rows.length; i++) {
+    const { value: row, errors } = validate(customerImportRow, rows[i]);
+    const result = {
+      row: i + 1,
+      email: typeof row.email === 'string' ? row.email : null,
+      status: 'error',
+      ordersCreated: 0,
+    };
+    results.push(result);
+
+    if (errors.length > 0) {
+      result.message = errors.map((e) => `${e.path}: ${e.msg}`).join(', ');
+      continue;
+    }
+
+    if (deletedEmails.has(row.email)) {
+      result.message = 'Customer was deleted; restore it before importing';
+      continue;
+    }
+
+    const existingId = importedIds.has(row.email) ? importedIds.get(row.email) : existingIds.get(row.email);
+    if (existingId === undefined && !row.name) {
+      result.message = 'name: is required for new customers';
+      continue;
+    }
+    if (existingId !== undefined && !importedIds.has(row.email) && onDuplicate === 'skip') {
+      result.status = 'skipped';
+      result.message = 'Customer already exists';
+      continue;
+    }
+
+    const ordersCreated = row.orderAmount !== undefined ? 1 : 0;
+
+    if (dryRun) {
+      importedIds.set(row.email, existingId ?? null);
+    } else {
+      try {
+        const { customer, order } = await writeRow(row, existingId);
+        importedIds.set(row.email, customer.id);
+
+        // Publish to Redis streams like the single-record routes do
+        const event = existingId === undefined ? 'customer_created' : 'customer_updated';
+        await redis.xadd('customer_stream', '*', 'event', event, 'data', JSON.stringify(customer));
+        if (order) {
+          await redis.xadd('order_stream', '*', 'event', 'order_created', 'data', JSON.stringify(order));
+        }
+      } catch (error) {
+        console.error(`Error importing row ${i + 1}:`, error);
+        result.message = 'Could not save this row';
+        continue;
+      }
+    }
+
+    result.status = existingId === undefined ? 'created' : 'updated';
+    result.ordersCreated = ordersCreated;
+  }
+
+  const summary = results.reduce(
+    (acc, r) => {
+      acc[r.status] += 1;
+      return acc;
+    },
+    { created: 0, updated: 0, skipped: 0, error: 0, total: results.length }
+  );
+
+  return {
+    dryRun,
+    columns,
+    mapping: effectiveMapping,
+    summary,
+    rows: results,
+  };
+};
+
+module.exports = {
+  ImportError,
+  importCustomers,
+  suggestMapping,
+};
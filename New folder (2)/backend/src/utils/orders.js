@@ -0,0 +1,105 @@
+const { prisma } = require('../index');
+const { ORDER_STATUS_TRANSITIONS } = require('../../../shared/schema');
+
+// Thrown for order updates the lifecycle doesn't allow; `statusCode` is the
+// HTTP status the route should answer with
+class OrderLifecycleError extends Error {
+  constructor(message, statusCode = 400) {
+    super(message);
+    this.name = 'OrderLifecycleError';
+    this.statusCode = statusCode;
+  }
+}
+
+const roundMoney = (value) => Math.round(value * 100) / 100;
+
+// Rebuilds a customer's spend and visit aggregates from their completed
+// orders, net of partial refunds. Must run inside the caller's transaction so
+// the aggregates never disagree with the orders.
+const recomputeCustomerAggregates = async (tx, customerId) => {
+  const { _sum, _max, _count } = await tx.order.aggregate({
+    where: { customerId, status: 'COMPLETED' },
+    _sum: { amount: true, refundedAmount: true },
+    _max: { createdAt: true },
+    _count: true,
+  });
+
+  return tx.customer.update({
+    where: { id: customerId },
+    data: {
+      totalSpend: roundMoney((_sum.amount ?? 0) - (_sum.refundedAmount ?? 0)),
+      visitCount: _count,
+      lastVisit: _max.createdAt,
+    },
+  });
+};
+
+/**
+ * Records an order and refreshes the customer's aggregates in one
+ * transaction.
+ */
+const createOrder = (customerId, { amount, status }) =>
+  prisma.$transaction(async (tx) => {
+    const order = await tx.order.create({
+      data: { customerId, amount, status },
+    });
+    await recomputeCustomerAggregates(tx, customerId);
+    return order;
+  });
+
+// Works out the columns to write for a status change, or throws when the
+// change isn't allowed
+const planStatusChange = (order, { status, refundAmount }) => {
+  if (refundAmount !== undefined && status !== 'REFUNDED') {
+    throw new OrderLifecycleError('refundAmount can only be sent with status REFUNDED');
+  }
+  if (!ORDER_STATUS_TRANSITIONS[order.status].includes(status)) {
+    throw new OrderLifecycleError(`Cannot change an order from ${order.status} to ${status}`);
+  }
+  if (status !== 'REFUNDED') {
+    return { status };
+  }
+
+  const remaining = roundMoney(order.amount - order.refundedAmount);
+  const refund = refundAmount ?? remaining;
+  if (refund > remaining) {
+    throw new OrderLifecycleError(`Refund exceeds the remaining ${remaining.toFixed(2)}`);
+  }
+
+  const refundedAmount = roundMoney(order.refundedAmount + refund);
+  return refundedAmount < order.amount
+    ? { refundedAmount }
+    : { status: 'REFUNDED', refundedAmount: order.amount };
+};
+
+/**
+ * Applies a validated status change (or partial refund) to an order and
+ * refreshes the customer's aggregates. Resolves to null for unknown orders.
+ */
+const updateOrderStatus = (id, change) =>
+  prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({ where: { id } });
+    if (!order) return null;
+
+    const data = planStatusChange(order, change);
+
+    // Only write if nobody changed the order since we read it, so two
+    // refunds racing each other can't both pass the remaining-amount check
+    const { count } = await tx.order.updateMany({
+      where: { id, status: order.status, refundedAmount: order.refundedAmount },
+      data,
+    });
+    if (count === 0) {
+      throw new OrderLifecycleError('The order was changed by another request; reload and try again', 409);
+    }
+
+    await recomputeCustomerAggregates(tx, order.customerId);
+    return tx.order.findUnique({ where: { id } });
+  });
+
+module.exports = {
+  OrderLifecycleError,
+  recomputeCustomerAggregates,
+  createOrder,
+  updateOrderStatus,
+};
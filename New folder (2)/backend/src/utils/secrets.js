@@ -0,0 +1,24 @@
+const crypto = require('crypto');
+
+// Where a secret made up per process is good enough: a single instance that
+// nobody outside relies on across restarts
+const LOCAL_ENVIRONMENTS = ['development', 'test'];
+
+/**
+ * The secret in the environment variable `name`. In development and tests
+ * a missing one is made up for this process; anywhere else it throws, so a
+ * misconfigured deployment fails at startup rather than rejecting callbacks
+ * signed on another instance.
+ * @param {string} name
+ */
+const requireSecret = (name) => {
+  if (process.env[name]) return process.env[name];
+  if (!LOCAL_ENVIRONMENTS.includes(process.env.NODE_ENV)) {
+    throw new Error(`${name} must be set (or NODE_ENV=development to use a per-process secret)`);
+  }
+  return crypto.randomBytes(32).toString('hex');
+};
+
+module.exports = {
+  requireSecret,
+};
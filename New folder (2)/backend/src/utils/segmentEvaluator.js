@@ -1,111 +1,250 @@
+const { Prisma } = require('@prisma/client');
 const { prisma } = require('../index');
+const { segmentRules } = require('../../../shared/schema');
 
-const evaluateSegmentRules = async (rules) => {
+// Thrown when rules don't fit the shared rule schema; `errors` holds
+// `{ path, msg }` entries pointing at the bad nodes
+class SegmentRuleError extends Error {
+  constructor(errors) {
+    super('Invalid segment rules');
+    this.name = 'SegmentRuleError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Resolves rules to the ids of matching, non-deleted customers. Pass
+ * `customerIds` to only test those customers, e.g. after they changed, and
+ * a transaction client as `db` to see the caller's uncommitted writes.
+ */
+const evaluateSegmentRules = async (rules, { customerIds } = {}, db = prisma) => {
   try {
-    // Build the base query
-    let whereClause = {};
-
-    // Handle different rule types
-    if (rules.type === 'AND') {
-      whereClause = {
-        AND: rules.conditions.map(condition => buildCondition(condition)),
-      };
-    } else if (rules.type === 'OR') {
-      whereClause = {
-        OR: rules.conditions.map(condition => buildCondition(condition)),
-      };
-    } else {
-      // Single condition
-      whereClause = buildCondition(rules);
+    // Rules can come from stored segments as well as requests, so check the
+    // whole tree (including depth and size limits) before building a query
+    const errors = [];
+    const validRules = segmentRules(rules, 'rules', errors);
+    if (errors.length > 0) {
+      throw new SegmentRuleError(errors);
     }
+    if (customerIds && customerIds.length === 0) return [];
 
-    // Execute query
-    const customers = await prisma.customer.findMany({
-      where: whereClause,
-      select: { id: true },
-    });
+    // The whole tree becomes one query, so order aggregates are worked out
+    // by the database instead of being loaded per customer
+    const whereClause = buildRuleFilter(validRules);
+
+    // Execute query, leaving out soft-deleted customers
+    const customers = await db.$queryRaw`
+      SELECT c.id FROM Customer c
+      WHERE c.deletedAt IS NULL
+        ${customerIds ? Prisma.sql`AND c.id IN (${Prisma.join(customerIds)})` : Prisma.empty}
+        AND ${whereClause}`;
 
     return customers.map(c => c.id);
   } catch (error) {
-    console.error('Error evaluating segment rules:', error);
+    if (!(error instanceof SegmentRuleError)) {
+      console.error('Error evaluating segment rules:', error);
+    }
     throw error;
   }
 };
 
+// Groups nest, so walk the rule tree and combine each group's children
+// with AND or OR. A NOT group matches when none of its children do.
+const buildRuleFilter = (rules) => {
+  if (Array.isArray(rules.conditions)) {
+    const filters = rules.conditions.map(buildRuleFilter);
+    const combined = Prisma.join(filters, rules.type === 'AND' ? ' AND ' : ' OR ');
+    return rules.type === 'NOT' ? Prisma.sql`NOT (${combined})` : Prisma.sql`(${combined})`;
+  }
+
+  // Single condition
+  return buildCondition(rules);
+};
+
+// Customer columns that may be NULL, which `notSince` treats as "never"
+const NULLABLE_FIELDS = ['lastVisit', 'phone'];
+
+const SQL_OPERATORS = { gt: '>', gte: '>=', lt: '<', lte: '<=', eq: '=' };
+
+// Columns are only ever taken from the rule schema's field list
+const column = (field) => Prisma.raw(`c.${field}`);
+
 const buildCondition = (condition) => {
-  const { field, operator, value } = condition;
+  const { field, operator, value, days } = condition;
 
   switch (field) {
     case 'totalSpend':
-      return buildNumericCondition('totalSpend', operator, parseFloat(value));
+      return buildNumericCondition(column('totalSpend'), operator, parseFloat(value));
     case 'visitCount':
-      return buildNumericCondition('visitCount', operator, parseInt(value));
+      return buildNumericCondition(column('visitCount'), operator, parseInt(value));
     case 'lastVisit':
-      return buildDateCondition('lastVisit', operator, value);
+    case 'createdAt':
+      return buildDateCondition(field, operator, value);
     case 'email':
-      return buildStringCondition('email', operator, value);
+    case 'name':
+    case 'phone':
+      return buildStringCondition(field, operator, value);
+    case 'orderCount':
+    case 'avgOrderValue':
+    case 'recentSpend':
+      return buildOrderAggregateCondition(field, operator, parseFloat(value), days);
+    case 'firstOrderDate':
+      return buildOrderDateCondition('first', operator, value);
+    case 'lastOrderDate':
+      return buildOrderDateCondition('last', operator, value);
     default:
       throw new Error(`Unsupported field: ${field}`);
   }
 };
 
-const buildNumericCondition = (field, operator, value) => {
+const buildNumericCondition = (expression, operator, value) => {
+  if (!SQL_OPERATORS[operator]) {
+    throw new Error(`Unsupported operator: ${operator}`);
+  }
+  return Prisma.sql`${expression} ${Prisma.raw(SQL_OPERATORS[operator])} ${value}`;
+};
+
+const daysBefore = (days) => {
+  const date = new Date();
+  date.setDate(date.getDate() - parseInt(days));
+  return date;
+};
+
+const buildDateCondition = (field, operator, value) => {
+  const date = new Date(value);
+  const col = column(field);
+
   switch (operator) {
-    case 'gt':
-      return { [field]: { gt: value } };
-    case 'gte':
-      return { [field]: { gte: value } };
-    case 'lt':
-      return { [field]: { lt: value } };
-    case 'lte':
-      return { [field]: { lte: value } };
-    case 'eq':
-      return { [field]: { equals: value } };
+    case 'before':
+      return Prisma.sql`${col} < ${date}`;
+    case 'after':
+      return Prisma.sql`${col} > ${date}`;
+    case 'between': {
+      const [start, end] = value.split(',').map(d => new Date(d));
+      return Prisma.sql`${col} BETWEEN ${start} AND ${end}`;
+    }
+    case 'daysAgo':
+      return Prisma.sql`${col} < ${daysBefore(value)}`;
+    case 'notSince':
+      return NULLABLE_FIELDS.includes(field)
+        ? Prisma.sql`(${col} IS NULL OR ${col} < ${date})`
+        : Prisma.sql`${col} < ${date}`;
     default:
       throw new Error(`Unsupported operator: ${operator}`);
   }
 };
 
-const buildDateCondition = (field, operator, value) => {
-  const date = new Date(value);
-  const now = new Date();
+// The customer's completed orders, optionally only those whose createdAt
+// satisfies `dateFilter` (a condition on o.createdAt)
+const completedOrders = (dateFilter) => Prisma.sql`
+  SELECT 1 FROM \`Order\` o
+  WHERE o.customerId = c.id AND o.status = 'COMPLETED'
+  ${dateFilter ? Prisma.sql`AND ${dateFilter}` : Prisma.empty}`;
+
+// First/last completed order dates, expressed as existence checks:
+// the first order is before D when some order is; the last order is before D
+// when there are orders but none on or after D (and the mirror for after).
+const buildOrderDateCondition = (which, operator, value) => {
+  const someOrder = (dateFilter) => Prisma.sql`EXISTS (${completedOrders(dateFilter)})`;
+  const noOrder = (dateFilter) => Prisma.sql`NOT EXISTS (${completedOrders(dateFilter)})`;
+
+  const before = (date) =>
+    which === 'first'
+      ? someOrder(Prisma.sql`o.createdAt < ${date}`)
+      : Prisma.sql`(${someOrder()} AND ${noOrder(Prisma.sql`o.createdAt >= ${date}`)})`;
+  const after = (date) =>
+    which === 'first'
+      ? Prisma.sql`(${someOrder()} AND ${noOrder(Prisma.sql`o.createdAt <= ${date}`)})`
+      : someOrder(Prisma.sql`o.createdAt > ${date}`);
 
   switch (operator) {
     case 'before':
-      return { [field]: { lt: date } };
+      return before(new Date(value));
     case 'after':
-      return { [field]: { gt: date } };
-    case 'between':
+      return after(new Date(value));
+    case 'between': {
       const [start, end] = value.split(',').map(d => new Date(d));
-      return {
-        [field]: {
-          gte: start,
-          lte: end,
-        },
-      };
+      const outside = which === 'first' ? Prisma.sql`o.createdAt < ${start}` : Prisma.sql`o.createdAt > ${end}`;
+      return Prisma.sql`(${someOrder(Prisma.sql`o.createdAt BETWEEN ${start} AND ${end}`)} AND ${noOrder(outside)})`;
+    }
     case 'daysAgo':
-      const daysAgo = new Date(now.setDate(now.getDate() - parseInt(value)));
-      return { [field]: { lt: daysAgo } };
+      return before(daysBefore(value));
+    case 'notSince': {
+      // Customers without any completed order match too
+      const date = new Date(value);
+      return which === 'first'
+        ? Prisma.sql`(${noOrder()} OR ${someOrder(Prisma.sql`o.createdAt < ${date}`)})`
+        : noOrder(Prisma.sql`o.createdAt >= ${date}`);
+    }
+    default:
+      throw new Error(`Unsupported operator: ${operator}`);
+  }
+};
+
+const compare = (operator, actual, expected) => {
+  switch (operator) {
+    case 'gt':
+      return actual > expected;
+    case 'gte':
+      return actual >= expected;
+    case 'lt':
+      return actual < expected;
+    case 'lte':
+      return actual <= expected;
+    case 'eq':
+      return actual === expected;
     default:
       throw new Error(`Unsupported operator: ${operator}`);
   }
 };
 
+// Per-customer aggregates of completed orders, net of refunds and rounded
+// to cents like the stored totals
+const ORDER_AGGREGATES = {
+  orderCount: Prisma.sql`COUNT(*)`,
+  avgOrderValue: Prisma.sql`ROUND(SUM(o.amount - o.refundedAmount) / COUNT(*), 2)`,
+  recentSpend: Prisma.sql`ROUND(SUM(o.amount - o.refundedAmount), 2)`,
+};
+
+// Per-customer order aggregates, as a GROUP BY ... HAVING subquery over the
+// completed orders
+const buildOrderAggregateCondition = (field, operator, value, days) => {
+  const having = buildNumericCondition(ORDER_AGGREGATES[field], operator, value);
+  const customersWhere = (condition) => Prisma.sql`
+    SELECT o.customerId FROM \`Order\` o
+    WHERE o.status = 'COMPLETED'
+    ${field === 'recentSpend' ? Prisma.sql`AND o.createdAt >= ${daysBefore(days)}` : Prisma.empty}
+    GROUP BY o.customerId
+    HAVING ${condition}`;
+
+  // Customers with no completed orders have a count and spend of 0 but no
+  // average, so they can match e.g. "orderCount eq 0" but never an average
+  const matchesWithoutOrders = field !== 'avgOrderValue' && compare(operator, 0, value);
+  return matchesWithoutOrders
+    ? Prisma.sql`c.id NOT IN (${customersWhere(Prisma.sql`NOT (${having})`)})`
+    : Prisma.sql`c.id IN (${customersWhere(having)})`;
+};
+
+// LIKE patterns match the value literally
+const escapeLike = (value) => value.replace(/[\\%_]/g, '\\$&');
+
 const buildStringCondition = (field, operator, value) => {
+  const col = column(field);
   switch (operator) {
     case 'contains':
-      return { [field]: { contains: value } };
+      return Prisma.sql`${col} LIKE ${`%${escapeLike(value)}%`}`;
     case 'startsWith':
-      return { [field]: { startsWith: value } };
+      return Prisma.sql`${col} LIKE ${`${escapeLike(value)}%`}`;
     case 'endsWith':
-      return { [field]: { endsWith: value } };
+      return Prisma.sql`${col} LIKE ${`%${escapeLike(value)}`}`;
     case 'equals':
-      return { [field]: { equals: value } };
+      return Prisma.sql`${col} = ${value}`;
     default:
       throw new Error(`Unsupported operator: ${operator}`);
   }
 };
 
 module.exports = {
+  SegmentRuleError,
   evaluateSegmentRules,
 }; 
\ No newline at end of file
@@ -0,0 +1,108 @@
+const { segmentRules, SEGMENT_FIELDS } = require('../../../shared/schema');
+const { generateSegmentRules } = require('./aiUtils');
+const { stubSegmentRules } = require('./segmentTextStub');
+
+const MAX_ATTEMPTS = 3;
+
+// Spellings models tend to use instead of the evaluator's operator names,
+// by field type
+const OPERATOR_ALIASES = {
+  number: { '>': 'gt', '>=': 'gte', '<': 'lt', '<=': 'lte', '=': 'eq', '==': 'eq', equals: 'eq' },
+  date: { '<': 'before', '>': 'after', lt: 'before', gt: 'after' },
+  string: { '=': 'equals', '==': 'equals', eq: 'equals' },
+};
+
+// The model answers unless SEGMENT_AI_PROVIDER says otherwise; without an
+// API key the stub is the only option
+const PROVIDERS = {
+  openai: generateSegmentRules,
+  stub: stubSegmentRules,
+};
+
+const selectProvider = () => {
+  const name = process.env.SEGMENT_AI_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'stub');
+  return PROVIDERS[name] || stubSegmentRules;
+};
+
+// Thrown when no attempt produced valid rules; `errors` are the last
+// attempt's problems
+class SegmentTextError extends Error {
+  constructor(message, errors = []) {
+    super(message);
+    this.name = 'SegmentTextError';
+    this.errors = errors;
+  }
+}
+
+// Pulls the JSON object out of an answer that may be wrapped in prose or a
+// code fence
+const extractJson = (output) => {
+  const start = output.indexOf('{');
+  const end = output.lastIndexOf('}');
+  if (start === -1 || end < start) return undefined;
+  try {
+    return JSON.parse(output.slice(start, end + 1));
+  } catch (error) {
+    return undefined;
+  }
+};
+
+// Fixes the mistakes that don't need another round trip: a lone condition
+// or bare list instead of a group, lower-case group types and operator
+// aliases. Anything else is left for validation to report.
+const repairNode = (node) => {
+  if (Array.isArray(node)) {
+    return { type: 'AND', conditions: node.map(repairNode) };
+  }
+  if (!node || typeof node !== 'object') return node;
+
+  if (Array.isArray(node.conditions)) {
+    return {
+      ...node,
+      type: typeof node.type === 'string' ? node.type.toUpperCase() : 'AND',
+      conditions: node.conditions.map(repairNode),
+    };
+  }
+
+  const aliases = OPERATOR_ALIASES[SEGMENT_FIELDS[node.field]] || {};
+  return { ...node, operator: aliases[node.operator] || node.operator };
+};
+
+const repairRules = (rules) => {
+  const repaired = repairNode(rules);
+  return repaired && repaired.conditions ? repaired : { type: 'AND', conditions: [repaired] };
+};
+
+/**
+ * Turns a description of an audience into segment rules. The provider's
+ * answer is repaired where that's mechanical and validated against the
+ * shared rule schema; invalid answers are sent back with the errors for up
+ * to MAX_ATTEMPTS tries. Throws SegmentTextError if none pass.
+ */
+const rulesFromText = async (text) => {
+  const provider = selectProvider();
+  let feedback = null;
+  let errors;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const output = await provider(text, feedback);
+    const parsed = extractJson(output);
+
+    errors = [];
+    if (parsed === undefined) {
+      errors.push({ path: 'rules', msg: 'answer was not valid JSON' });
+    } else {
+      const rules = segmentRules(repairRules(parsed), 'rules', errors);
+      if (errors.length === 0) return rules;
+    }
+
+    feedback = { output, errors };
+  }
+
+  throw new SegmentTextError('Could not turn that description into valid rules', errors);
+};
+
+module.exports = {
+  SegmentTextError,
+  rulesFromText,
+};
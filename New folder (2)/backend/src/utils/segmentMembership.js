@@ -0,0 +1,136 @@
+const { prisma } = require('../index');
+const { SegmentRuleError, evaluateSegmentRules } = require('./segmentEvaluator');
+
+const BATCH_SIZE = 100;
+
+// Writes `rows` with createMany in batches, keeping each insert statement small
+const createInBatches = async (model, rows, options = {}) => {
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    await model.createMany({ data: rows.slice(i, i + BATCH_SIZE), ...options });
+  }
+};
+
+/**
+ * Adds customers to a segment and records a JOINED event for each. Pass a
+ * transaction client as `db` to make it part of a caller's transaction.
+ */
+const addSegmentMembers = async (segmentId, customerIds, db = prisma) => {
+  await createInBatches(
+    db.customerSegment,
+    customerIds.map((customerId) => ({ customerId, segmentId })),
+    { skipDuplicates: true }
+  );
+  await createInBatches(
+    db.segmentMembershipEvent,
+    customerIds.map((customerId) => ({ customerId, segmentId, type: 'JOINED' }))
+  );
+};
+
+/**
+ * Removes customers from a segment and records a LEFT event for each. Pass
+ * a transaction client as `db` to make it part of a caller's transaction.
+ */
+const removeSegmentMembers = async (segmentId, customerIds, db = prisma) => {
+  for (let i = 0; i < customerIds.length; i += BATCH_SIZE) {
+    const batch = customerIds.slice(i, i + BATCH_SIZE);
+    const writes = [
+      db.customerSegment.deleteMany({
+        where: { segmentId, customerId: { in: batch } },
+      }),
+      db.segmentMembershipEvent.createMany({
+        data: batch.map((customerId) => ({ customerId, segmentId, type: 'LEFT' })),
+      }),
+    ];
+    // Inside a caller's transaction the writes are atomic already
+    await (db === prisma ? prisma.$transaction(writes) : Promise.all(writes));
+  }
+};
+
+// Brings a segment's members among `currentIds` in line with `matching`,
+// returning how many customers joined and left
+const applyMembership = async (segmentId, matching, currentIds, db = prisma) => {
+  const joining = [...matching].filter((id) => !currentIds.has(id));
+  const leaving = [...currentIds].filter((id) => !matching.has(id));
+
+  if (joining.length > 0) await addSegmentMembers(segmentId, joining, db);
+  if (leaving.length > 0) await removeSegmentMembers(segmentId, leaving, db);
+
+  return { joined: joining.length, left: leaving.length };
+};
+
+/**
+ * Re-evaluates a segment's rules against every customer and replaces its
+ * membership with the result. Soft-deleted customers keep their memberships,
+ * as they do everywhere else. Pass a transaction client as `db` to evaluate
+ * and write the membership in a caller's transaction. Resolves to the
+ * number of customers added and removed.
+ */
+const materializeSegment = async (segmentId, rules, db = prisma) => {
+  const matching = new Set(await evaluateSegmentRules(rules, {}, db));
+
+  const current = await db.customerSegment.findMany({
+    where: { segmentId, customer: { deletedAt: null } },
+    select: { customerId: true },
+  });
+
+  const { joined, left } = await applyMembership(
+    segmentId,
+    matching,
+    new Set(current.map((c) => c.customerId)),
+    db
+  );
+  return { added: joined, removed: left };
+};
+
+/**
+ * Re-evaluates the given customers against every dynamic segment and adds or
+ * removes their memberships to match. Soft-deleted customers are left as
+ * they are, so a restore brings their memberships back. Resolves to the
+ * number of joins and leaves applied.
+ */
+const syncDynamicSegments = async (customerIds) => {
+  const segments = await prisma.segment.findMany({
+    where: { isDynamic: true },
+    select: { id: true, rules: true },
+  });
+
+  let joined = 0;
+  let left = 0;
+
+  for (const segment of segments) {
+    let matching;
+    try {
+      matching = new Set(await evaluateSegmentRules(segment.rules, { customerIds }));
+    } catch (error) {
+      // A segment saved before a rule change can no longer be evaluated;
+      // leave its members alone rather than emptying it
+      if (error instanceof SegmentRuleError) {
+        console.error(`Skipping segment ${segment.id} with invalid rules:`, error.errors);
+        continue;
+      }
+      throw error;
+    }
+
+    const current = await prisma.customerSegment.findMany({
+      where: { segmentId: segment.id, customerId: { in: customerIds }, customer: { deletedAt: null } },
+      select: { customerId: true },
+    });
+    const change = await applyMembership(
+      segment.id,
+      matching,
+      new Set(current.map((c) => c.customerId))
+    );
+
+    joined += change.joined;
+    left += change.left;
+  }
+
+  return { joined, left };
+};
+
+module.exports = {
+  addSegmentMembers,
+  removeSegmentMembers,
+  materializeSegment,
+  syncDynamicSegments,
+};
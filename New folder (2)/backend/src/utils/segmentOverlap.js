@@ -0,0 +1,93 @@
+const { prisma } = require('../index');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value) => Math.round(value * 100) / 100;
+
+const average = (values) =>
+  values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+
+// Every pair of the given items, in order
+const pairsOf = (items) =>
+  items.flatMap((a, i) => items.slice(i + 1).map((b) => [a, b]));
+
+/**
+ * Compares segments by their current members (soft-deleted customers don't
+ * count). Returns per-segment averages, the overlap of every pair, how many
+ * customers are in all of them and in any of them, and the exclusive
+ * regions a Venn diagram needs: for each combination of segments, the
+ * customers in exactly those segments.
+ */
+const compareSegments = async (segments) => {
+  const segmentIds = segments.map((s) => s.id);
+
+  const memberships = await prisma.customerSegment.findMany({
+    where: { segmentId: { in: segmentIds }, customer: { deletedAt: null } },
+    select: {
+      segmentId: true,
+      customer: {
+        select: { id: true, totalSpend: true, visitCount: true, lastVisit: true },
+      },
+    },
+  });
+
+  const membersBySegment = new Map(segmentIds.map((id) => [id, new Set()]));
+  const segmentsByCustomer = new Map();
+  const customers = new Map();
+  for (const { segmentId, customer } of memberships) {
+    membersBySegment.get(segmentId).add(customer.id);
+    customers.set(customer.id, customer);
+    if (!segmentsByCustomer.has(customer.id)) segmentsByCustomer.set(customer.id, []);
+    segmentsByCustomer.get(customer.id).push(segmentId);
+  }
+
+  const now = Date.now();
+  const summaries = segments.map(({ id, name, isDynamic }) => {
+    const members = [...membersBySegment.get(id)].map((customerId) => customers.get(customerId));
+    const visited = members.filter((c) => c.lastVisit);
+    return {
+      id,
+      name,
+      isDynamic,
+      customerCount: members.length,
+      averages: {
+        totalSpend: average(members.map((c) => c.totalSpend)),
+        visitCount: average(members.map((c) => c.visitCount)),
+        // Customers who never visited are left out rather than counted as 0
+        daysSinceLastVisit: average(visited.map((c) => (now - c.lastVisit.getTime()) / DAY_MS)),
+      },
+    };
+  });
+
+  const pairwise = pairsOf(segmentIds).map(([a, b]) => {
+    const membersOfB = membersBySegment.get(b);
+    return {
+      segmentIds: [a, b],
+      count: [...membersBySegment.get(a)].filter((id) => membersOfB.has(id)).length,
+    };
+  });
+
+  // Keyed by the member's segments in request order, so each region has
+  // one canonical key
+  const regionCounts = new Map();
+  for (const memberOf of segmentsByCustomer.values()) {
+    const key = segmentIds.filter((id) => memberOf.includes(id)).join(',');
+    regionCounts.set(key, (regionCounts.get(key) || 0) + 1);
+  }
+  const regions = [...regionCounts].map(([key, count]) => ({
+    segmentIds: key.split(','),
+    count,
+  }));
+
+  return {
+    segments: summaries,
+    pairwise,
+    intersectionCount: regionCounts.get(segmentIds.join(',')) || 0,
+    unionCount: segmentsByCustomer.size,
+    regions,
+  };
+};
+
+module.exports = {
+  compareSegments,
+};
@@ -0,0 +1,122 @@
+const { prisma } = require('../index');
+const { evaluateSegmentRules } = require('./segmentEvaluator');
+
+const SAMPLE_SIZE = 5;
+const SPEND_BUCKET_COUNT = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bounds are inclusive; the last bucket takes everything above
+const VISIT_BUCKETS = [
+  { label: '0', max: 0 },
+  { label: '1', max: 1 },
+  { label: '2–4', max: 4 },
+  { label: '5–9', max: 9 },
+  { label: '10+', max: Infinity },
+];
+
+const RECENCY_BUCKETS = [
+  { label: 'Last 7 days', maxDays: 7 },
+  { label: '8–30 days', maxDays: 30 },
+  { label: '31–90 days', maxDays: 90 },
+  { label: '91–365 days', maxDays: 365 },
+  { label: 'Over a year', maxDays: Infinity },
+];
+
+// Rounds a bucket width up to 1, 2 or 5 times a power of ten, so the
+// histogram's edges are numbers people would pick themselves
+const niceStep = (roughStep) => {
+  const magnitude = 10 ** Math.floor(Math.log10(roughStep));
+  const step = [1, 2, 5, 10].find((m) => m * magnitude >= roughStep);
+  return step * magnitude;
+};
+
+const spendHistogram = (customers) => {
+  const max = customers.reduce((m, c) => Math.max(m, c.totalSpend), 0);
+  if (max === 0) {
+    return [{ label: '0', count: customers.length }];
+  }
+
+  const step = niceStep(max / SPEND_BUCKET_COUNT);
+  // toFixed drops float noise from fractional steps, e.g. 3 * 0.1
+  const edge = (i) => Number((i * step).toFixed(2));
+  const bucketCount = Math.floor(max / step) + 1;
+  const buckets = Array.from({ length: bucketCount }, (_, i) => ({
+    label: `${edge(i)}–${edge(i + 1)}`,
+    count: 0,
+  }));
+  for (const { totalSpend } of customers) {
+    buckets[Math.min(Math.floor(totalSpend / step), bucketCount - 1)].count += 1;
+  }
+  return buckets;
+};
+
+const visitBuckets = (customers) =>
+  VISIT_BUCKETS.map(({ label, max }, i) => {
+    const min = i === 0 ? 0 : VISIT_BUCKETS[i - 1].max + 1;
+    return {
+      label,
+      count: customers.filter((c) => c.visitCount >= min && c.visitCount <= max).length,
+    };
+  });
+
+const recencyBuckets = (customers, now) => {
+  const buckets = RECENCY_BUCKETS.map(({ label }) => ({ label, count: 0 }));
+  let never = 0;
+
+  for (const { lastVisit } of customers) {
+    if (!lastVisit) {
+      never += 1;
+      continue;
+    }
+    const days = (now - lastVisit.getTime()) / DAY_MS;
+    buckets[RECENCY_BUCKETS.findIndex(({ maxDays }) => days <= maxDays)].count += 1;
+  }
+
+  return [...buckets, { label: 'Never', count: never }];
+};
+
+/**
+ * Evaluates rules without saving anything and summarises the audience they
+ * select: its size against the whole customer base, a few of the top
+ * spenders, and how spend, visits and recency are spread across it.
+ * Throws SegmentRuleError for invalid rules.
+ */
+const buildSegmentPreview = async (rules) => {
+  const matchingIds = await evaluateSegmentRules(rules);
+
+  const [totalCustomers, customers] = await Promise.all([
+    prisma.customer.count({ where: { deletedAt: null } }),
+    prisma.customer.findMany({
+      where: { id: { in: matchingIds } },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        totalSpend: true,
+        visitCount: true,
+        lastVisit: true,
+      },
+      orderBy: [{ totalSpend: 'desc' }, { id: 'asc' }],
+    }),
+  ]);
+
+  const matchPercentage = totalCustomers > 0
+    ? Math.round((customers.length / totalCustomers) * 1000) / 10
+    : 0;
+
+  return {
+    customerCount: customers.length,
+    totalCustomers,
+    matchPercentage,
+    sampleCustomers: customers.slice(0, SAMPLE_SIZE),
+    distributions: {
+      spend: spendHistogram(customers),
+      visits: visitBuckets(customers),
+      recency: recencyBuckets(customers, Date.now()),
+    },
+  };
+};
+
+module.exports = {
+  buildSegmentPreview,
+};
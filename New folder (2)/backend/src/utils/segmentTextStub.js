@@ -0,0 +1,123 @@
+// Offline stand-in for the model behind `generateSegmentRules`. It knows a
+// handful of common phrasings and always answers the same way for the same
+// sentence, which makes it usable in development and tests. Like the model,
+// it answers with a JSON string that still goes through validation.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNIT_DAYS = { day: 1, week: 7, month: 30, year: 365 };
+
+const COMPARATORS = [
+  [/^(more than|over|above|greater than)$/, 'gt'],
+  [/^at least$/, 'gte'],
+  [/^(less than|fewer than|under|below)$/, 'lt'],
+  [/^at most$/, 'lte'],
+  [/^exactly$/, 'eq'],
+];
+const COMPARATOR = '(more than|over|above|greater than|at least|less than|fewer than|under|below|at most|exactly)?\\s*';
+const AMOUNT = '\\$?(\\d+(?:\\.\\d+)?)';
+const PERIOD = '(\\d+)\\s+(day|week|month|year)s?';
+
+const toOperator = (comparator) => {
+  const match = COMPARATORS.find(([pattern]) => pattern.test(comparator || ''));
+  return match ? match[1] : 'gte';
+};
+
+const toDays = (count, unit) => Number(count) * UNIT_DAYS[unit];
+
+const daysBeforeToday = (days) => {
+  const date = new Date(Date.now() - days * DAY_MS);
+  return date.toISOString().slice(0, 10);
+};
+
+// Each pattern turns one clause into a condition
+const CLAUSES = [
+  {
+    pattern: new RegExp(`average order(?: value)?(?: of)?\\s+${COMPARATOR}${AMOUNT}`),
+    build: ([, comparator, amount]) => ({ field: 'avgOrderValue', operator: toOperator(comparator), value: Number(amount) }),
+  },
+  {
+    pattern: new RegExp(`spent\\s+${COMPARATOR}${AMOUNT}\\s+in the last\\s+${PERIOD}`),
+    build: ([, comparator, amount, count, unit]) => ({
+      field: 'recentSpend',
+      operator: toOperator(comparator),
+      value: Number(amount),
+      days: toDays(count, unit),
+    }),
+  },
+  {
+    pattern: new RegExp(`(?:spent|spend|spending)\\s+${COMPARATOR}${AMOUNT}`),
+    build: ([, comparator, amount]) => ({ field: 'totalSpend', operator: toOperator(comparator), value: Number(amount) }),
+  },
+  {
+    pattern: new RegExp(`${COMPARATOR}(\\d+)\\s+orders?`),
+    build: ([, comparator, count]) => ({ field: 'orderCount', operator: toOperator(comparator), value: Number(count) }),
+  },
+  {
+    pattern: new RegExp(`${COMPARATOR}(\\d+)\\s+(?:visits|times)`),
+    build: ([, comparator, count]) => ({ field: 'visitCount', operator: toOperator(comparator), value: Number(count) }),
+  },
+  {
+    pattern: new RegExp(`(?:haven't|have not|hasn't|has not|not)\\s+visited\\s+(?:in|for)\\s+(?:the last\\s+)?${PERIOD}`),
+    build: ([, count, unit]) => ({ field: 'lastVisit', operator: 'daysAgo', value: toDays(count, unit) }),
+  },
+  {
+    pattern: new RegExp(`visited\\s+(?:in|within)\\s+the last\\s+${PERIOD}`),
+    build: ([, count, unit]) => ({ field: 'lastVisit', operator: 'after', value: daysBeforeToday(toDays(count, unit)) }),
+  },
+  {
+    pattern: new RegExp(`(?:signed up|joined|created)\\s+(?:in|within)\\s+the last\\s+${PERIOD}`),
+    build: ([, count, unit]) => ({ field: 'createdAt', operator: 'after', value: daysBeforeToday(toDays(count, unit)) }),
+  },
+  {
+    pattern: /(?:no|without)\s+(?:an?\s+)?orders?\s+(?:in|for)\s+(?:the last\s+)?(\d+)\s+(day|week|month|year)s?/,
+    build: ([, count, unit]) => ({ field: 'lastOrderDate', operator: 'notSince', value: daysBeforeToday(toDays(count, unit)) }),
+  },
+  {
+    pattern: /email\s+(?:ends with|at|on)\s+@?([\w.-]+\.[a-z]{2,})/,
+    build: ([, domain]) => ({ field: 'email', operator: 'endsWith', value: `@${domain}` }),
+  },
+  {
+    pattern: /name\s+(?:contains|includes|like)\s+"?([^"]+?)"?$/,
+    build: ([, name]) => ({ field: 'name', operator: 'contains', value: name.trim() }),
+  },
+];
+
+// The conditions for the clauses of `text` it recognises, e.g. the parts
+// of "spent over 500 and visited in the last week" either side of "and"
+const conditionsOf = (text) => {
+  const conditions = [];
+  for (const clause of text.split(/\band\b|,/)) {
+    for (const { pattern, build } of CLAUSES) {
+      const match = pattern.exec(clause.trim());
+      if (match) {
+        conditions.push(build(match));
+        break;
+      }
+    }
+  }
+  return conditions;
+};
+
+/**
+ * Parses sentences such as "customers who spent over 500 and haven't visited
+ * in 3 months" into rules. "and" binds tighter than "or", so "a and b or c"
+ * becomes an OR group of (a AND b) and c. Unrecognised sentences, or parts
+ * of an "or", produce an empty group, which validation rejects.
+ */
+const stubSegmentRules = async (naturalLanguageQuery) => {
+  const text = naturalLanguageQuery.toLowerCase().replace(/\s+/g, ' ').trim();
+  const alternatives = text.split(/\bor\b/).map(conditionsOf);
+
+  if (alternatives.length === 1) {
+    return JSON.stringify({ type: 'AND', conditions: alternatives[0] });
+  }
+  return JSON.stringify({
+    type: 'OR',
+    conditions: alternatives.map((conditions) =>
+      (conditions.length === 1 ? conditions[0] : { type: 'AND', conditions })),
+  });
+};
+
+module.exports = {
+  stubSegmentRules,
+};
@@ -0,0 +1,146 @@
+const crypto = require('crypto');
+const { prisma } = require('../index');
+const { requireSecret } = require('./secrets');
+
+// Its own secret rather than JWT_SECRET, so rotating one doesn't break or
+// weaken the other. Links signed in development stop working on restart.
+const TRACKING_SECRET = requireSecret('TRACKING_SECRET');
+
+const trackingBaseUrl = () =>
+  process.env.TRACKING_BASE_URL || `http://localhost:${process.env.PORT || 3001}`;
+
+// Links in a message, without the punctuation that usually follows one
+const LINK_PATTERN = /\bhttps?:\/\/[^\s<>"']+/g;
+const TRAILING_PUNCTUATION = /[.,;:!?)\]]+$/;
+
+const sign = (...parts) =>
+  crypto.createHmac('sha256', TRACKING_SECRET).update(parts.join('\n')).digest('base64url');
+
+/**
+ * Whether `signature` was made by `sign` for the same parts.
+ * @param {unknown} signature
+ * @param {...string} parts
+ */
+const verifySignature = (signature, ...parts) => {
+  if (typeof signature !== 'string') return false;
+  const provided = Buffer.from(signature);
+  const expected = Buffer.from(sign(...parts));
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+};
+
+/** The 1x1 image whose loading records an open of the message */
+const openPixelUrl = (communicationId) =>
+  `${trackingBaseUrl()}/api/track/open/${communicationId}.gif?sig=${sign('open', communicationId)}`;
+
+/** A link recording a click on `url` in the message before redirecting there */
+const trackedLinkUrl = (communicationId, url) =>
+  `${trackingBaseUrl()}/api/track/click/${communicationId}` +
+  `?url=${encodeURIComponent(url)}&sig=${sign('click', communicationId, url)}`;
+
+const rewriteLinks = (text, communicationId) =>
+  text.replace(LINK_PATTERN, (match) => {
+    const url = match.replace(TRAILING_PUNCTUATION, '');
+    return trackedLinkUrl(communicationId, url) + match.slice(url.length);
+  });
+
+/**
+ * The rendered content of a message as it goes out: every link goes through
+ * the click redirect, and emails carry an open pixel. Other channels can't
+ * show images, so only clicks are tracked for them.
+ * @param {string} communicationId
+ * @param {import('../../../shared/channels').CampaignChannel} channel
+ * @param {{ body: string, subject?: string, whatsapp?: { template: string, language: string, params: string[] } }} content
+ */
+const trackContent = (communicationId, channel, content) => ({
+  ...content,
+  body: rewriteLinks(content.body, communicationId),
+  ...(content.whatsapp && {
+    whatsapp: {
+      ...content.whatsapp,
+      params: content.whatsapp.params.map((param) => rewriteLinks(param, communicationId)),
+    },
+  }),
+  ...(channel === 'EMAIL' && { openPixelUrl: openPixelUrl(communicationId) }),
+});
+
+const FIRST_SEEN = { OPEN: 'firstOpenedAt', CLICK: 'firstClickedAt' };
+
+/**
+ * Stores an OPEN or CLICK of a message, and when it was first opened or
+ * clicked. Resolves to false for unknown messages.
+ * @param {string} communicationId
+ * @param {'OPEN' | 'CLICK'} type
+ * @param {{ url?: string, userAgent?: string }} details
+ */
+const recordEvent = async (communicationId, type, { url, userAgent }) => {
+  const communication = await prisma.communicationLog.findUnique({
+    where: { id: communicationId },
+    select: { campaignId: true },
+  });
+  if (!communication) return false;
+
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.communicationEvent.create({
+      data: {
+        communicationId,
+        campaignId: communication.campaignId,
+        type,
+        url: url || null,
+        userAgent: userAgent || null,
+        createdAt: now,
+      },
+    }),
+    prisma.communicationLog.updateMany({
+      where: { id: communicationId, [FIRST_SEEN[type]]: null },
+      data: { [FIRST_SEEN[type]]: now },
+    }),
+  ]);
+  return true;
+};
+
+/**
+ * @typedef {Object} Engagement
+ * @property {{ unique: number, total: number }} opens Unique counts messages opened at least once
+ * @property {{ unique: number, total: number }} clicks
+ */
+
+/**
+ * Opens and clicks for each of the campaigns.
+ * @param {string[]} campaignIds
+ * @returns {Promise<Map<string, Engagement>>}
+ */
+const engagementByCampaign = async (campaignIds) => {
+  const [events, firsts] = await Promise.all([
+    prisma.communicationEvent.groupBy({
+      by: ['campaignId', 'type'],
+      where: { campaignId: { in: campaignIds } },
+      _count: true,
+    }),
+    prisma.communicationLog.groupBy({
+      by: ['campaignId'],
+      where: { campaignId: { in: campaignIds } },
+      _count: { firstOpenedAt: true, firstClickedAt: true },
+    }),
+  ]);
+
+  const engagement = new Map(campaignIds.map((id) => [id, {
+    opens: { unique: 0, total: 0 },
+    clicks: { unique: 0, total: 0 },
+  }]));
+  for (const { campaignId, _count } of firsts) {
+    engagement.get(campaignId).opens.unique = _count.firstOpenedAt;
+    engagement.get(campaignId).clicks.unique = _count.firstClickedAt;
+  }
+  for (const { campaignId, type, _count } of events) {
+    engagement.get(campaignId)[type === 'OPEN' ? 'opens' : 'clicks'].total = _count;
+  }
+  return engagement;
+};
+
+module.exports = {
+  verifySignature,
+  trackContent,
+  recordEvent,
+  engagementByCampaign,
+};
@@ -0,0 +1,196 @@
+const { prisma, redis } = require('../index');
+const { finalizeCampaign } = require('./campaignDelivery');
+
+const REPLAY_PAGE_SIZE = 500;
+
+// Vendor that reports sent to the receipt routes are recorded under
+const RECEIPT_VENDOR = 'receipt';
+
+const noOutcomes = () => ({ APPLIED: 0, STALE: 0, UNKNOWN: 0, ERROR: 0 });
+
+/**
+ * Applies a vendor's status report to its message. SENT or FAILED replaces
+ * PENDING, or an earlier SENT or FAILED; PENDING never replaces either.
+ * Reports older than the one that set the status are STALE, so events
+ * arriving out of order can't undo newer ones, as are reports for messages
+ * not handed to the vendor yet.
+ * @param {{ communicationId: string, status: string, occurredAt: string | Date, errorMessage?: string }} event
+ * @returns {Promise<{ outcome: 'APPLIED' | 'STALE' | 'UNKNOWN', campaignId: string | null }>}
+ */
+const applyVendorEvent = async ({ communicationId, status, occurredAt, errorMessage }) => {
+  const communication = await prisma.communicationLog.findUnique({
+    where: { id: communicationId },
+    select: { campaignId: true, status: true },
+  });
+  if (!communication) return { outcome: 'UNKNOWN', campaignId: null };
+  const { campaignId } = communication;
+
+  // A queued message is PENDING already, and must stay whatever it is
+  // once it is SENT or FAILED, so there is nothing to write
+  if (status === 'PENDING') {
+    return { outcome: communication.status === 'PENDING' ? 'APPLIED' : 'STALE', campaignId };
+  }
+
+  const at = new Date(occurredAt);
+  const { count } = await prisma.communicationLog.updateMany({
+    where: {
+      id: communicationId,
+      dispatchedAt: { not: null },
+      OR: [{ status: 'PENDING' }, { status: { in: ['SENT', 'FAILED'] }, vendorEventAt: { lt: at } }],
+    },
+    data: {
+      status,
+      errorMessage: status === 'FAILED' ? errorMessage || 'Reported failed by vendor' : null,
+      sentAt: status === 'SENT' ? at : null,
+      vendorEventAt: at,
+    },
+  });
+  if (count === 0) return { outcome: 'STALE', campaignId };
+
+  // Publish to Redis stream for async processing
+  await redis.xadd('delivery_stream', '*', 'event', 'delivery_updated', 'data', JSON.stringify({
+    communicationId,
+    status,
+    campaignId,
+  }));
+  await finalizeCampaign(campaignId);
+  return { outcome: 'APPLIED', campaignId };
+};
+
+// Applies a recorded event and stores how that went. A replay's outcome is
+// stored apart from the outcome of applying the event when it arrived.
+const processEvent = async (record, { replay = false } = {}) => {
+  let result;
+  try {
+    result = await applyVendorEvent({ ...record, errorMessage: record.payload.errorMessage });
+  } catch (error) {
+    console.error(`Error applying ${record.vendor} event ${record.eventId}:`, error);
+    result = { outcome: 'ERROR', campaignId: null };
+  }
+
+  const now = new Date();
+  await prisma.vendorEvent.update({
+    where: { id: record.id },
+    data: {
+      campaignId: result.campaignId || undefined,
+      ...(replay
+        ? { replayOutcome: result.outcome, replayedAt: now }
+        : { outcome: result.outcome, processedAt: now }),
+    },
+  });
+  return result.outcome;
+};
+
+// Records an event, resolving to the record if it is to be applied: when
+// it is new, or applying it failed the last time the vendor sent it.
+// Resolves to null for events already handled or being handled.
+const claimEvent = async (vendor, event) => {
+  try {
+    return await prisma.vendorEvent.create({
+      data: {
+        vendor,
+        eventId: event.id,
+        communicationId: event.communicationId,
+        status: event.status,
+        occurredAt: new Date(event.occurredAt),
+        payload: event,
+      },
+    });
+  } catch (error) {
+    if (error.code !== 'P2002') throw error;
+  }
+
+  const { count } = await prisma.vendorEvent.updateMany({
+    where: { vendor, eventId: event.id, outcome: 'ERROR' },
+    data: { outcome: null, processedAt: null },
+  });
+  return count > 0
+    ? prisma.vendorEvent.findUnique({ where: { vendor_eventId: { vendor, eventId: event.id } } })
+    : null;
+};
+
+/**
+ * Records the events of one webhook call from `vendor` and applies those
+ * not seen before, in the order they happened. Resolves to how many events
+ * had each outcome; DUPLICATE counts those already handled.
+ * @param {string} vendor
+ * @param {import('../../../shared/schema').VendorWebhookEvent[]} events
+ */
+const receiveVendorEvents = async (vendor, events) => {
+  const outcomes = { ...noOutcomes(), DUPLICATE: 0 };
+  const ordered = [...events].sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+
+  for (const event of ordered) {
+    const record = await claimEvent(vendor, event);
+    if (!record) {
+      outcomes.DUPLICATE++;
+      continue;
+    }
+    outcomes[await processEvent(record)]++;
+  }
+  return outcomes;
+};
+
+/**
+ * Records and applies status reports sent to the receipt routes like
+ * webhook events, so they can't overwrite newer or SKIPPED statuses and are
+ * kept for replay. Receipts carry no id or time of their own. Each is
+ * identified by its message and status, so a receipt sent again is a
+ * DUPLICATE, and happened when it arrived, a millisecond after the one
+ * before it so that the last receipt for a message wins. Resolves as
+ * receiveVendorEvents.
+ * @param {import('../../../shared/schema').DeliveryReceiptInput[]} receipts
+ */
+const receiveDeliveryReceipts = (receipts) => {
+  const arrivedAt = Date.now();
+  return receiveVendorEvents(RECEIPT_VENDOR, receipts.map((receipt, i) => ({
+    ...receipt,
+    id: `${receipt.communicationId}:${receipt.status}`,
+    occurredAt: new Date(arrivedAt + i).toISOString(),
+  })));
+};
+
+/**
+ * Applies again, oldest first, the events `vendor` sent between `since`
+ * and `until` for messages of the user's campaigns, e.g. after some
+ * failed to apply. Events already applied come out STALE. Each event keeps
+ * its original outcome; the replay's is stored as its replayOutcome.
+ * Resolves to how many events had each outcome in the replay.
+ * @param {string} vendor
+ * @param {import('../../../shared/schema').VendorEventReplayInput} window
+ * @param {string} userId
+ */
+const replayVendorEvents = async (vendor, { since, until }, userId) => {
+  const outcomes = noOutcomes();
+  let cursor;
+
+  for (;;) {
+    const page = await prisma.vendorEvent.findMany({
+      where: { vendor, receivedAt: { gte: new Date(since), ...(until && { lte: new Date(until) }) } },
+      orderBy: [{ occurredAt: 'asc' }, { id: 'asc' }],
+      take: REPLAY_PAGE_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    if (page.length === 0) break;
+    cursor = page[page.length - 1].id;
+
+    const owned = await prisma.communicationLog.findMany({
+      where: { id: { in: page.map(({ communicationId }) => communicationId) }, campaign: { createdById: userId } },
+      select: { id: true },
+    });
+    const ownedIds = new Set(owned.map(({ id }) => id));
+
+    for (const record of page) {
+      if (ownedIds.has(record.communicationId)) {
+        outcomes[await processEvent(record, { replay: true })]++;
+      }
+    }
+  }
+  return outcomes;
+};
+
+module.exports = {
+  receiveDeliveryReceipts,
+  receiveVendorEvents,
+  replayVendorEvents,
+};
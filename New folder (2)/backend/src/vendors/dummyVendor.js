@@ -0,0 +1,70 @@
+const crypto = require('crypto');
+const { signVendorWebhook, vendorWebhookSecret } = require('../middleware/auth');
+
+const MIN_RECEIPT_DELAY_MS = 200;
+const MAX_RECEIPT_DELAY_MS = 3000;
+
+const randomDelay = () =>
+  MIN_RECEIPT_DELAY_MS + Math.random() * (MAX_RECEIPT_DELAY_MS - MIN_RECEIPT_DELAY_MS);
+
+// Posts one event to the webhook, signed the way real vendors sign theirs
+const postEvent = async (callbackUrl, event) => {
+  const body = JSON.stringify({ events: [{ id: crypto.randomUUID(), ...event }] });
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const response = await fetch(callbackUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signVendorWebhook(vendorWebhookSecret('dummy'), timestamp, body),
+      },
+      body,
+    });
+    if (!response.ok) {
+      console.error(`Dummy vendor event rejected with ${response.status}:`, await response.text());
+    }
+  } catch (error) {
+    console.error('Dummy vendor could not deliver event:', error);
+  }
+};
+
+/**
+ * A stand-in vendor for development. It turns down a few messages straight
+ * away, accepts the rest, and reports each accepted one as queued (PENDING)
+ * and later as SENT or FAILED through its signed webhook. Both reports are
+ * posted after a random delay, so they can arrive out of order.
+ * @param {{ callbackUrl: string, rejectRate?: number, failureRate?: number }} options
+ * @returns {import('./index').VendorAdapter}
+ */
+const createDummyVendor = ({ callbackUrl, rejectRate = 0.02, failureRate = 0.1 }) => ({
+  name: 'dummy',
+
+  sendBatch: async (messages) =>
+    messages.map(({ communicationId }) => {
+      if (Math.random() < rejectRate) {
+        return { communicationId, accepted: false, error: 'Dummy vendor rejected the recipient' };
+      }
+
+      const queuedAt = new Date().toISOString();
+      setTimeout(() => {
+        postEvent(callbackUrl, { communicationId, status: 'PENDING', occurredAt: queuedAt });
+      }, randomDelay());
+
+      const failed = Math.random() < failureRate;
+      setTimeout(() => {
+        postEvent(callbackUrl, {
+          communicationId,
+          status: failed ? 'FAILED' : 'SENT',
+          occurredAt: new Date().toISOString(),
+          ...(failed && { errorMessage: 'Dummy vendor could not reach the recipient' }),
+        });
+      }, randomDelay());
+
+      return { communicationId, accepted: true, vendorMessageId: `dummy-${crypto.randomUUID()}` };
+    }),
+});
+
+module.exports = {
+  createDummyVendor,
+};
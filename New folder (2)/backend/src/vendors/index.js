@@ -0,0 +1,60 @@
+const { createDummyVendor } = require('./dummyVendor');
+
+/**
+ * A message for one recipient of a campaign, rendered for them. Email
+ * messages have a subject; WhatsApp ones name the approved template to
+ * send, with its placeholders filled in, and `body` is what that reads as.
+ * Links in the text already go through click tracking; emails should also
+ * load `openPixelUrl` as an image.
+ * @typedef {Object} VendorMessage
+ * @property {string} communicationId Passed back in the vendor's receipt
+ * @property {import('../../../shared/channels').CampaignChannel} channel
+ * @property {{ name: string, email: string, phone: string | null }} recipient
+ * @property {string} body
+ * @property {string} [subject]
+ * @property {{ template: string, language: string, params: string[] }} [whatsapp]
+ * @property {string} [openPixelUrl]
+ */
+
+/**
+ * Whether the vendor took a message on. Accepted messages stay PENDING
+ * until the vendor's webhook reports them SENT or FAILED.
+ * @typedef {Object} VendorResult
+ * @property {string} communicationId
+ * @property {boolean} accepted
+ * @property {string} [vendorMessageId]
+ * @property {string} [error] Why the message was turned down
+ */
+
+/**
+ * Sends campaign messages through one provider. `sendBatch` answers for
+ * every message it is given; throwing means the whole batch wasn't sent.
+ * @typedef {Object} VendorAdapter
+ * @property {string} name
+ * @property {(messages: VendorMessage[]) => Promise<VendorResult[]>} sendBatch
+ */
+
+const webhookUrl = (vendor) =>
+  process.env.DELIVERY_CALLBACK_URL
+  || `http://localhost:${process.env.PORT || 3001}/api/delivery/webhooks/${vendor}`;
+
+const VENDORS = {
+  dummy: () => createDummyVendor({ callbackUrl: webhookUrl('dummy') }),
+};
+
+/**
+ * The vendor named by DELIVERY_VENDOR, the dummy vendor by default.
+ * @returns {VendorAdapter}
+ */
+const getVendor = () => {
+  const name = process.env.DELIVERY_VENDOR || 'dummy';
+  const create = VENDORS[name];
+  if (!create) {
+    throw new Error(`Unknown delivery vendor "${name}", expected one of ${Object.keys(VENDORS).join(', ')}`);
+  }
+  return create();
+};
+
+module.exports = {
+  getVendor,
+};
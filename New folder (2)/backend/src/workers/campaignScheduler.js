@@ -0,0 +1,48 @@
+const { redis } = require('../index');
+const { startDueCampaigns } = require('../utils/campaignScheduling');
+const { settleDueTests } = require('../utils/abTesting');
+
+const INTERVAL_MS = Number(process.env.SCHEDULER_INTERVAL_MS) || 30000;
+
+/**
+ * Starts due scheduled campaigns and sends the winners of A/B tests whose
+ * wait is over every INTERVAL_MS, announcing each campaign on
+ * campaign_stream for the delivery worker. Returns a function that stops
+ * the scheduler, waiting for a check in progress.
+ */
+const startCampaignScheduler = () => {
+  let current = null;
+
+  const check = async () => {
+    try {
+      const started = [...(await startDueCampaigns()), ...(await settleDueTests())];
+      for (const campaignId of started) {
+        await redis.xadd('campaign_stream', '*', 'event', 'campaign_started', 'data', JSON.stringify({
+          campaignId,
+        }));
+      }
+    } catch (error) {
+      console.error('Error in campaign scheduler:', error);
+    }
+  };
+
+  // A slow check isn't overlapped by the next one
+  const tick = () => {
+    if (current) return;
+    current = check().finally(() => {
+      current = null;
+    });
+  };
+
+  const timer = setInterval(tick, INTERVAL_MS);
+  tick();
+
+  return async () => {
+    clearInterval(timer);
+    await current;
+  };
+};
+
+module.exports = {
+  startCampaignScheduler,
+};
@@ -0,0 +1,90 @@
+const { prisma, redis } = require('../index');
+const { deliverCampaign, finalizeCampaign } = require('../utils/campaignDelivery');
+const { getVendor } = require('../vendors');
+const { CONSUMER, startStreamConsumer } = require('./streamConsumer');
+
+// Only one instance delivers a campaign at a time. The lock is extended
+// before every batch, so it only lapses if its holder stops.
+const LOCK_MS = 60000;
+// How often running campaigns are checked for work a stopped instance left
+const SWEEP_INTERVAL_MS = 30000;
+
+const lockKey = (campaignId) => `campaign-delivery:${campaignId}`;
+
+const runCampaign = async (campaignId, vendor) => {
+  const key = lockKey(campaignId);
+  const acquired = await redis.set(key, CONSUMER, 'PX', LOCK_MS, 'NX');
+  if (!acquired) return;
+
+  try {
+    await deliverCampaign(campaignId, {
+      vendor,
+      onBatch: () => redis.pexpire(key, LOCK_MS),
+    });
+  } finally {
+    if ((await redis.get(key)) === CONSUMER) {
+      await redis.del(key);
+    }
+  }
+};
+
+// Events after which a campaign may have messages to deliver
+const DELIVERY_EVENTS = ['campaign_started', 'campaign_resumed'];
+
+/**
+ * Delivers campaigns as they are launched, started by the scheduler or
+ * resumed, by consuming campaign_stream, and periodically picks up RUNNING campaigns
+ * whose delivery was interrupted.
+ * Returns a function that stops the worker.
+ */
+const startCampaignWorker = () => {
+  const vendor = getVendor();
+  let lastSweep = 0;
+
+  const handleMessages = async (stream, messages) => {
+    const campaignIds = messages
+      .filter(({ event, data }) => DELIVERY_EVENTS.includes(event) && data && data.campaignId)
+      .map(({ data }) => data.campaignId);
+
+    for (const campaignId of new Set(campaignIds)) {
+      await runCampaign(campaignId, vendor);
+    }
+  };
+
+  const sweep = async () => {
+    if (Date.now() - lastSweep < SWEEP_INTERVAL_MS) return;
+    lastSweep = Date.now();
+
+    const running = await prisma.campaign.findMany({
+      where: { status: 'RUNNING' },
+      select: {
+        id: true,
+        communications: {
+          where: { status: 'PENDING', dispatchedAt: null },
+          select: { id: true },
+          take: 1,
+        },
+      },
+    });
+
+    for (const { id, communications } of running) {
+      if (communications.length > 0) {
+        await runCampaign(id, vendor);
+      } else {
+        await finalizeCampaign(id);
+      }
+    }
+  };
+
+  return startStreamConsumer({
+    name: 'campaign worker',
+    streams: ['campaign_stream'],
+    group: 'campaign-delivery',
+    handle: handleMessages,
+    onTick: sweep,
+  });
+};
+
+module.exports = {
+  startCampaignWorker,
+};
@@ -0,0 +1,35 @@
+const { syncDynamicSegments } = require('../utils/segmentMembership');
+const { startStreamConsumer } = require('./streamConsumer');
+
+// customer_* events carry the customer, order_* events the order
+const customerIdOf = ({ event, data }) => {
+  if (!data || typeof event !== 'string') return null;
+  if (event.startsWith('customer_')) return data.id || null;
+  if (event.startsWith('order_')) return data.customerId || null;
+  return null;
+};
+
+// Re-evaluates every customer touched by a batch
+const handleMessages = async (stream, messages) => {
+  const customerIds = [...new Set(messages.map(customerIdOf).filter(Boolean))];
+  if (customerIds.length === 0) return;
+
+  await syncDynamicSegments(customerIds);
+};
+
+/**
+ * Keeps dynamic segment memberships in step with customer and order changes
+ * by consuming customer_stream and order_stream. Returns a function that
+ * stops the worker.
+ */
+const startSegmentWorker = () =>
+  startStreamConsumer({
+    name: 'segment worker',
+    streams: ['customer_stream', 'order_stream'],
+    group: 'segment-sync',
+    handle: handleMessages,
+  });
+
+module.exports = {
+  startSegmentWorker,
+};
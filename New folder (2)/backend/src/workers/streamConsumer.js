@@ -0,0 +1,105 @@
+const os = require('os');
+const { redis } = require('../index');
+
+const CONSUMER = `${os.hostname()}-${process.pid}`;
+
+const READ_COUNT = 100;
+const BLOCK_MS = 5000;
+// Messages a crashed consumer left unacknowledged are taken over after this long
+const CLAIM_IDLE_MS = 60000;
+
+// Creates the consumer group on each stream, starting with new messages.
+// MKSTREAM covers streams nothing has been published to yet.
+const ensureGroups = async (client, streams, group) => {
+  for (const stream of streams) {
+    try {
+      await client.xgroup('CREATE', stream, group, '$', 'MKSTREAM');
+    } catch (error) {
+      if (!String(error.message).includes('BUSYGROUP')) throw error;
+    }
+  }
+};
+
+// Stream entries are flat [key, value, ...] arrays with `event` and `data`
+const parseEntry = ([id, fields]) => {
+  const entry = {};
+  for (let i = 0; i < fields.length; i += 2) {
+    entry[fields[i]] = fields[i + 1];
+  }
+  try {
+    return { id, event: entry.event, data: JSON.parse(entry.data) };
+  } catch (error) {
+    return { id, event: entry.event, data: null };
+  }
+};
+
+/**
+ * Consumes `streams` as consumer `group`, so several API instances share the
+ * work. `handle(stream, messages)` gets each batch as `{ id, event, data }`
+ * messages; they are acknowledged once it resolves, and a batch it throws on
+ * stays pending until CLAIM_IDLE_MS later, when it is claimed again.
+ * `onTick`, if given, runs once per loop, at least every BLOCK_MS.
+ * Returns a function that stops the consumer.
+ */
+const startStreamConsumer = ({ name, streams, group, handle, onTick }) => {
+  // XREADGROUP blocks its connection, so each consumer gets its own
+  const client = redis.duplicate();
+  let running = true;
+
+  const processEntries = async (stream, entries) => {
+    if (entries.length === 0) return;
+    const messages = entries.map(parseEntry);
+    await handle(stream, messages);
+    await client.xack(stream, group, ...messages.map((m) => m.id));
+  };
+
+  const claimStale = async () => {
+    for (const stream of streams) {
+      const [, entries] = await client.xautoclaim(stream, group, CONSUMER, CLAIM_IDLE_MS, '0-0', 'COUNT', READ_COUNT);
+      await processEntries(stream, entries.filter(Boolean));
+    }
+  };
+
+  const run = async () => {
+    let ready = false;
+
+    while (running) {
+      try {
+        if (!ready) {
+          await ensureGroups(client, streams, group);
+          ready = true;
+        }
+        await claimStale();
+
+        const result = await client.xreadgroup(
+          'GROUP', group, CONSUMER,
+          'COUNT', READ_COUNT,
+          'BLOCK', BLOCK_MS,
+          'STREAMS', ...streams, ...streams.map(() => '>')
+        );
+
+        for (const [stream, entries] of result || []) {
+          await processEntries(stream, entries);
+        }
+
+        if (onTick) await onTick();
+      } catch (error) {
+        if (!running) break;
+        console.error(`Error in ${name}:`, error);
+        await new Promise((resolve) => setTimeout(resolve, BLOCK_MS));
+      }
+    }
+  };
+
+  run().catch((error) => console.error(`${name} stopped:`, error));
+
+  return async () => {
+    running = false;
+    client.disconnect();
+  };
+};
+
+module.exports = {
+  CONSUMER,
+  startStreamConsumer,
+};
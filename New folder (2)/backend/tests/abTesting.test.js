@@ -0,0 +1,159 @@
+jest.mock('../src/index', () => ({ prisma: {} }));
+
+const { prisma } = require('../src/index');
+const { assignVariant, settleDueTests, variantLabel } = require('../src/utils/abTesting');
+
+const variants = [
+  { id: 'a', weight: 50 },
+  { id: 'b', weight: 30 },
+  { id: 'c', weight: 20 },
+];
+const customers = Array.from({ length: 10000 }, (_, i) => `customer-${i}`);
+
+const share = (assigned, id) => assigned.filter((v) => v === id).length / assigned.length;
+
+describe('variantLabel', () => {
+  it('labels variants A, B, C, ...', () => {
+    expect([0, 1, 4].map(variantLabel)).toEqual(['A', 'B', 'E']);
+  });
+});
+
+describe('assignVariant', () => {
+  const campaign = { id: 'campaign-1', testPercent: null };
+
+  it('always gives a customer the same variant', () => {
+    expect(customers.slice(0, 50).map((c) => assignVariant(campaign, variants, c)))
+      .toEqual(customers.slice(0, 50).map((c) => assignVariant(campaign, variants, c)));
+  });
+
+  it('splits customers by weight', () => {
+    const assigned = customers.map((c) => assignVariant(campaign, variants, c));
+
+    expect(share(assigned, 'a')).toBeCloseTo(0.5, 1);
+    expect(share(assigned, 'b')).toBeCloseTo(0.3, 1);
+    expect(share(assigned, 'c')).toBeCloseTo(0.2, 1);
+  });
+
+  it('draws differently for each campaign', () => {
+    const other = { id: 'campaign-2', testPercent: null };
+    const differing = customers.filter((c) =>
+      assignVariant(campaign, variants, c) !== assignVariant(other, variants, c));
+
+    expect(differing.length).toBeGreaterThan(customers.length / 4);
+  });
+
+  it('holds back everyone outside the test slice', () => {
+    const tested = { id: 'campaign-1', testPercent: 20 };
+    const assigned = customers.map((c) => assignVariant(tested, variants, c));
+
+    expect(share(assigned, null)).toBeCloseTo(0.8, 1);
+    const inSlice = assigned.filter((v) => v !== null);
+    expect(share(inSlice, 'a')).toBeCloseTo(0.5, 1);
+  });
+});
+
+describe('settleDueTests', () => {
+  const NOW = new Date('2026-05-04T12:00:00Z');
+
+  const dueCampaign = (values) => ({
+    id: 'campaign-1',
+    winnerVariantId: null,
+    winnerMetric: 'CLICK',
+    variants: [
+      { id: 'a', label: 'A', weight: 50 },
+      { id: 'b', label: 'B', weight: 50 },
+    ],
+    ...values,
+  });
+
+  // Sets up `campaigns` as due, with per-variant counts of messages by
+  // status and of messages opened and clicked
+  const setUp = (campaigns, results) => {
+    prisma.campaign = {
+      findMany: jest.fn().mockResolvedValue(campaigns),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    };
+    prisma.communicationLog = {
+      count: jest.fn().mockResolvedValue(0),
+      updateMany: jest.fn(),
+      groupBy: jest.fn(async ({ by }) => (by.length === 2
+        ? Object.entries(results).flatMap(([variantId, { statuses }]) =>
+          Object.entries(statuses).map(([status, _count]) => ({ variantId, status, _count })))
+        : Object.entries(results).map(([variantId, { opened, clicked }]) => ({
+          variantId,
+          _count: { firstOpenedAt: opened, firstClickedAt: clicked },
+        })))),
+    };
+    prisma.$transaction = jest.fn((fn) => fn(prisma));
+  };
+
+  it('picks the variant with the best rate and gives it to those held back', async () => {
+    setUp([dueCampaign()], {
+      a: { statuses: { SENT: 100 }, opened: 60, clicked: 10 },
+      b: { statuses: { SENT: 50, FAILED: 50 }, opened: 20, clicked: 15 },
+    });
+
+    expect(await settleDueTests(NOW)).toEqual(['campaign-1']);
+    expect(prisma.campaign.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: 'RUNNING', winnerVariantId: null, testEndsAt: { lte: NOW } },
+    }));
+    expect(prisma.campaign.updateMany).toHaveBeenCalledWith({
+      where: { id: 'campaign-1', status: 'RUNNING', winnerVariantId: null },
+      data: { winnerVariantId: 'b' },
+    });
+    expect(prisma.communicationLog.updateMany).toHaveBeenCalledWith({
+      where: { campaignId: 'campaign-1', variantId: null, status: 'PENDING' },
+      data: { variantId: 'b' },
+    });
+  });
+
+  it.each([
+    ['DELIVERY', 'a'],
+    ['OPEN', 'a'],
+    ['CLICK', 'b'],
+  ])('compares the %s rate', async (winnerMetric, winner) => {
+    setUp([dueCampaign({ winnerMetric })], {
+      a: { statuses: { SENT: 100 }, opened: 60, clicked: 10 },
+      b: { statuses: { SENT: 50, FAILED: 50 }, opened: 20, clicked: 15 },
+    });
+
+    await settleDueTests(NOW);
+    expect(prisma.campaign.updateMany.mock.calls[0][0].data).toEqual({ winnerVariantId: winner });
+  });
+
+  it('leaves out skipped messages from the delivery rate', async () => {
+    setUp([dueCampaign({ winnerMetric: 'DELIVERY' })], {
+      a: { statuses: { SENT: 80, FAILED: 20 } },
+      b: { statuses: { SENT: 45, FAILED: 5, SKIPPED: 50 } },
+    });
+
+    await settleDueTests(NOW);
+    expect(prisma.campaign.updateMany.mock.calls[0][0].data).toEqual({ winnerVariantId: 'b' });
+  });
+
+  it('lets the earlier variant win a tie', async () => {
+    setUp([dueCampaign()], {
+      a: { statuses: { SENT: 10 }, opened: 0, clicked: 5 },
+      b: { statuses: { SENT: 20 }, opened: 0, clicked: 10 },
+    });
+
+    await settleDueTests(NOW);
+    expect(prisma.campaign.updateMany.mock.calls[0][0].data).toEqual({ winnerVariantId: 'a' });
+  });
+
+  it('waits until the test slice has all been handed to the vendor', async () => {
+    setUp([dueCampaign()], { a: { statuses: { PENDING: 5 } }, b: { statuses: { SENT: 5 } } });
+    prisma.communicationLog.count.mockResolvedValue(5);
+
+    expect(await settleDueTests(NOW)).toEqual([]);
+    expect(prisma.campaign.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('leaves a test another instance settled first', async () => {
+    setUp([dueCampaign()], { a: { statuses: { SENT: 1 } }, b: { statuses: { SENT: 1 } } });
+    prisma.campaign.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await settleDueTests(NOW)).toEqual([]);
+    expect(prisma.communicationLog.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+jest.mock('../src/index', () => ({ prisma: {} }));
+jest.mock('../src/utils/campaignScheduling', () => ({ startCampaign: jest.fn() }));
+
+const { prisma } = require('../src/index');
+const { startCampaign } = require('../src/utils/campaignScheduling');
+const {
+  CampaignLifecycleError,
+  launchCampaign,
+  pauseCampaign,
+  resumeCampaign,
+  cancelCampaign,
+} = require('../src/utils/campaignLifecycle');
+
+const campaign = (status, values = {}) => ({ id: 'campaign-1', status, recurrence: null, ...values });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  prisma.$transaction = jest.fn((fn) => fn(prisma));
+  prisma.campaign = {
+    updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    findUnique: jest.fn(async ({ where }) => ({ id: where.id })),
+  };
+  prisma.communicationLog = { updateMany: jest.fn() };
+});
+
+// The CampaignLifecycleError `change` fails with, thrown or rejected
+const lifecycleError = async (change) => {
+  const error = await Promise.resolve().then(change).then(() => null, (e) => e);
+  expect(error).toBeInstanceOf(CampaignLifecycleError);
+  return error;
+};
+
+describe('launchCampaign', () => {
+  it.each(['DRAFT', 'SCHEDULED'])('starts a %s campaign', async (status) => {
+    startCampaign.mockResolvedValue(true);
+
+    await launchCampaign(campaign(status));
+    expect(startCampaign).toHaveBeenCalledWith(campaign(status));
+  });
+
+  it.each(['RUNNING', 'PAUSED', 'COMPLETED', 'CANCELLED', 'FAILED'])('does not launch a %s campaign', async (status) => {
+    const error = await lifecycleError(() => launchCampaign(campaign(status)));
+    expect(error.statusCode).toBe(409);
+    expect(error.message).toBe(`Cannot change a campaign from ${status} to RUNNING`);
+    expect(startCampaign).not.toHaveBeenCalled();
+  });
+
+  it('leaves recurring campaigns to their schedule', async () => {
+    const error = await lifecycleError(() => launchCampaign(campaign('SCHEDULED', { recurrence: '0 9 * * 1' })));
+    expect(error.message).toMatch(/Recurring campaigns run on their schedule/);
+  });
+
+  it('fails when another request started it first', async () => {
+    startCampaign.mockResolvedValue(false);
+
+    const error = await lifecycleError(() => launchCampaign(campaign('DRAFT')));
+    expect(error.message).toMatch(/changed by another request/);
+  });
+});
+
+describe('pauseCampaign and resumeCampaign', () => {
+  it('pauses a running campaign only if its status is unchanged', async () => {
+    await pauseCampaign(campaign('RUNNING'));
+    expect(prisma.campaign.updateMany).toHaveBeenCalledWith({
+      where: { id: 'campaign-1', status: 'RUNNING' },
+      data: { status: 'PAUSED' },
+    });
+  });
+
+  it('resumes a paused campaign', async () => {
+    await resumeCampaign(campaign('PAUSED'));
+    expect(prisma.campaign.updateMany).toHaveBeenCalledWith({
+      where: { id: 'campaign-1', status: 'PAUSED' },
+      data: { status: 'RUNNING' },
+    });
+  });
+
+  it.each([
+    [pauseCampaign, 'DRAFT'],
+    [pauseCampaign, 'COMPLETED'],
+    [resumeCampaign, 'SCHEDULED'],
+    [resumeCampaign, 'CANCELLED'],
+  ])('rejects %p from %s', async (change, status) => {
+    await lifecycleError(() => change(campaign(status)));
+    expect(prisma.campaign.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('fails when the status changed since it was read', async () => {
+    prisma.campaign.updateMany.mockResolvedValue({ count: 0 });
+
+    const error = await lifecycleError(() => pauseCampaign(campaign('RUNNING')));
+    expect(error.message).toMatch(/changed by another request/);
+  });
+});
+
+describe('cancelCampaign', () => {
+  it('cancels it and skips the messages not yet handed to the vendor', async () => {
+    await cancelCampaign(campaign('PAUSED'));
+
+    expect(prisma.campaign.updateMany).toHaveBeenCalledWith({
+      where: { id: 'campaign-1', status: 'PAUSED' },
+      data: { status: 'CANCELLED', scheduledFor: null },
+    });
+    expect(prisma.communicationLog.updateMany).toHaveBeenCalledWith({
+      where: { campaignId: 'campaign-1', status: 'PENDING', dispatchedAt: null },
+      data: expect.objectContaining({ status: 'SKIPPED', errorMessage: 'Campaign cancelled' }),
+    });
+  });
+
+  it.each(['COMPLETED', 'CANCELLED', 'FAILED'])('does not cancel a %s campaign', async (status) => {
+    await lifecycleError(() => cancelCampaign(campaign(status)));
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('skips nothing when the status changed since it was read', async () => {
+    prisma.campaign.updateMany.mockResolvedValue({ count: 0 });
+
+    await lifecycleError(() => cancelCampaign(campaign('RUNNING')));
+    expect(prisma.communicationLog.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,123 @@
+jest.mock('../src/index', () => ({ prisma: {} }));
+
+const { prisma } = require('../src/index');
+const { startDueCampaigns } = require('../src/utils/campaignScheduling');
+
+const NOW = new Date('2026-05-04T09:00:30Z');
+
+const oneOff = {
+  id: 'one-off',
+  name: 'Spring sale',
+  status: 'SCHEDULED',
+  scheduledFor: new Date('2026-05-04T08:00:00Z'),
+  recurrence: null,
+  segmentId: 'segment-1',
+  variants: [],
+};
+
+const recurring = {
+  ...oneOff,
+  id: 'weekly',
+  name: 'Weekly digest',
+  description: null,
+  message: 'Hi {{firstName}}',
+  channel: 'EMAIL',
+  subject: 'This week',
+  scheduledFor: new Date('2026-05-04T09:00:00Z'),
+  recurrence: '0 9 * * 1',
+  createdById: 'user-1',
+  testPercent: null,
+  testWaitMinutes: null,
+  winnerMetric: null,
+};
+
+beforeEach(() => {
+  prisma.$transaction = jest.fn((fn) => fn(prisma));
+  prisma.campaign = {
+    findMany: jest.fn(),
+    updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    create: jest.fn(async ({ data }) => ({ id: 'run-1', ...data })),
+    update: jest.fn(),
+  };
+  prisma.customerSegment = {
+    findMany: jest.fn().mockResolvedValue([{ customerId: 'c1' }, { customerId: 'c2' }]),
+  };
+  prisma.campaignVariant = { findMany: jest.fn().mockResolvedValue([]) };
+  prisma.communicationLog = {
+    count: jest.fn().mockResolvedValue(0),
+    createMany: jest.fn(),
+  };
+});
+
+describe('startDueCampaigns', () => {
+  it('starts a due one-off campaign with a log per member', async () => {
+    prisma.campaign.findMany.mockResolvedValue([oneOff]);
+
+    expect(await startDueCampaigns(NOW)).toEqual(['one-off']);
+    expect(prisma.campaign.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: 'SCHEDULED', scheduledFor: { lte: NOW } },
+    }));
+    expect(prisma.campaign.updateMany).toHaveBeenCalledWith({
+      where: { id: 'one-off', status: 'SCHEDULED', recurrence: null },
+      data: { status: 'RUNNING' },
+    });
+    expect(prisma.communicationLog.createMany).toHaveBeenCalledWith({
+      data: ['c1', 'c2'].map((customerId) => ({
+        campaignId: 'one-off',
+        customerId,
+        status: 'PENDING',
+        variantId: null,
+      })),
+    });
+  });
+
+  it('skips campaigns another instance started first', async () => {
+    prisma.campaign.findMany.mockResolvedValue([oneOff]);
+    prisma.campaign.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await startDueCampaigns(NOW)).toEqual([]);
+    expect(prisma.communicationLog.createMany).not.toHaveBeenCalled();
+  });
+
+  it('spawns a run of a recurring campaign and moves it to its next time', async () => {
+    prisma.campaign.findMany.mockResolvedValue([recurring]);
+
+    expect(await startDueCampaigns(NOW)).toEqual(['run-1']);
+    expect(prisma.campaign.updateMany).toHaveBeenCalledWith({
+      where: { id: 'weekly', status: 'SCHEDULED', scheduledFor: recurring.scheduledFor },
+      data: { scheduledFor: new Date('2026-05-11T09:00:00Z') },
+    });
+    expect(prisma.campaign.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        name: 'Weekly digest (2026-05-04 09:00 UTC)',
+        status: 'RUNNING',
+        parentCampaignId: 'weekly',
+        scheduledFor: recurring.scheduledFor,
+      }),
+    });
+    expect(prisma.communicationLog.createMany).toHaveBeenCalledWith({
+      data: expect.arrayContaining([expect.objectContaining({ campaignId: 'run-1', customerId: 'c1' })]),
+    });
+  });
+
+  it('completes a recurring campaign that will never run again', async () => {
+    prisma.campaign.findMany.mockResolvedValue([{ ...recurring, recurrence: '0 9 30 2 *' }]);
+
+    await startDueCampaigns(NOW);
+    expect(prisma.campaign.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: { status: 'COMPLETED', scheduledFor: null },
+    }));
+  });
+
+  it('carries on with the other campaigns when one fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    prisma.campaign.findMany.mockResolvedValue([{ ...oneOff, id: 'broken' }, oneOff]);
+    prisma.$transaction
+      .mockRejectedValueOnce(new Error('Deadlock'))
+      .mockImplementation((fn) => fn(prisma));
+
+    expect(await startDueCampaigns(NOW)).toEqual(['one-off']);
+    expect(console.error).toHaveBeenCalledWith('Error starting campaign broken:', expect.any(Error));
+    console.error.mockRestore();
+  });
+});
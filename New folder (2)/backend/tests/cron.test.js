@@ -0,0 +1,62 @@
+const { parseCron, nextCronTime } = require('../../shared/cron');
+
+const next = (expression, after) => nextCronTime(expression, new Date(after))?.toISOString() ?? null;
+
+describe('parseCron', () => {
+  it('expands ranges, lists and steps', () => {
+    const schedule = parseCron('*/15 9-17 1,15 * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...schedule.days]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.weekdays]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.anyDay).toBe(false);
+    expect(schedule.anyWeekday).toBe(false);
+  });
+
+  it('accepts macros and 7 for Sunday', () => {
+    expect([...parseCron('@weekly').weekdays]).toEqual([0]);
+    expect([...parseCron('0 0 * * 7').weekdays]).toEqual([0]);
+    expect([...parseCron('0-30/10 * * * *').minutes]).toEqual([0, 10, 20, 30]);
+  });
+
+  it.each([
+    ['0 0 * *', /5 fields/],
+    ['60 * * * *', /minute must be between 0 and 59/],
+    ['0 0 0 * *', /day of month must be between 1 and 31/],
+    ['0 0 * 13 *', /month must be between 1 and 12/],
+    ['0 5-1 * * *', /hour must be between/],
+    ['*/0 * * * *', /minute must be between/],
+    ['a * * * *', /invalid minute "a"/],
+  ])('rejects %s', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(message);
+  });
+});
+
+describe('nextCronTime', () => {
+  it('is strictly after the given time', () => {
+    expect(next('0 9 * * *', '2026-05-04T09:00:00Z')).toBe('2026-05-05T09:00:00.000Z');
+    expect(next('0 9 * * *', '2026-05-04T08:59:30Z')).toBe('2026-05-04T09:00:00.000Z');
+  });
+
+  it('rolls over hours, days, months and years', () => {
+    expect(next('*/20 * * * *', '2026-05-04T23:50:00Z')).toBe('2026-05-05T00:00:00.000Z');
+    expect(next('30 6 1 * *', '2026-05-31T10:00:00Z')).toBe('2026-06-01T06:30:00.000Z');
+    expect(next('@monthly', '2026-12-15T00:00:00Z')).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2026-05-04 is a Monday; the 13th comes before the next Friday
+    expect(next('0 0 13 * 5', '2026-05-11T12:00:00Z')).toBe('2026-05-13T00:00:00.000Z');
+    expect(next('0 0 13 * 5', '2026-05-04T12:00:00Z')).toBe('2026-05-08T00:00:00.000Z');
+  });
+
+  it('finds leap days', () => {
+    expect(next('0 12 29 2 *', '2026-03-01T00:00:00Z')).toBe('2028-02-29T12:00:00.000Z');
+  });
+
+  it('is null for expressions that never match', () => {
+    expect(next('0 0 30 2 *', '2026-01-01T00:00:00Z')).toBeNull();
+  });
+});
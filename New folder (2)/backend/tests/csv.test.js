@@ -0,0 +1,51 @@
+const { parseCsv, toCsvRow } = require('../src/utils/csv');
+
+describe('parseCsv', () => {
+  it('maps each row onto the header, trimming cells', () => {
+    expect(parseCsv('email, name\r\nada@example.com , Ada\r\n')).toEqual({
+      columns: ['email', 'name'],
+      records: [{ email: 'ada@example.com', name: 'Ada' }],
+    });
+  });
+
+  it('reads quoted fields with commas, quotes and line breaks', () => {
+    const { records } = parseCsv('name,note\n"Lovelace, Ada","said ""hi""\nthen left"\n');
+
+    expect(records).toEqual([{ name: 'Lovelace, Ada', note: 'said "hi"\nthen left' }]);
+  });
+
+  it('skips a byte order mark and blank lines', () => {
+    expect(parseCsv('﻿email\n\nada@example.com\n  \nbob@example.com')).toEqual({
+      columns: ['email'],
+      records: [{ email: 'ada@example.com' }, { email: 'bob@example.com' }],
+    });
+  });
+
+  it('fills in missing cells', () => {
+    expect(parseCsv('email,name,phone\nada@example.com,Ada').records).toEqual([
+      { email: 'ada@example.com', name: 'Ada', phone: '' },
+    ]);
+  });
+
+  it('throws for an unterminated quoted field', () => {
+    expect(() => parseCsv('name\n"Ada')).toThrow('Unterminated quoted field');
+  });
+});
+
+describe('toCsvRow', () => {
+  it('quotes cells that need it and ends with CRLF', () => {
+    expect(toCsvRow(['Ada', 'Lovelace, Ada', 'say "hi"', null, 12.5])).toBe(
+      'Ada,"Lovelace, Ada","say ""hi""",,12.5\r\n'
+    );
+  });
+
+  it('writes dates as ISO strings', () => {
+    expect(toCsvRow([new Date('2026-05-04T09:00:00Z')])).toBe('2026-05-04T09:00:00.000Z\r\n');
+  });
+
+  it('defuses text a spreadsheet would run as a formula', () => {
+    expect(toCsvRow(['=HYPERLINK("x")', '+1', '@SUM(A1)', -5])).toBe(
+      '"\'=HYPERLINK(""x"")",\'+1,\'@SUM(A1),-5\r\n'
+    );
+  });
+});
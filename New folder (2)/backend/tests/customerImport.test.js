@@ -0,0 +1,142 @@
+jest.mock('../src/index', () => ({ prisma: {}, redis: { xadd: jest.fn() } }));
+
+const { prisma, redis } = require('../src/index');
+const { ImportError, importCustomers, suggestMapping } = require('../src/utils/customerImport');
+
+const csv = (lines) => lines.join('\r\n');
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  prisma.customer = { findMany: jest.fn().mockResolvedValue([]) };
+});
+
+describe('suggestMapping', () => {
+  it('maps headers onto fields however they are spelled', () => {
+    expect(suggestMapping(['E-mail Address', 'Full Name', 'Mobile', 'Amount', 'Status', 'Date', 'Notes'])).toEqual({
+      'E-mail Address': 'email',
+      'Full Name': 'name',
+      Mobile: 'phone',
+      Amount: 'orderAmount',
+      Status: 'orderStatus',
+      Date: 'orderDate',
+    });
+  });
+
+  it('maps each field once', () => {
+    expect(suggestMapping(['email', 'Email'])).toEqual({ email: 'email' });
+  });
+});
+
+describe('importCustomers', () => {
+  it('reports what a dry run would do without writing', async () => {
+    prisma.customer.findMany.mockResolvedValue([
+      { id: 'existing', email: 'bob@example.com', deletedAt: null },
+      { id: 'gone', email: 'eve@example.com', deletedAt: new Date() },
+    ]);
+    prisma.$transaction = jest.fn();
+
+    const report = await importCustomers({
+      format: 'csv',
+      content: csv([
+        'Email,Name,Amount',
+        'ADA@example.com,Ada,12.50',
+        'bob@example.com,,',
+        'eve@example.com,Eve,',
+        'not-an-email,Nobody,',
+        'new@example.com,,',
+        'ada@example.com,,5',
+      ]),
+    });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.mapping).toEqual({ Email: 'email', Name: 'name', Amount: 'orderAmount' });
+    expect(report.summary).toEqual({ created: 1, updated: 2, skipped: 0, error: 3, total: 6 });
+    expect(report.rows.map(({ status, message }) => [status, message])).toEqual([
+      ['created', undefined],
+      ['updated', undefined],
+      ['error', 'Customer was deleted; restore it before importing'],
+      ['error', 'email: must be a valid email'],
+      ['error', 'name: is required for new customers'],
+      ['updated', undefined],
+    ]);
+    expect(report.rows[0].ordersCreated).toBe(1);
+    expect(prisma.customer.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { email: { in: ['ada@example.com', 'bob@example.com', 'eve@example.com', 'not-an-email', 'new@example.com'] } },
+    }));
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('skips existing customers when asked to', async () => {
+    prisma.customer.findMany.mockResolvedValue([{ id: 'existing', email: 'bob@example.com', deletedAt: null }]);
+
+    const report = await importCustomers({
+      format: 'json',
+      content: JSON.stringify([{ email: 'bob@example.com', name: 'Bob' }]),
+      onDuplicate: 'skip',
+    });
+    expect(report.rows[0]).toEqual(expect.objectContaining({ status: 'skipped', message: 'Customer already exists' }));
+  });
+
+  it('rejects rows with bad order values', async () => {
+    const report = await importCustomers({
+      format: 'json',
+      content: JSON.stringify([{ email: 'ada@example.com', name: 'Ada', amount: -1, status: 'LOST', date: 'soon' }]),
+    });
+    expect(report.rows[0].message).toBe(
+      'orderAmount: must be at least 0, orderStatus: must be one of PENDING, COMPLETED, CANCELLED, REFUNDED, '
+      + 'orderDate: must be a valid date'
+    );
+  });
+
+  it('writes rows, publishing created and updated customers', async () => {
+    prisma.customer.findMany.mockResolvedValue([{ id: 'existing', email: 'bob@example.com', deletedAt: null }]);
+    const tx = {
+      customer: {
+        create: jest.fn(async ({ data }) => ({ id: 'new', ...data })),
+        update: jest.fn(async ({ where, data }) => ({ id: where.id, ...data })),
+      },
+      order: {
+        create: jest.fn(async ({ data }) => ({ id: 'order-1', ...data })),
+        aggregate: jest.fn().mockResolvedValue({ _sum: { amount: 12.5, refundedAmount: 0 }, _max: {}, _count: 1 }),
+      },
+    };
+    prisma.$transaction = jest.fn((fn) => fn(tx));
+
+    const report = await importCustomers({
+      format: 'csv',
+      content: csv(['email,name,orderAmount,orderDate', 'ada@example.com,Ada,12.5,2026-01-02', 'bob@example.com,Bob,,']),
+      dryRun: false,
+    });
+
+    expect(report.summary).toEqual(expect.objectContaining({ created: 1, updated: 1 }));
+    expect(tx.order.create).toHaveBeenCalledWith({
+      data: {
+        customerId: 'new',
+        amount: 12.5,
+        refundedAmount: 0,
+        status: 'COMPLETED',
+        createdAt: new Date('2026-01-02T00:00:00.000Z'),
+      },
+    });
+    expect(tx.customer.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'new' },
+      data: expect.objectContaining({ totalSpend: 12.5, visitCount: 1 }),
+    }));
+    expect(redis.xadd.mock.calls.map((call) => `${call[0]} ${call[3]}`)).toEqual([
+      'customer_stream customer_created',
+      'order_stream order_created',
+      'customer_stream customer_updated',
+    ]);
+  });
+
+  it.each([
+    ['csv', 'name\n"Ada', /^Invalid CSV: Unterminated quoted field$/],
+    ['json', '{', /^Invalid JSON/],
+    ['json', '{"email":"ada@example.com"}', /must be an array of objects/],
+    ['csv', 'email\n', /no rows/],
+    ['csv', 'name\nAda', /A column must be mapped to email/],
+  ])('rejects unreadable %s uploads', async (format, content, message) => {
+    await expect(importCustomers({ format, content })).rejects.toThrow(ImportError);
+    await expect(importCustomers({ format, content })).rejects.toThrow(message);
+  });
+});
@@ -0,0 +1,122 @@
+jest.mock('../src/index', () => ({ prisma: {} }));
+
+const { prisma } = require('../src/index');
+const { OrderLifecycleError, updateOrderStatus } = require('../src/utils/orders');
+
+const order = (values) => ({ id: 'order-1', customerId: 'customer-1', amount: 100, refundedAmount: 0, ...values });
+
+// Sets up the transaction client with `stored` as the order and the
+// customer's completed orders summing to `totals`
+const setUp = (stored, totals = { amount: 100, refundedAmount: 0, count: 1 }) => {
+  const tx = {
+    order: {
+      findUnique: jest.fn().mockResolvedValue(stored),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      aggregate: jest.fn().mockResolvedValue({
+        _sum: { amount: totals.amount, refundedAmount: totals.refundedAmount },
+        _max: { createdAt: new Date('2026-05-01T00:00:00Z') },
+        _count: totals.count,
+      }),
+    },
+    customer: { update: jest.fn() },
+  };
+  prisma.$transaction = jest.fn((fn) => fn(tx));
+  return tx;
+};
+
+describe('updateOrderStatus', () => {
+  it('resolves to null for unknown orders', async () => {
+    setUp(null);
+    expect(await updateOrderStatus('missing', { status: 'COMPLETED' })).toBeNull();
+  });
+
+  it('completes a pending order only if nobody changed it meanwhile', async () => {
+    const tx = setUp(order({ status: 'PENDING' }));
+
+    await updateOrderStatus('order-1', { status: 'COMPLETED' });
+    expect(tx.order.updateMany).toHaveBeenCalledWith({
+      where: { id: 'order-1', status: 'PENDING', refundedAmount: 0 },
+      data: { status: 'COMPLETED' },
+    });
+  });
+
+  it('recomputes the customer from completed orders, net of refunds', async () => {
+    const tx = setUp(order({ status: 'PENDING' }), { amount: 350.1, refundedAmount: 50.05, count: 3 });
+
+    await updateOrderStatus('order-1', { status: 'COMPLETED' });
+    expect(tx.order.aggregate).toHaveBeenCalledWith(expect.objectContaining({
+      where: { customerId: 'customer-1', status: 'COMPLETED' },
+    }));
+    expect(tx.customer.update).toHaveBeenCalledWith({
+      where: { id: 'customer-1' },
+      data: { totalSpend: 300.05, visitCount: 3, lastVisit: new Date('2026-05-01T00:00:00Z') },
+    });
+  });
+
+  it.each([
+    ['PENDING', 'REFUNDED'],
+    ['COMPLETED', 'PENDING'],
+    ['COMPLETED', 'CANCELLED'],
+    ['CANCELLED', 'COMPLETED'],
+    ['REFUNDED', 'COMPLETED'],
+  ])('does not change %s to %s', async (from, to) => {
+    setUp(order({ status: from }));
+
+    const error = await updateOrderStatus('order-1', { status: to }).catch((e) => e);
+    expect(error).toBeInstanceOf(OrderLifecycleError);
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toBe(`Cannot change an order from ${from} to ${to}`);
+  });
+
+  it('keeps a partly refunded order COMPLETED', async () => {
+    const tx = setUp(order({ status: 'COMPLETED', refundedAmount: 10 }));
+
+    await updateOrderStatus('order-1', { status: 'REFUNDED', refundAmount: 25.5 });
+    expect(tx.order.updateMany).toHaveBeenCalledWith({
+      where: { id: 'order-1', status: 'COMPLETED', refundedAmount: 10 },
+      data: { refundedAmount: 35.5 },
+    });
+  });
+
+  it('refunds the rest when no amount is given', async () => {
+    const tx = setUp(order({ status: 'COMPLETED', refundedAmount: 40 }));
+
+    await updateOrderStatus('order-1', { status: 'REFUNDED' });
+    expect(tx.order.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: { status: 'REFUNDED', refundedAmount: 100 },
+    }));
+  });
+
+  it('marks an order REFUNDED once refunds reach its amount', async () => {
+    const tx = setUp(order({ status: 'COMPLETED', refundedAmount: 60 }));
+
+    await updateOrderStatus('order-1', { status: 'REFUNDED', refundAmount: 40 });
+    expect(tx.order.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: { status: 'REFUNDED', refundedAmount: 100 },
+    }));
+  });
+
+  it('rejects refunds over the remaining amount', async () => {
+    setUp(order({ status: 'COMPLETED', refundedAmount: 60 }));
+
+    await expect(updateOrderStatus('order-1', { status: 'REFUNDED', refundAmount: 40.01 }))
+      .rejects.toThrow('Refund exceeds the remaining 40.00');
+  });
+
+  it('only takes a refund amount with status REFUNDED', async () => {
+    setUp(order({ status: 'PENDING' }));
+
+    await expect(updateOrderStatus('order-1', { status: 'COMPLETED', refundAmount: 5 }))
+      .rejects.toThrow('refundAmount can only be sent with status REFUNDED');
+  });
+
+  it('answers 409 when another request changed the order first', async () => {
+    const tx = setUp(order({ status: 'COMPLETED' }));
+    tx.order.updateMany.mockResolvedValue({ count: 0 });
+
+    const error = await updateOrderStatus('order-1', { status: 'REFUNDED', refundAmount: 10 }).catch((e) => e);
+    expect(error).toBeInstanceOf(OrderLifecycleError);
+    expect(error.statusCode).toBe(409);
+    expect(tx.customer.update).not.toHaveBeenCalled();
+  });
+});
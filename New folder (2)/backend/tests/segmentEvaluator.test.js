@@ -0,0 +1,254 @@
+jest.mock('../src/index', () => ({ prisma: {} }));
+// The generated client's Prisma.sql helpers come from the runtime library
+jest.mock('@prisma/client', () => {
+  const { sqltag, join, raw, empty } = jest.requireActual('@prisma/client/runtime/library');
+  return { Prisma: { sql: sqltag, join, raw, empty } };
+});
+
+const { sqltag } = jest.requireActual('@prisma/client/runtime/library');
+const { prisma } = require('../src/index');
+const { SegmentRuleError, evaluateSegmentRules } = require('../src/utils/segmentEvaluator');
+
+const NOW = new Date('2026-05-04T12:00:00Z');
+
+// The query run for the last evaluation, with whitespace collapsed
+const lastQuery = () => {
+  const { sql, values } = sqltag(...prisma.$queryRaw.mock.calls.at(-1));
+  return { sql: sql.replace(/\s+/g, ' ').trim(), values };
+};
+
+// Evaluates `rules` and returns the condition they became, after the
+// customer filters every query starts with
+const whereOf = async (rules) => {
+  await evaluateSegmentRules(rules);
+  const { sql, values } = lastQuery();
+  return { sql: sql.replace('SELECT c.id FROM Customer c WHERE c.deletedAt IS NULL AND ', ''), values };
+};
+
+const completedOrders = (dateFilter = ' ') =>
+  `( SELECT 1 FROM \`Order\` o WHERE o.customerId = c.id AND o.status = 'COMPLETED'${dateFilter})`;
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: NOW });
+  prisma.$queryRaw = jest.fn().mockResolvedValue([{ id: 'customer-1' }, { id: 'customer-2' }]);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('evaluateSegmentRules', () => {
+  it('resolves to the ids of matching customers that are not deleted', async () => {
+    expect(await evaluateSegmentRules({ field: 'totalSpend', operator: 'gt', value: 100 }))
+      .toEqual(['customer-1', 'customer-2']);
+    expect(lastQuery()).toEqual({
+      sql: 'SELECT c.id FROM Customer c WHERE c.deletedAt IS NULL AND c.totalSpend > ?',
+      values: [100],
+    });
+  });
+
+  it('only tests the given customers', async () => {
+    await evaluateSegmentRules({ field: 'visitCount', operator: 'eq', value: 1 }, { customerIds: ['a', 'b'] });
+
+    expect(lastQuery()).toEqual({
+      sql: 'SELECT c.id FROM Customer c WHERE c.deletedAt IS NULL AND c.id IN (?,?) AND c.visitCount = ?',
+      values: ['a', 'b', 1],
+    });
+  });
+
+  it('runs the query on the given client, e.g. a transaction', async () => {
+    const tx = { $queryRaw: jest.fn().mockResolvedValue([{ id: 'customer-3' }]) };
+
+    expect(await evaluateSegmentRules({ field: 'visitCount', operator: 'eq', value: 1 }, {}, tx)).toEqual(['customer-3']);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('skips the query when there are no customers to test', async () => {
+    expect(await evaluateSegmentRules({ field: 'visitCount', operator: 'eq', value: 1 }, { customerIds: [] }))
+      .toEqual([]);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('rejects rules that do not fit the schema with the path of each bad node', async () => {
+    const rules = {
+      type: 'AND',
+      conditions: [{ field: 'name', operator: 'gt', value: 'x' }, { field: 'recentSpend', operator: 'gt', value: 1 }],
+    };
+
+    const error = await evaluateSegmentRules(rules).catch((e) => e);
+    expect(error).toBeInstanceOf(SegmentRuleError);
+    expect(error.errors.map((e) => e.path)).toEqual(['rules.conditions.0.operator', 'rules.conditions.1.days']);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+});
+
+describe('groups', () => {
+  const spend = { field: 'totalSpend', operator: 'gte', value: 100 };
+  const visits = { field: 'visitCount', operator: 'lt', value: 3 };
+
+  it.each([
+    ['AND', '(c.totalSpend >= ? AND c.visitCount < ?)'],
+    ['OR', '(c.totalSpend >= ? OR c.visitCount < ?)'],
+  ])('joins the conditions of an %s group', async (type, sql) => {
+    expect(await whereOf({ type, conditions: [spend, visits] })).toEqual({ sql, values: [100, 3] });
+  });
+
+  it('matches a NOT group when none of its conditions do', async () => {
+    expect(await whereOf({ type: 'NOT', conditions: [spend, visits] })).toEqual({
+      sql: 'NOT (c.totalSpend >= ? OR c.visitCount < ?)',
+      values: [100, 3],
+    });
+  });
+
+  it('nests groups', async () => {
+    const rules = {
+      type: 'OR',
+      conditions: [spend, { type: 'AND', conditions: [visits, { type: 'NOT', conditions: [spend] }] }],
+    };
+
+    expect(await whereOf(rules)).toEqual({
+      sql: '(c.totalSpend >= ? OR (c.visitCount < ? AND NOT (c.totalSpend >= ?)))',
+      values: [100, 3, 100],
+    });
+  });
+});
+
+describe('numeric conditions', () => {
+  it.each([
+    ['gt', '>'],
+    ['gte', '>='],
+    ['lt', '<'],
+    ['lte', '<='],
+    ['eq', '='],
+  ])('compares with %s', async (operator, sql) => {
+    expect(await whereOf({ field: 'totalSpend', operator, value: 12.5 }))
+      .toEqual({ sql: `c.totalSpend ${sql} ?`, values: [12.5] });
+  });
+});
+
+describe('date conditions', () => {
+  it.each([
+    ['before', '2026-01-01', 'c.createdAt < ?', [new Date('2026-01-01')]],
+    ['after', '2026-01-01', 'c.createdAt > ?', [new Date('2026-01-01')]],
+    ['between', '2026-01-01,2026-02-01', 'c.createdAt BETWEEN ? AND ?', [new Date('2026-01-01'), new Date('2026-02-01')]],
+    ['daysAgo', 30, 'c.createdAt < ?', [new Date('2026-04-04T12:00:00Z')]],
+    ['notSince', '2026-01-01', 'c.createdAt < ?', [new Date('2026-01-01')]],
+  ])('handles %s', async (operator, value, sql, values) => {
+    expect(await whereOf({ field: 'createdAt', operator, value })).toEqual({ sql, values });
+  });
+
+  it('lets customers who never visited match notSince', async () => {
+    expect(await whereOf({ field: 'lastVisit', operator: 'notSince', value: '2026-01-01' })).toEqual({
+      sql: '(c.lastVisit IS NULL OR c.lastVisit < ?)',
+      values: [new Date('2026-01-01')],
+    });
+  });
+});
+
+describe('string conditions', () => {
+  it.each([
+    ['contains', 'c.name LIKE ?', '%ada%'],
+    ['startsWith', 'c.name LIKE ?', 'ada%'],
+    ['endsWith', 'c.name LIKE ?', '%ada'],
+    ['equals', 'c.name = ?', 'ada'],
+  ])('handles %s', async (operator, sql, value) => {
+    expect(await whereOf({ field: 'name', operator, value: 'ada' })).toEqual({ sql, values: [value] });
+  });
+
+  it('escapes LIKE wildcards so the value matches literally', async () => {
+    expect((await whereOf({ field: 'email', operator: 'contains', value: '50%_off\\' })).values)
+      .toEqual(['%50\\%\\_off\\\\%']);
+  });
+
+  it('leaves the value of equals as it is', async () => {
+    expect((await whereOf({ field: 'email', operator: 'equals', value: '50%_off' })).values).toEqual(['50%_off']);
+  });
+});
+
+describe('order aggregate conditions', () => {
+  const customersWhere = (having, dateFilter = '') =>
+    `( SELECT o.customerId FROM \`Order\` o WHERE o.status = 'COMPLETED'${dateFilter} GROUP BY o.customerId HAVING ${having})`;
+
+  it('selects customers whose completed orders match', async () => {
+    expect(await whereOf({ field: 'orderCount', operator: 'gte', value: 2 })).toEqual({
+      sql: `c.id IN ${customersWhere('COUNT(*) >= ?')}`,
+      values: [2],
+    });
+  });
+
+  it.each([
+    ['eq', 0],
+    ['lt', 3],
+    ['lte', 0],
+  ])('lets customers with no orders match orderCount %s %d', async (operator, value) => {
+    const sql = { eq: '=', lt: '<', lte: '<=' }[operator];
+
+    expect(await whereOf({ field: 'orderCount', operator, value })).toEqual({
+      sql: `c.id NOT IN ${customersWhere(`NOT (COUNT(*) ${sql} ?)`)}`,
+      values: [value],
+    });
+  });
+
+  it('never lets customers with no orders match an average', async () => {
+    expect(await whereOf({ field: 'avgOrderValue', operator: 'lt', value: 50 })).toEqual({
+      sql: `c.id IN ${customersWhere('ROUND(SUM(o.amount - o.refundedAmount) / COUNT(*), 2) < ?')}`,
+      values: [50],
+    });
+  });
+
+  it('only counts recent spend within the window', async () => {
+    expect(await whereOf({ field: 'recentSpend', operator: 'gt', value: 100, days: 30 })).toEqual({
+      sql: `c.id IN ${customersWhere('ROUND(SUM(o.amount - o.refundedAmount), 2) > ?', ' AND o.createdAt >= ?')}`,
+      values: [new Date('2026-04-04T12:00:00Z'), 100],
+    });
+  });
+
+  it('lets customers without recent orders match a low recent spend', async () => {
+    expect(await whereOf({ field: 'recentSpend', operator: 'lte', value: 100, days: 30 })).toEqual({
+      sql: `c.id NOT IN ${customersWhere('NOT (ROUND(SUM(o.amount - o.refundedAmount), 2) <= ?)', ' AND o.createdAt >= ?')}`,
+      values: [new Date('2026-04-04T12:00:00Z'), 100],
+    });
+  });
+});
+
+describe('order date conditions', () => {
+  const date = new Date('2026-01-01');
+  const someOrder = (dateFilter) => `EXISTS ${completedOrders(dateFilter)}`;
+  const noOrder = (dateFilter) => `NOT EXISTS ${completedOrders(dateFilter)}`;
+
+  it.each([
+    ['firstOrderDate', 'before', someOrder(' AND o.createdAt < ?'), [date]],
+    ['firstOrderDate', 'after', `(${someOrder()} AND ${noOrder(' AND o.createdAt <= ?')})`, [date]],
+    ['lastOrderDate', 'before', `(${someOrder()} AND ${noOrder(' AND o.createdAt >= ?')})`, [date]],
+    ['lastOrderDate', 'after', someOrder(' AND o.createdAt > ?'), [date]],
+  ])('handles %s %s', async (field, operator, sql, values) => {
+    expect(await whereOf({ field, operator, value: '2026-01-01' })).toEqual({ sql, values });
+  });
+
+  it.each([
+    ['firstOrderDate', ' AND o.createdAt < ?', new Date('2026-01-01')],
+    ['lastOrderDate', ' AND o.createdAt > ?', new Date('2026-02-01')],
+  ])('handles %s between, with no order outside the range', async (field, outside, outsideDate) => {
+    const start = new Date('2026-01-01');
+    const end = new Date('2026-02-01');
+
+    expect(await whereOf({ field, operator: 'between', value: '2026-01-01,2026-02-01' })).toEqual({
+      sql: `(${someOrder(' AND o.createdAt BETWEEN ? AND ?')} AND ${noOrder(outside)})`,
+      values: [start, end, outsideDate],
+    });
+  });
+
+  it('handles daysAgo as before that many days ago', async () => {
+    expect(await whereOf({ field: 'lastOrderDate', operator: 'daysAgo', value: 30 })).toEqual({
+      sql: `(${someOrder()} AND ${noOrder(' AND o.createdAt >= ?')})`,
+      values: [new Date('2026-04-04T12:00:00Z')],
+    });
+  });
+
+  it.each([
+    ['firstOrderDate', `(${noOrder()} OR ${someOrder(' AND o.createdAt < ?')})`],
+    ['lastOrderDate', noOrder(' AND o.createdAt >= ?')],
+  ])('lets customers with no orders match %s notSince', async (field, sql) => {
+    expect(await whereOf({ field, operator: 'notSince', value: '2026-01-01' })).toEqual({ sql, values: [date] });
+  });
+});
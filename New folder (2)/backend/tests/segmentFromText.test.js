@@ -0,0 +1,140 @@
+jest.mock('../src/utils/aiUtils', () => ({ generateSegmentRules: jest.fn() }));
+
+const { generateSegmentRules } = require('../src/utils/aiUtils');
+const { stubSegmentRules } = require('../src/utils/segmentTextStub');
+const { SegmentTextError, rulesFromText } = require('../src/utils/segmentFromText');
+
+const stub = async (text) => JSON.parse(await stubSegmentRules(text));
+
+describe('stubSegmentRules', () => {
+  beforeAll(() => {
+    jest.useFakeTimers({ now: new Date('2026-03-31T12:00:00Z') });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it('joins clauses with AND', async () => {
+    expect(await stub("Customers who spent over $500 and haven't visited in 3 months")).toEqual({
+      type: 'AND',
+      conditions: [
+        { field: 'totalSpend', operator: 'gt', value: 500 },
+        { field: 'lastVisit', operator: 'daysAgo', value: 90 },
+      ],
+    });
+  });
+
+  it('uses OR when the sentence only says "or"', async () => {
+    expect(await stub('at least 5 orders or an average order value below 20')).toEqual({
+      type: 'OR',
+      conditions: [
+        { field: 'orderCount', operator: 'gte', value: 5 },
+        { field: 'avgOrderValue', operator: 'lt', value: 20 },
+      ],
+    });
+  });
+
+  it('groups clauses joined by "and" inside an "or"', async () => {
+    expect(await stub('spent over 500 and at least 3 orders or more than 10 visits')).toEqual({
+      type: 'OR',
+      conditions: [
+        {
+          type: 'AND',
+          conditions: [
+            { field: 'totalSpend', operator: 'gt', value: 500 },
+            { field: 'orderCount', operator: 'gte', value: 3 },
+          ],
+        },
+        { field: 'visitCount', operator: 'gt', value: 10 },
+      ],
+    });
+  });
+
+  it('answers with an empty group for a part of an "or" it does not know', async () => {
+    expect(await stub('at least 5 orders or people who like cats')).toEqual({
+      type: 'OR',
+      conditions: [{ field: 'orderCount', operator: 'gte', value: 5 }, { type: 'AND', conditions: [] }],
+    });
+  });
+
+  it('reads spend over a period and dates relative to today', async () => {
+    expect(await stub('spent more than 100 in the last 2 weeks, signed up in the last 30 days')).toEqual({
+      type: 'AND',
+      conditions: [
+        { field: 'recentSpend', operator: 'gt', value: 100, days: 14 },
+        { field: 'createdAt', operator: 'after', value: '2026-03-01' },
+      ],
+    });
+  });
+
+  it('reads email domains and names', async () => {
+    expect((await stub('email ends with @example.com')).conditions).toEqual([
+      { field: 'email', operator: 'endsWith', value: '@example.com' },
+    ]);
+    expect((await stub('name contains "Smith"')).conditions).toEqual([
+      { field: 'name', operator: 'contains', value: 'smith' },
+    ]);
+  });
+
+  it('answers with an empty group for sentences it does not know', async () => {
+    expect(await stub('people who like cats')).toEqual({ type: 'AND', conditions: [] });
+  });
+});
+
+describe('rulesFromText', () => {
+  afterEach(() => {
+    delete process.env.SEGMENT_AI_PROVIDER;
+    generateSegmentRules.mockReset();
+  });
+
+  it('validates the stub answer', async () => {
+    process.env.SEGMENT_AI_PROVIDER = 'stub';
+
+    expect(await rulesFromText('visited more than 10 times')).toEqual({
+      type: 'AND',
+      conditions: [{ field: 'visitCount', operator: 'gt', value: 10 }],
+    });
+  });
+
+  it('throws SegmentTextError with the errors when no answer is valid', async () => {
+    process.env.SEGMENT_AI_PROVIDER = 'stub';
+
+    const error = await rulesFromText('people who like cats').catch((e) => e);
+    expect(error).toBeInstanceOf(SegmentTextError);
+    expect(error.errors).toEqual([expect.objectContaining({ path: 'rules.conditions' })]);
+  });
+
+  it('repairs bare lists and operator aliases in model answers', async () => {
+    process.env.SEGMENT_AI_PROVIDER = 'openai';
+    generateSegmentRules.mockResolvedValue(
+      'Here you go:\n```json\n[{ "field": "totalSpend", "operator": ">=", "value": 50 }]\n```'
+    );
+
+    expect(await rulesFromText('big spenders')).toEqual({
+      type: 'AND',
+      conditions: [{ field: 'totalSpend', operator: 'gte', value: 50 }],
+    });
+  });
+
+  it('sends invalid answers back with their errors', async () => {
+    process.env.SEGMENT_AI_PROVIDER = 'openai';
+    generateSegmentRules
+      .mockResolvedValueOnce('not json')
+      .mockResolvedValueOnce('{ "field": "shoeSize", "operator": "gt", "value": 9 }')
+      .mockResolvedValueOnce('{ "field": "visitCount", "operator": "gt", "value": 9 }');
+
+    expect(await rulesFromText('regulars')).toEqual({
+      type: 'AND',
+      conditions: [{ field: 'visitCount', operator: 'gt', value: 9 }],
+    });
+    expect(generateSegmentRules).toHaveBeenCalledTimes(3);
+    expect(generateSegmentRules.mock.calls[1][1]).toEqual({
+      output: 'not json',
+      errors: [{ path: 'rules', msg: 'answer was not valid JSON' }],
+    });
+    expect(generateSegmentRules.mock.calls[2][1].errors).toEqual([
+      expect.objectContaining({ path: 'rules.conditions.0.field' }),
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+jest.mock('../src/index', () => ({ prisma: {} }));
+jest.mock('../src/utils/segmentEvaluator', () => {
+  class SegmentRuleError extends Error {
+    constructor(errors) {
+      super('Invalid segment rules');
+      this.errors = errors;
+    }
+  }
+  return { SegmentRuleError, evaluateSegmentRules: jest.fn() };
+});
+
+const { prisma } = require('../src/index');
+const { SegmentRuleError, evaluateSegmentRules } = require('../src/utils/segmentEvaluator');
+const {
+  addSegmentMembers,
+  materializeSegment,
+  syncDynamicSegments,
+} = require('../src/utils/segmentMembership');
+
+const rules = { field: 'totalSpend', operator: 'gt', value: 100 };
+
+// A client whose segment currently has `memberIds` as its members
+const client = (memberIds = []) => ({
+  customerSegment: {
+    findMany: jest.fn().mockResolvedValue(memberIds.map((customerId) => ({ customerId }))),
+    createMany: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  segmentMembershipEvent: { createMany: jest.fn() },
+});
+
+const events = (db, type) =>
+  db.segmentMembershipEvent.createMany.mock.calls
+    .flatMap(([{ data }]) => data)
+    .filter((event) => event.type === type)
+    .map(({ customerId, segmentId }) => `${segmentId} ${customerId}`);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  Object.assign(prisma, client());
+  prisma.$transaction = jest.fn((writes) => Promise.all(writes));
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('addSegmentMembers', () => {
+  it('adds customers in batches and records a JOINED event for each', async () => {
+    const customerIds = Array.from({ length: 150 }, (_, i) => `customer-${i}`);
+
+    await addSegmentMembers('segment-1', customerIds);
+    expect(prisma.customerSegment.createMany).toHaveBeenCalledTimes(2);
+    expect(prisma.customerSegment.createMany.mock.calls[1][0]).toEqual({
+      data: customerIds.slice(100).map((customerId) => ({ customerId, segmentId: 'segment-1' })),
+      skipDuplicates: true,
+    });
+    expect(events(prisma, 'JOINED')).toHaveLength(150);
+  });
+});
+
+describe('materializeSegment', () => {
+  it('replaces the non-deleted members with the matching customers, all on the given client', async () => {
+    evaluateSegmentRules.mockResolvedValue(['a', 'b']);
+    const tx = client(['b', 'c']);
+
+    expect(await materializeSegment('segment-1', rules, tx)).toEqual({ added: 1, removed: 1 });
+    expect(evaluateSegmentRules).toHaveBeenCalledWith(rules, {}, tx);
+    expect(tx.customerSegment.findMany).toHaveBeenCalledWith({
+      where: { segmentId: 'segment-1', customer: { deletedAt: null } },
+      select: { customerId: true },
+    });
+    expect(events(tx, 'JOINED')).toEqual(['segment-1 a']);
+    expect(tx.customerSegment.deleteMany).toHaveBeenCalledWith({
+      where: { segmentId: 'segment-1', customerId: { in: ['c'] } },
+    });
+    expect(events(tx, 'LEFT')).toEqual(['segment-1 c']);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('syncDynamicSegments', () => {
+  const setUp = (segments, membersBySegment) => {
+    prisma.segment = { findMany: jest.fn().mockResolvedValue(segments) };
+    prisma.customerSegment.findMany.mockImplementation(async ({ where }) =>
+      (membersBySegment[where.segmentId] || [])
+        .filter((customerId) => where.customerId.in.includes(customerId))
+        .map((customerId) => ({ customerId })));
+  };
+
+  it('moves the given customers in or out of every dynamic segment', async () => {
+    setUp(
+      [{ id: 'vip', rules }, { id: 'lapsed', rules }],
+      { vip: ['a', 'someone-else'], lapsed: ['b'] }
+    );
+    evaluateSegmentRules.mockResolvedValueOnce(['b']).mockResolvedValueOnce(['a', 'b']);
+
+    expect(await syncDynamicSegments(['a', 'b'])).toEqual({ joined: 2, left: 1 });
+    expect(prisma.segment.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { isDynamic: true } }));
+    expect(evaluateSegmentRules).toHaveBeenCalledWith(rules, { customerIds: ['a', 'b'] });
+    expect(prisma.customerSegment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { segmentId: 'vip', customerId: { in: ['a', 'b'] }, customer: { deletedAt: null } },
+    }));
+    expect(events(prisma, 'JOINED')).toEqual(['vip b', 'lapsed a']);
+    expect(events(prisma, 'LEFT')).toEqual(['vip a']);
+    expect(prisma.customerSegment.deleteMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('writes nothing for customers whose memberships already match', async () => {
+    setUp([{ id: 'vip', rules }], { vip: ['a'] });
+    evaluateSegmentRules.mockResolvedValue(['a']);
+
+    expect(await syncDynamicSegments(['a'])).toEqual({ joined: 0, left: 0 });
+    expect(prisma.customerSegment.createMany).not.toHaveBeenCalled();
+    expect(prisma.customerSegment.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('leaves the members of a segment with invalid rules alone', async () => {
+    setUp([{ id: 'broken', rules: {} }, { id: 'vip', rules }], { broken: ['a'] });
+    evaluateSegmentRules
+      .mockRejectedValueOnce(new SegmentRuleError([{ path: 'rules.field', msg: 'is required' }]))
+      .mockResolvedValueOnce(['a']);
+
+    expect(await syncDynamicSegments(['a'])).toEqual({ joined: 1, left: 0 });
+    expect(events(prisma, 'JOINED')).toEqual(['vip a']);
+    expect(prisma.customerSegment.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('fails on other errors so the batch is retried', async () => {
+    setUp([{ id: 'vip', rules }], {});
+    evaluateSegmentRules.mockRejectedValue(new Error('Connection lost'));
+
+    await expect(syncDynamicSegments(['a'])).rejects.toThrow('Connection lost');
+  });
+});
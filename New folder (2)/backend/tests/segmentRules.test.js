@@ -0,0 +1,82 @@
+const {
+  validate,
+  segmentRules,
+  MAX_RULE_CONDITIONS,
+  MAX_RULE_DEPTH,
+} = require('../../shared/schema');
+
+const spend = { field: 'totalSpend', operator: 'gt', value: 100 };
+
+// `depth` groups, each wrapping the next, around a single condition
+const nested = (depth, type = 'AND') =>
+  depth === 0 ? spend : { type, conditions: [nested(depth - 1, type)] };
+
+const errorsOf = (rules) => validate(segmentRules, rules).errors;
+
+describe('segmentRules', () => {
+  it('accepts a single condition', () => {
+    expect(validate(segmentRules, spend)).toEqual({ value: spend, errors: [] });
+  });
+
+  it('accepts AND, OR and NOT groups nested inside each other', () => {
+    const rules = {
+      type: 'OR',
+      conditions: [
+        spend,
+        { type: 'NOT', conditions: [{ type: 'AND', conditions: [spend, { field: 'name', operator: 'contains', value: 'a' }] }] },
+      ],
+    };
+
+    expect(validate(segmentRules, rules)).toEqual({ value: rules, errors: [] });
+  });
+
+  it(`accepts groups nested ${MAX_RULE_DEPTH} levels deep`, () => {
+    expect(errorsOf(nested(MAX_RULE_DEPTH, 'NOT'))).toEqual([]);
+  });
+
+  it('rejects groups nested any deeper at the group that is too deep', () => {
+    expect(errorsOf(nested(MAX_RULE_DEPTH + 1))).toEqual([{
+      path: Array(MAX_RULE_DEPTH).fill('conditions.0').join('.'),
+      msg: `groups can be nested at most ${MAX_RULE_DEPTH} levels deep`,
+    }]);
+  });
+
+  it(`rejects more than ${MAX_RULE_CONDITIONS} conditions across all groups`, () => {
+    const half = Array(MAX_RULE_CONDITIONS / 2).fill(spend);
+    const rules = { type: 'AND', conditions: [{ type: 'OR', conditions: half }, { type: 'NOT', conditions: half }] };
+
+    expect(errorsOf(rules)).toEqual([]);
+    rules.conditions.push(spend);
+    expect(errorsOf(rules)).toEqual([{ path: '', msg: `can contain at most ${MAX_RULE_CONDITIONS} conditions` }]);
+  });
+
+  it('rejects unknown group types and empty groups', () => {
+    expect(errorsOf({ type: 'XOR', conditions: [] })).toEqual([
+      { path: 'type', msg: 'must be one of AND, OR, NOT' },
+      { path: 'conditions', msg: 'must contain at least 1 item(s)' },
+    ]);
+  });
+
+  it('reports each bad condition at its own path', () => {
+    const rules = {
+      type: 'NOT',
+      conditions: [
+        spend,
+        {
+          type: 'OR',
+          conditions: [
+            { field: 'age', operator: 'gt', value: 1 },
+            { field: 'name', operator: 'gt', value: 'a' },
+            { field: 'createdAt', operator: 'between', value: '2026-02-01,2026-01-01' },
+          ],
+        },
+      ],
+    };
+
+    expect(errorsOf(rules).map(({ path }) => path)).toEqual([
+      'conditions.1.conditions.0.field',
+      'conditions.1.conditions.1.operator',
+      'conditions.1.conditions.2.value',
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+const { compileTemplate, templateErrors } = require('../../shared/template');
+
+const customer = {
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  phone: null,
+  totalSpend: 1234.5,
+  visitCount: 12,
+  lastVisit: '2026-04-01T10:00:00Z',
+};
+const NOW = new Date('2026-04-11T09:00:00Z');
+
+const render = (template, values = {}) => compileTemplate(template)({ ...customer, ...values }, NOW);
+
+describe('compileTemplate', () => {
+  it('fills in fields', () => {
+    expect(render('Hi {{firstName}} ({{email}}), {{visitCount}} visits')).toBe(
+      'Hi Ada (ada@example.com), 12 visits'
+    );
+    expect(render('{{daysSinceLastVisit}} days')).toBe('9 days');
+  });
+
+  it('applies filters left to right', () => {
+    expect(render('{{totalSpend | money}}')).toBe('1,234.50');
+    expect(render('{{lastVisit | date}}')).toBe('Apr 1, 2026');
+    expect(render('{{name | upper}}')).toBe('ADA LOVELACE');
+    expect(render('{{phone | default: "no phone"}}')).toBe('no phone');
+    expect(render('{{lastVisit | date | default: "never"}}', { lastVisit: null })).toBe('never');
+  });
+
+  it('renders empty fields as nothing', () => {
+    expect(render('[{{phone}}][{{daysSinceLastVisit}}]', { lastVisit: null })).toBe('[][]');
+  });
+
+  it('picks #if branches, nested', () => {
+    const template = '{{#if visitCount >= 10}}regular{{#if phone}} with phone{{/if}}{{else}}new{{/if}}';
+
+    expect(render(template)).toBe('regular');
+    expect(render(template, { phone: '555' })).toBe('regular with phone');
+    expect(render(template, { visitCount: 3 })).toBe('new');
+  });
+
+  it('treats empty and zero fields as false, and comparisons with them as false', () => {
+    expect(render('{{#if !phone}}no phone{{/if}}')).toBe('no phone');
+    expect(render('{{#if visitCount}}yes{{else}}no{{/if}}', { visitCount: 0 })).toBe('no');
+    expect(render('{{#if phone != "555"}}other{{else}}none{{/if}}')).toBe('none');
+    expect(render('{{#if name == "Ada Lovelace"}}hi Ada{{/if}}')).toBe('hi Ada');
+  });
+
+  it('throws for templates with mistakes', () => {
+    expect(() => compileTemplate('Hi {{nickname}}')).toThrow(/Invalid message template: Unknown field "nickname"/);
+  });
+});
+
+describe('templateErrors', () => {
+  it('is empty for a valid template', () => {
+    expect(templateErrors('Hi {{firstName | default: "there"}}{{#if totalSpend > 100}}!{{/if}}')).toEqual([]);
+  });
+
+  it('reports every mistake', () => {
+    expect(templateErrors('{{nickname}} {{totalSpend | upper}} {{name | shout}}')).toEqual([
+      expect.stringMatching(/^Unknown field "nickname" in \{\{nickname\}\}/),
+      'Filter "upper" in {{totalSpend | upper}} can\'t be used on number field "totalSpend"',
+      expect.stringMatching(/^Unknown filter "shout"/),
+    ]);
+  });
+
+  it('checks filter arguments', () => {
+    expect(templateErrors('{{name | default}}')).toEqual([
+      'Filter "default" in {{name | default}} needs a quoted value, e.g. default: "there"',
+    ]);
+    expect(templateErrors('{{name | upper: "x"}}')).toEqual([
+      'Filter "upper" in {{name | upper: "x"}} doesn\'t take a value',
+    ]);
+  });
+
+  it('checks conditions', () => {
+    expect(templateErrors('{{#if visitCount > "5"}}{{/if}}')).toEqual([
+      '"visitCount" can\'t be compared with "5" in {{#if visitCount > "5"}}',
+    ]);
+    expect(templateErrors('{{#if !visitCount > 5}}{{/if}}')).toEqual([
+      'Use != rather than ! with a comparison in {{#if !visitCount > 5}}',
+    ]);
+    expect(templateErrors('{{#if lastVisit > 5}}{{/if}}')).toHaveLength(1);
+  });
+
+  it('checks blocks are balanced', () => {
+    expect(templateErrors('{{#if phone}}call us')).toEqual(['1 {{#if}} block(s) not closed with {{/if}}']);
+    expect(templateErrors('{{else}}')).toEqual(['{{else}} outside an {{#if}} block']);
+    expect(templateErrors('{{/if}}')).toEqual(['{{/if}} without an {{#if}}']);
+    expect(templateErrors('Hi {{name')).toEqual(['Unmatched "{{" or "}}"']);
+  });
+});
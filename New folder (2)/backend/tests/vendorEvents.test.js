@@ -0,0 +1,259 @@
+jest.mock('../src/index', () => ({ prisma: {}, redis: { xadd: jest.fn() } }));
+jest.mock('../src/utils/campaignDelivery', () => ({ finalizeCampaign: jest.fn() }));
+
+const { prisma, redis } = require('../src/index');
+const { finalizeCampaign } = require('../src/utils/campaignDelivery');
+const {
+  receiveDeliveryReceipts,
+  receiveVendorEvents,
+  replayVendorEvents,
+} = require('../src/utils/vendorEvents');
+
+const MESSAGE_ID = '0b6a8f5e-6a3f-4a53-9a3e-2f1d6c1f7a10';
+const OWNER_ID = 'user-1';
+
+// In-memory communication logs and vendor events, honouring the filters
+// vendorEvents.js writes with
+let logs;
+let events;
+
+const DISPATCHED_AT = new Date('2026-05-04T08:00:00.000Z');
+
+const matchesGuard = (log, { dispatchedAt, OR }) =>
+  (!dispatchedAt || log.dispatchedAt !== null) && OR.some((clause) =>
+    clause.status === 'PENDING'
+      ? log.status === 'PENDING'
+      : clause.status.in.includes(log.status) && log.vendorEventAt < clause.vendorEventAt.lt);
+
+const setUpStore = () => {
+  logs = new Map([[MESSAGE_ID, { campaignId: 'campaign-1', status: 'PENDING', dispatchedAt: DISPATCHED_AT, vendorEventAt: null }]]);
+  events = [];
+
+  prisma.communicationLog = {
+    findUnique: jest.fn(async ({ where }) => logs.get(where.id) ?? null),
+    updateMany: jest.fn(async ({ where, data }) => {
+      const log = logs.get(where.id);
+      if (!log || !matchesGuard(log, where)) return { count: 0 };
+      Object.assign(log, data);
+      return { count: 1 };
+    }),
+    // Every message belongs to a campaign of OWNER_ID
+    findMany: jest.fn(async ({ where }) => (where.campaign.createdById === OWNER_ID
+      ? where.id.in.filter((id) => logs.has(id)).map((id) => ({ id }))
+      : [])),
+  };
+  prisma.vendorEvent = {
+    create: jest.fn(async ({ data }) => {
+      if (events.some((e) => e.vendor === data.vendor && e.eventId === data.eventId)) {
+        throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+      }
+      const record = { id: `record-${events.length + 1}`, outcome: null, ...data };
+      events.push(record);
+      return record;
+    }),
+    updateMany: jest.fn(async ({ where, data }) => {
+      const record = events.find((e) =>
+        e.vendor === where.vendor && e.eventId === where.eventId && e.outcome === where.outcome);
+      if (!record) return { count: 0 };
+      Object.assign(record, data);
+      return { count: 1 };
+    }),
+    findUnique: jest.fn(async ({ where: { vendor_eventId: { vendor, eventId } } }) =>
+      events.find((e) => e.vendor === vendor && e.eventId === eventId)),
+    update: jest.fn(async ({ where, data }) => Object.assign(events.find((e) => e.id === where.id), data)),
+    // One page of everything the vendor sent
+    findMany: jest.fn(async ({ where, cursor }) => (cursor ? [] : events.filter((e) => e.vendor === where.vendor))),
+  };
+};
+
+const event = (id, status, occurredAt, extra = {}) => ({
+  id,
+  communicationId: MESSAGE_ID,
+  status,
+  occurredAt,
+  ...extra,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  setUpStore();
+});
+
+describe('receiveVendorEvents', () => {
+  it('applies a report, recording when it happened', async () => {
+    const outcomes = await receiveVendorEvents('acme', [event('e1', 'SENT', '2026-05-04T09:00:00.000Z')]);
+
+    expect(outcomes).toEqual({ APPLIED: 1, STALE: 0, UNKNOWN: 0, ERROR: 0, DUPLICATE: 0 });
+    expect(logs.get(MESSAGE_ID)).toEqual({
+      campaignId: 'campaign-1',
+      status: 'SENT',
+      dispatchedAt: DISPATCHED_AT,
+      errorMessage: null,
+      sentAt: new Date('2026-05-04T09:00:00.000Z'),
+      vendorEventAt: new Date('2026-05-04T09:00:00.000Z'),
+    });
+    expect(redis.xadd).toHaveBeenCalledTimes(1);
+    expect(finalizeCampaign).toHaveBeenCalledWith('campaign-1');
+    expect(events[0]).toEqual(expect.objectContaining({ eventId: 'e1', outcome: 'APPLIED', campaignId: 'campaign-1' }));
+  });
+
+  it('ignores an event id it has seen before', async () => {
+    await receiveVendorEvents('acme', [event('e1', 'FAILED', '2026-05-04T09:00:00.000Z')]);
+    const outcomes = await receiveVendorEvents('acme', [event('e1', 'FAILED', '2026-05-04T09:00:00.000Z')]);
+
+    expect(outcomes.DUPLICATE).toBe(1);
+    expect(outcomes.APPLIED).toBe(0);
+    expect(prisma.communicationLog.updateMany).toHaveBeenCalledTimes(1);
+    expect(finalizeCampaign).toHaveBeenCalledTimes(1);
+  });
+
+  it('keys duplicates by vendor', async () => {
+    await receiveVendorEvents('acme', [event('e1', 'SENT', '2026-05-04T09:00:00.000Z')]);
+    const outcomes = await receiveVendorEvents('other', [event('e1', 'FAILED', '2026-05-04T09:01:00.000Z')]);
+
+    expect(outcomes.APPLIED).toBe(1);
+    expect(logs.get(MESSAGE_ID).status).toBe('FAILED');
+  });
+
+  it('applies the events of one call in the order they happened', async () => {
+    const outcomes = await receiveVendorEvents('acme', [
+      event('e2', 'FAILED', '2026-05-04T09:05:00.000Z', { errorMessage: 'Bounced' }),
+      event('e1', 'SENT', '2026-05-04T09:00:00.000Z'),
+    ]);
+
+    expect(outcomes.APPLIED).toBe(2);
+    expect(logs.get(MESSAGE_ID)).toEqual(expect.objectContaining({ status: 'FAILED', errorMessage: 'Bounced' }));
+  });
+
+  it('does not let an older report undo a newer one', async () => {
+    await receiveVendorEvents('acme', [event('e2', 'FAILED', '2026-05-04T09:05:00.000Z')]);
+    const outcomes = await receiveVendorEvents('acme', [event('e1', 'SENT', '2026-05-04T09:00:00.000Z')]);
+
+    expect(outcomes.STALE).toBe(1);
+    expect(logs.get(MESSAGE_ID).status).toBe('FAILED');
+    expect(events[1].outcome).toBe('STALE');
+  });
+
+  it('never moves a message back to PENDING', async () => {
+    await receiveVendorEvents('acme', [event('e1', 'SENT', '2026-05-04T09:00:00.000Z')]);
+    const outcomes = await receiveVendorEvents('acme', [event('e2', 'PENDING', '2026-05-04T09:10:00.000Z')]);
+
+    expect(outcomes.STALE).toBe(1);
+    expect(logs.get(MESSAGE_ID).status).toBe('SENT');
+  });
+
+  it('leaves SKIPPED messages alone', async () => {
+    logs.get(MESSAGE_ID).status = 'SKIPPED';
+    const outcomes = await receiveVendorEvents('acme', [event('e1', 'SENT', '2026-05-04T09:00:00.000Z')]);
+
+    expect(outcomes.STALE).toBe(1);
+    expect(logs.get(MESSAGE_ID).status).toBe('SKIPPED');
+  });
+
+  it('ignores reports for messages not handed to the vendor yet', async () => {
+    logs.get(MESSAGE_ID).dispatchedAt = null;
+    const outcomes = await receiveVendorEvents('acme', [event('e1', 'SENT', '2026-05-04T09:00:00.000Z')]);
+
+    expect(outcomes.STALE).toBe(1);
+    expect(logs.get(MESSAGE_ID).status).toBe('PENDING');
+  });
+
+  it('reports events for unknown messages', async () => {
+    const outcomes = await receiveVendorEvents('acme', [
+      event('e1', 'SENT', '2026-05-04T09:00:00.000Z', { communicationId: 'a0e8d1b4-3c1e-4a57-8a0f-52b8a3d8c0f1' }),
+    ]);
+
+    expect(outcomes.UNKNOWN).toBe(1);
+    expect(finalizeCampaign).not.toHaveBeenCalled();
+  });
+
+  it('applies an event again when it failed to apply the first time', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    prisma.communicationLog.findUnique.mockRejectedValueOnce(new Error('Connection lost'));
+
+    const first = await receiveVendorEvents('acme', [event('e1', 'SENT', '2026-05-04T09:00:00.000Z')]);
+    const retried = await receiveVendorEvents('acme', [event('e1', 'SENT', '2026-05-04T09:00:00.000Z')]);
+
+    expect(first.ERROR).toBe(1);
+    expect(retried.APPLIED).toBe(1);
+    expect(logs.get(MESSAGE_ID).status).toBe('SENT');
+    console.error.mockRestore();
+  });
+});
+
+describe('receiveDeliveryReceipts', () => {
+  it('records receipts as events of the receipt vendor', async () => {
+    const outcomes = await receiveDeliveryReceipts([{ communicationId: MESSAGE_ID, status: 'SENT' }]);
+
+    expect(outcomes.APPLIED).toBe(1);
+    expect(events).toEqual([expect.objectContaining({
+      vendor: 'receipt',
+      eventId: `${MESSAGE_ID}:SENT`,
+      status: 'SENT',
+      outcome: 'APPLIED',
+    })]);
+    expect(logs.get(MESSAGE_ID).vendorEventAt).toEqual(events[0].occurredAt);
+  });
+
+  it('lets the last receipt for a message win', async () => {
+    const outcomes = await receiveDeliveryReceipts([
+      { communicationId: MESSAGE_ID, status: 'SENT' },
+      { communicationId: MESSAGE_ID, status: 'FAILED', errorMessage: 'Bounced' },
+    ]);
+
+    expect(outcomes.APPLIED).toBe(2);
+    expect(logs.get(MESSAGE_ID).status).toBe('FAILED');
+  });
+
+  it('ignores a receipt sent again', async () => {
+    await receiveDeliveryReceipts([{ communicationId: MESSAGE_ID, status: 'SENT' }]);
+    const outcomes = await receiveDeliveryReceipts([{ communicationId: MESSAGE_ID, status: 'SENT' }]);
+
+    expect(outcomes.DUPLICATE).toBe(1);
+    expect(events).toHaveLength(1);
+  });
+
+  it('does not overwrite SKIPPED messages', async () => {
+    logs.get(MESSAGE_ID).status = 'SKIPPED';
+    const outcomes = await receiveDeliveryReceipts([{ communicationId: MESSAGE_ID, status: 'FAILED' }]);
+
+    expect(outcomes.STALE).toBe(1);
+    expect(logs.get(MESSAGE_ID).status).toBe('SKIPPED');
+  });
+});
+
+describe('replayVendorEvents', () => {
+  const WINDOW = { since: '2026-05-04T00:00:00.000Z' };
+
+  it('applies events that failed before, keeping the outcome they had', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    prisma.communicationLog.findUnique.mockRejectedValueOnce(new Error('Connection lost'));
+    await receiveVendorEvents('acme', [event('e1', 'SENT', '2026-05-04T09:00:00.000Z')]);
+    console.error.mockRestore();
+
+    const outcomes = await replayVendorEvents('acme', WINDOW, OWNER_ID);
+
+    expect(outcomes).toEqual({ APPLIED: 1, STALE: 0, UNKNOWN: 0, ERROR: 0 });
+    expect(logs.get(MESSAGE_ID).status).toBe('SENT');
+    expect(events[0]).toEqual(expect.objectContaining({
+      outcome: 'ERROR',
+      replayOutcome: 'APPLIED',
+      replayedAt: expect.any(Date),
+    }));
+  });
+
+  it('changes nothing for events already applied', async () => {
+    await receiveVendorEvents('acme', [event('e1', 'SENT', '2026-05-04T09:00:00.000Z')]);
+    const { processedAt } = events[0];
+
+    expect((await replayVendorEvents('acme', WINDOW, OWNER_ID)).STALE).toBe(1);
+    expect(events[0]).toEqual(expect.objectContaining({ outcome: 'APPLIED', processedAt, replayOutcome: 'STALE' }));
+  });
+
+  it("leaves out messages of other users' campaigns", async () => {
+    await receiveVendorEvents('acme', [event('e1', 'SENT', '2026-05-04T09:00:00.000Z')]);
+
+    expect(await replayVendorEvents('acme', WINDOW, 'user-2')).toEqual({ APPLIED: 0, STALE: 0, UNKNOWN: 0, ERROR: 0 });
+    expect(events[0].replayOutcome).toBeUndefined();
+  });
+});
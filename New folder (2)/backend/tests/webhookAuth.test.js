@@ -0,0 +1,98 @@
+jest.mock('../src/index', () => ({ prisma: {} }));
+
+process.env.DELIVERY_WEBHOOK_SECRET_ACME_SMS = 'acme-secret';
+
+const express = require('express');
+const request = require('supertest');
+const {
+  DELIVERY_CALLBACK_SECRET,
+  authenticateVendorWebhook,
+  signVendorWebhook,
+  vendorWebhookSecret,
+} = require('../src/middleware/auth');
+
+const app = express();
+app.use(express.json({
+  verify: (req, res, buf) => {
+    req.rawBody = buf;
+  },
+}));
+app.post('/webhooks/:vendor', authenticateVendorWebhook, (req, res) => res.json({ ok: true }));
+
+const body = JSON.stringify({ events: [{ id: 'e1', status: 'SENT' }] });
+const now = () => Math.floor(Date.now() / 1000);
+
+const send = (vendor, { timestamp = now(), signature, payload = body } = {}) =>
+  request(app)
+    .post(`/webhooks/${vendor}`)
+    .set('Content-Type', 'application/json')
+    .set('X-Webhook-Timestamp', String(timestamp))
+    .set('X-Webhook-Signature', signature ?? signVendorWebhook('acme-secret', timestamp, payload))
+    .send(payload);
+
+describe('signVendorWebhook', () => {
+  it('is the hex HMAC-SHA256 of "<timestamp>.<body>"', () => {
+    expect(signVendorWebhook('secret', 1700000000, '{}')).toBe(
+      'sha256=b8569b78799ff9e3cbff0fc2d63a33a2b57f3282abd07c37ae5e8e7d79a5f163'
+    );
+    expect(signVendorWebhook('secret', '1700000000', Buffer.from('{}'))).toBe(
+      signVendorWebhook('secret', 1700000000, '{}')
+    );
+  });
+});
+
+describe('vendorWebhookSecret', () => {
+  it('reads DELIVERY_WEBHOOK_SECRET_<VENDOR>', () => {
+    expect(vendorWebhookSecret('acme-sms')).toBe('acme-secret');
+    expect(vendorWebhookSecret('unknown')).toBeNull();
+  });
+
+  it('falls back to the delivery callback secret for the dummy vendor', () => {
+    expect(vendorWebhookSecret('dummy')).toBe(DELIVERY_CALLBACK_SECRET);
+  });
+});
+
+describe('authenticateVendorWebhook', () => {
+  it('lets in a correctly signed, fresh webhook', async () => {
+    const res = await send('acme-sms');
+    expect(res.status).toBe(200);
+  });
+
+  it('rejects vendors without a secret', async () => {
+    const res = await send('unknown');
+    expect(res.status).toBe(401);
+    expect(res.body.message).toBe('No webhook secret configured for vendor unknown');
+  });
+
+  it('rejects a body changed after signing', async () => {
+    const timestamp = now();
+    const res = await send('acme-sms', {
+      timestamp,
+      signature: signVendorWebhook('acme-secret', timestamp, body),
+      payload: body.replace('SENT', 'FAILED'),
+    });
+    expect(res.status).toBe(401);
+    expect(res.body.message).toBe('Invalid webhook signature');
+  });
+
+  it('rejects a signature made with another secret', async () => {
+    const timestamp = now();
+    const res = await send('acme-sms', { timestamp, signature: signVendorWebhook('wrong', timestamp, body) });
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects a signature for another timestamp', async () => {
+    const res = await send('acme-sms', { signature: signVendorWebhook('acme-secret', now() - 10, body) });
+    expect(res.status).toBe(401);
+  });
+
+  it.each([
+    ['too old', now() - 301],
+    ['too far ahead', now() + 301],
+    ['not a number', 'yesterday'],
+  ])('rejects a timestamp %s', async (_, timestamp) => {
+    const res = await send('acme-sms', { timestamp });
+    expect(res.status).toBe(401);
+    expect(res.body.message).toBe('Webhook timestamp missing or outside the allowed window');
+  });
+});
@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Allows importing the shared modules in ../shared
+    externalDir: true,
+  },
   images: {
     domains: ['lh3.googleusercontent.com'], // For Google OAuth profile pictures
   },
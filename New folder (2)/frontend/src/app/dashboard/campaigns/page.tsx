@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -21,80 +21,262 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
-import { Play, Pause, StopCircle } from "lucide-react";
 import Script from "next/script";
+import { ErrorState, LoadingState } from "@/components/query-status";
+import {
+  CampaignSchedulePicker,
+  EMPTY_SCHEDULE,
+  ScheduleDraft,
+  describeRecurrence,
+  formatUtc,
+  toScheduleInput,
+} from "@/components/campaign-schedule-picker";
+import {
+  CHANNEL_LABELS,
+  CampaignChannelEditor,
+  ChannelContent,
+  EMPTY_CHANNEL_CONTENT,
+  toChannelInput,
+} from "@/components/campaign-channel-editor";
+import {
+  CampaignVariantsEditor,
+  EMPTY_VARIANTS,
+  VariantsDraft,
+  toVariantsInput,
+} from "@/components/campaign-variants-editor";
+import { Campaign, CampaignStatus, campaignsApi } from "@/lib/api";
+import { CAMPAIGN_STATUSES, CAMPAIGN_STATUS_TRANSITIONS } from "@shared/schema";
+import {
+  useApiMutation,
+  useCampaigns,
+  useChannelStats,
+  useDeliveryStats,
+  useSegments,
+} from "@/lib/hooks";
 
-interface Campaign {
-  id: string;
-  name: string;
-  description: string;
-  deliveryStatus: string;
-  status: "draft" | "active" | "paused" | "completed";
-  metrics?: {
-    sent: number;
-    opened: number;
-    clicked: number;
-  };
+const STATUS_COLORS: Record<CampaignStatus, string> = {
+  DRAFT: "text-gray-500",
+  SCHEDULED: "text-yellow-500",
+  RUNNING: "text-green-500",
+  PAUSED: "text-orange-500",
+  COMPLETED: "text-blue-500",
+  CANCELLED: "text-gray-400",
+  FAILED: "text-red-500",
+};
+
+const canBecome = (campaign: Campaign, status: CampaignStatus) =>
+  CAMPAIGN_STATUS_TRANSITIONS[campaign.status].includes(status);
+
+function DeliveryRate({ campaignId }: { campaignId: string }) {
+  const { data, loading } = useDeliveryStats(campaignId);
+  if (loading || !data) return null;
+  return (
+    <p className="text-gray-600 mt-2">
+      Delivery Rate:{" "}
+      <span className={data.failed > 0 ? "text-yellow-500" : "text-green-500"}>
+        {data.deliveryRate.toFixed(1)}%
+      </span>
+      {data.sent > 0 && ` · Open Rate: ${data.openRate.toFixed(1)}% · Click Rate: ${data.clickRate.toFixed(1)}%`}
+    </p>
+  );
+}
+
+const WINNER_METRIC_LABELS = { DELIVERY: "delivery", OPEN: "open", CLICK: "click" } as const;
+
+function VariantResults({ campaign }: { campaign: Campaign }) {
+  if (!campaign.variants?.length) return null;
+  const tested = campaign.testPercent !== null && campaign.winnerMetric !== null;
+  return (
+    <div className="mt-4">
+      {tested && (
+        <p className="text-sm text-gray-600 mb-2">
+          A/B test on {campaign.testPercent}% of recipients, winner by {WINNER_METRIC_LABELS[campaign.winnerMetric!]} rate
+          {campaign.winnerVariantId
+            ? " · winner sent to the rest"
+            : campaign.testEndsAt && ` · picked after ${formatUtc(campaign.testEndsAt)}`}
+        </p>
+      )}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="font-normal">Variant</th>
+            <th className="font-normal">Split</th>
+            <th className="font-normal">Sent</th>
+            <th className="font-normal">Delivered</th>
+            <th className="font-normal">Opened</th>
+            <th className="font-normal">Clicked</th>
+          </tr>
+        </thead>
+        <tbody>
+          {campaign.variants.map((variant) => (
+            <tr key={variant.id} title={variant.subject ?? variant.message}>
+              <td>
+                {variant.label}
+                {variant.winner && <span className="ml-2 text-green-600 font-medium">Winner</span>}
+              </td>
+              <td>{variant.weight}%</td>
+              <td>{variant.stats.sent ?? 0}</td>
+              <td>{variant.deliveryRate.toFixed(1)}%</td>
+              <td>{campaign.channel === "EMAIL" ? `${variant.openRate.toFixed(1)}%` : "—"}</td>
+              <td>{variant.clickRate.toFixed(1)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ChannelStatsSummary() {
+  const { data } = useChannelStats();
+  if (!data) return null;
+  return (
+    <div className="mb-6 grid gap-4 md:grid-cols-3">
+      {data.map((stats) => (
+        <div key={stats.channel} className="border rounded-lg p-4">
+          <div className="flex items-baseline justify-between">
+            <h2 className="font-semibold">{CHANNEL_LABELS[stats.channel]}</h2>
+            <span className="text-sm text-muted-foreground">
+              {stats.campaigns} campaign{stats.campaigns === 1 ? "" : "s"}
+            </span>
+          </div>
+          <p className="text-2xl font-bold mt-2">{stats.deliveryRate.toFixed(1)}%</p>
+          <p className="text-xs text-muted-foreground">delivered of {stats.total - stats.skipped} attempted</p>
+          <p className="text-sm text-gray-600 mt-2">
+            {stats.sent} sent · {stats.failed} failed · {stats.pending} pending · {stats.skipped} skipped
+          </p>
+          <p className="text-sm text-gray-600">
+            {stats.opens.unique} opened · {stats.clicks.unique} clicked
+          </p>
+        </div>
+      ))}
+    </div>
+  );
 }
 
 export default function CampaignsPage() {
-  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const { data: campaigns = [], loading, error, retry } = useCampaigns();
+  const { data: segments = [] } = useSegments();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
-  const [status, setStatus] = useState<Campaign["status"]>("draft");
+  const [segmentId, setSegmentId] = useState("");
+  const [content, setContent] = useState<ChannelContent>(EMPTY_CHANNEL_CONTENT);
+  const [variants, setVariants] = useState<VariantsDraft>(EMPTY_VARIANTS);
+  const [schedule, setSchedule] = useState<ScheduleDraft>(EMPTY_SCHEDULE);
   const [filterStatus, setFilterStatus] = useState<string>("all");
+  const [reschedulingCampaign, setReschedulingCampaign] = useState<Campaign | null>(null);
+  const [newSchedule, setNewSchedule] = useState<ScheduleDraft>({ ...EMPTY_SCHEDULE, mode: "once" });
 
-  useEffect(() => {
-    const stored = localStorage.getItem("campaigns");
-    if (stored) {
-      const parsed = JSON.parse(stored);
-      const migrated = parsed.map((c: any) => ({
-        ...c,
-        metrics: c.metrics ?? { sent: 0, opened: 0, clicked: 0 },
-      }));
-      setCampaigns(migrated);
-      localStorage.setItem("campaigns", JSON.stringify(migrated));
-    }
-  }, []);
-
-  const simulateDeliveryStatus = () => Math.random() < 0.9 ? "SENT" : "NOT RECEIVED";
-
-  // Simulate random metrics for Sent, Opened, and Clicked
-  const simulateMetrics = () => ({
-    sent: Math.floor(Math.random() * 100),
-    opened: Math.floor(Math.random() * 50),
-    clicked: Math.floor(Math.random() * 20),
+  const createCampaign = useApiMutation(campaignsApi.create, {
+    successMessage: "Campaign created",
   });
+  const rescheduleCampaign = useApiMutation(campaignsApi.reschedule, {
+    successMessage: "Campaign rescheduled",
+  });
+  const unscheduleCampaign = useApiMutation(campaignsApi.unschedule, {
+    successMessage: "Campaign moved back to drafts",
+  });
+  const launchCampaign = useApiMutation(campaignsApi.launch, {
+    successMessage: "Campaign launched",
+  });
+  const pauseCampaign = useApiMutation(campaignsApi.pause, {
+    successMessage: "Campaign paused",
+  });
+  const resumeCampaign = useApiMutation(campaignsApi.resume, {
+    successMessage: "Campaign resumed",
+  });
+  const cancelCampaign = useApiMutation(campaignsApi.cancel, {
+    successMessage: "Campaign cancelled",
+  });
+  const changingStatus =
+    launchCampaign.loading || pauseCampaign.loading || resumeCampaign.loading || cancelCampaign.loading;
 
-  const handleCreateCampaign = () => {
-    if (!name || !description) {
-      alert("Please fill in all fields.");
+  // Unscheduled campaigns are saved as drafts and sent straight away
+  // unless `asDraft`
+  const handleCreateCampaign = async (asDraft = false) => {
+    if (!name || !segmentId) {
+      alert("Please fill in name and segment.");
+      return;
+    }
+    const channelInput = toChannelInput(content);
+    if ("error" in channelInput) {
+      alert(channelInput.error);
+      return;
+    }
+    const variantsInput = toVariantsInput(variants, content);
+    if ("error" in variantsInput) {
+      alert(variantsInput.error);
+      return;
+    }
+    const scheduleInput = toScheduleInput(schedule);
+    if ("error" in scheduleInput) {
+      alert(scheduleInput.error);
       return;
     }
 
-    const newCampaign: Campaign = {
-      id: Date.now().toString(),
+    const campaign = await createCampaign.mutate({
       name,
-      description,
-      deliveryStatus: simulateDeliveryStatus(),
-      status,
-      metrics: simulateMetrics(), // Simulate metrics for sent, opened, clicked
-    };
+      description: description || undefined,
+      segmentId,
+      ...channelInput.value,
+      ...variantsInput.value,
+      ...scheduleInput.value,
+    });
+    if (!campaign) return;
+    if (schedule.mode === "now" && !asDraft) {
+      await launchCampaign.mutate(campaign.id);
+    }
 
-    const updated = [...campaigns, newCampaign];
-    setCampaigns(updated);
-    localStorage.setItem("campaigns", JSON.stringify(updated));
     setName("");
     setDescription("");
-    setStatus("draft");
+    setSegmentId("");
+    setContent(EMPTY_CHANNEL_CONTENT);
+    setVariants(EMPTY_VARIANTS);
+    setSchedule(EMPTY_SCHEDULE);
+    setIsDialogOpen(false);
+    retry();
+  };
+
+  const openReschedule = (campaign: Campaign) => {
+    setNewSchedule({
+      ...EMPTY_SCHEDULE,
+      mode: campaign.recurrence ? "custom" : "once",
+      cron: campaign.recurrence ?? "",
+    });
+    setReschedulingCampaign(campaign);
+  };
+
+  const handleReschedule = async () => {
+    if (!reschedulingCampaign) return;
+    const scheduleInput = toScheduleInput(newSchedule);
+    if ("error" in scheduleInput) {
+      alert(scheduleInput.error);
+      return;
+    }
+
+    // Scheduling once turns a recurring campaign into a one-off
+    const updated = await rescheduleCampaign.mutate(reschedulingCampaign.id, {
+      recurrence: null,
+      ...scheduleInput.value,
+    });
+    if (!updated) return;
+
+    setReschedulingCampaign(null);
+    retry();
+  };
+
+  const handleUnschedule = async (campaign: Campaign) => {
+    if (!confirm(`Unschedule "${campaign.name}"? It will go back to drafts.`)) return;
+    const updated = await unscheduleCampaign.mutate(campaign.id);
+    if (updated) retry();
   };
 
-  const handleStatusChange = (id: string, newStatus: Campaign["status"]) => {
-    const updated = campaigns.map((c) =>
-      c.id === id ? { ...c, status: newStatus } : c
-    );
-    setCampaigns(updated);
-    localStorage.setItem("campaigns", JSON.stringify(updated));
+  const handleStatusChange = async (campaign: Campaign, action: "launch" | "pause" | "resume" | "cancel") => {
+    if (action === "cancel" && !confirm(`Cancel "${campaign.name}"? Messages not sent yet won't be.`)) return;
+    const change = { launch: launchCampaign, pause: pauseCampaign, resume: resumeCampaign, cancel: cancelCampaign }[action];
+    const updated = await change.mutate(campaign.id);
+    if (updated) retry();
   };
 
   const filtered =
@@ -106,13 +288,13 @@ export default function CampaignsPage() {
     <div className="container mx-auto py-10">
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-3xl font-bold">Campaigns</h1>
-        <Dialog>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
           <DialogTrigger asChild>
             <Button className="bg-blue-600 text-white hover:bg-blue-700">
               Create Campaign
             </Button>
           </DialogTrigger>
-          <DialogContent>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Create New Campaign</DialogTitle>
               <DialogDescription>
@@ -124,29 +306,50 @@ export default function CampaignsPage() {
               <Input value={name} onChange={(e) => setName(e.target.value)} />
               <Label>Description</Label>
               <Textarea value={description} onChange={(e) => setDescription(e.target.value)} />
-              <Label>Status</Label>
-              <Select
-                value={status}
-                onValueChange={(v) => setStatus(v as Campaign["status"])}
-              >
+              <Label>Segment</Label>
+              <Select value={segmentId} onValueChange={setSegmentId}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Select status" />
+                  <SelectValue placeholder="Select segment" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="draft">Draft</SelectItem>
-                  <SelectItem value="active">Active</SelectItem>
-                  <SelectItem value="paused">Paused</SelectItem>
-                  <SelectItem value="completed">Completed</SelectItem>
+                  {segments.map((segment) => (
+                    <SelectItem key={segment.id} value={segment.id}>
+                      {segment.name} ({segment._count?.customers ?? 0})
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              <Label>Channel</Label>
+              <CampaignChannelEditor value={content} onChange={setContent} segmentId={segmentId} />
+              <CampaignVariantsEditor
+                value={variants}
+                onChange={setVariants}
+                main={content}
+                segmentId={segmentId}
+              />
+              <Label>Schedule</Label>
+              <CampaignSchedulePicker value={schedule} onChange={setSchedule} />
             </div>
             <DialogFooter>
-              <Button onClick={handleCreateCampaign}>Create Campaign</Button>
+              {schedule.mode === "now" && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleCreateCampaign(true)}
+                  disabled={createCampaign.loading}
+                >
+                  Save as Draft
+                </Button>
+              )}
+              <Button onClick={() => handleCreateCampaign()} disabled={createCampaign.loading}>
+                Create Campaign
+              </Button>
             </DialogFooter>
           </DialogContent>
         </Dialog>
       </div>
 
+      <ChannelStatsSummary />
+
       <div className="mb-4">
         <Label>Filter by Status</Label>
         <Select value={filterStatus} onValueChange={setFilterStatus}>
@@ -155,16 +358,21 @@ export default function CampaignsPage() {
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All</SelectItem>
-            <SelectItem value="draft">Draft</SelectItem>
-            <SelectItem value="active">Active</SelectItem>
-            <SelectItem value="paused">Paused</SelectItem>
-            <SelectItem value="completed">Completed</SelectItem>
+            {CAMPAIGN_STATUSES.map((s) => (
+              <SelectItem key={s} value={s}>
+                {s.charAt(0) + s.slice(1).toLowerCase()}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
       </div>
 
       <div className="grid gap-4">
-        {filtered.length === 0 ? (
+        {loading ? (
+          <LoadingState label="Loading campaigns..." />
+        ) : error ? (
+          <ErrorState message={error} onRetry={retry} />
+        ) : filtered.length === 0 ? (
           <div className="text-center py-10">
             <p className="text-gray-500">No campaigns found.</p>
           </div>
@@ -173,61 +381,100 @@ export default function CampaignsPage() {
             <div key={c.id} className="border rounded-lg p-4 hover:shadow-md transition-shadow">
               <h3 className="text-xl font-semibold">{c.name}</h3>
               <p className="text-gray-600 mt-2">{c.description}</p>
+              <p className="text-gray-600 mt-2">Segment: {c.segment?.name}</p>
               <p className="text-gray-600 mt-2">
-                Delivery Status:{" "}
-                <span className={c.deliveryStatus === "SENT" ? "text-green-500" : "text-red-500"}>
-                  {c.deliveryStatus}
-                </span>
+                Channel: {CHANNEL_LABELS[c.channel]}
+                {c.subject && ` · Subject: ${c.subject}`}
               </p>
               <p className="text-gray-600 mt-2">
                 Status:{" "}
-                <span
-                  className={
-                    c.status === "active"
-                      ? "text-green-500"
-                      : c.status === "paused"
-                      ? "text-yellow-500"
-                      : c.status === "completed"
-                      ? "text-blue-500"
-                      : "text-gray-500"
-                  }
-                >
-                  {c.status}
-                </span>
+                <span className={STATUS_COLORS[c.status]}>{c.status}</span>
               </p>
-              <div className="mt-2 space-x-2">
-                {c.status === "draft" && (
-                  <Button size="sm" onClick={() => handleStatusChange(c.id, "active")}>
-                    <Play className="h-4 w-4 mr-1" /> Activate
+              {c.recurrence && (
+                <p className="text-gray-600 mt-2">
+                  Repeats: {describeRecurrence(c.recurrence)}
+                  {c._count?.runs ? ` (${c._count.runs} run${c._count.runs === 1 ? "" : "s"} so far)` : ""}
+                </p>
+              )}
+              {c.status === "SCHEDULED" && c.scheduledFor && (
+                <p className="text-gray-600 mt-2">
+                  {c.recurrence ? "Next run" : "Scheduled for"}: {formatUtc(c.scheduledFor)}
+                </p>
+              )}
+              {(c.status === "DRAFT" || c.status === "SCHEDULED") && (
+                <div className="mt-2 flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openReschedule(c)}>
+                    {c.status === "SCHEDULED" ? "Reschedule" : "Schedule"}
                   </Button>
-                )}
-                {c.status === "active" && (
-                  <>
-                    <Button size="sm" onClick={() => handleStatusChange(c.id, "paused")}>
-                      <Pause className="h-4 w-4 mr-1" /> Pause
+                  {c.status === "SCHEDULED" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleUnschedule(c)}
+                      disabled={unscheduleCampaign.loading}
+                    >
+                      Unschedule
+                    </Button>
+                  )}
+                </div>
+              )}
+              {canBecome(c, "CANCELLED") && (
+                <div className="mt-2 flex gap-2">
+                  {canBecome(c, "RUNNING") && !c.recurrence && (
+                    <Button
+                      size="sm"
+                      onClick={() => handleStatusChange(c, c.status === "PAUSED" ? "resume" : "launch")}
+                      disabled={changingStatus}
+                    >
+                      {c.status === "PAUSED" ? "Resume" : "Launch Now"}
                     </Button>
-                    <Button size="sm" onClick={() => handleStatusChange(c.id, "completed")}>
-                      <StopCircle className="h-4 w-4 mr-1" /> Complete
+                  )}
+                  {canBecome(c, "PAUSED") && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleStatusChange(c, "pause")}
+                      disabled={changingStatus}
+                    >
+                      Pause
                     </Button>
-                  </>
-                )}
-                {c.status === "paused" && (
-                  <Button size="sm" onClick={() => handleStatusChange(c.id, "active")}>
-                    <Play className="h-4 w-4 mr-1" /> Resume
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600"
+                    onClick={() => handleStatusChange(c, "cancel")}
+                    disabled={changingStatus}
+                  >
+                    Cancel
                   </Button>
-                )}
-              </div>
-              <div className="mt-4 grid grid-cols-3 gap-2 text-center text-sm">
+                </div>
+              )}
+              <DeliveryRate campaignId={c.id} />
+              <VariantResults campaign={c} />
+              <div className="mt-4 grid grid-cols-3 md:grid-cols-6 gap-2 text-center text-sm">
                 <div>
-                  <strong>{c.metrics?.sent ?? 0}</strong>
+                  <strong>{c.stats?.sent ?? 0}</strong>
                   <div className="text-muted-foreground">Sent</div>
                 </div>
                 <div>
-                  <strong>{c.metrics?.opened ?? 0}</strong>
-                  <div className="text-muted-foreground">Opened</div>
+                  <strong>{c.stats?.failed ?? 0}</strong>
+                  <div className="text-muted-foreground">Failed</div>
                 </div>
                 <div>
-                  <strong>{c.metrics?.clicked ?? 0}</strong>
+                  <strong>{c.stats?.pending ?? 0}</strong>
+                  <div className="text-muted-foreground">Pending</div>
+                </div>
+                <div>
+                  <strong>{c.stats?.skipped ?? 0}</strong>
+                  <div className="text-muted-foreground">Skipped</div>
+                </div>
+                <div title={`${c.engagement?.opens.total ?? 0} opens in total`}>
+                  <strong>{c.channel === "EMAIL" ? c.engagement?.opens.unique ?? 0 : "—"}</strong>
+                  <div className="text-muted-foreground">Opened</div>
+                </div>
+                <div title={`${c.engagement?.clicks.total ?? 0} clicks in total`}>
+                  <strong>{c.engagement?.clicks.unique ?? 0}</strong>
                   <div className="text-muted-foreground">Clicked</div>
                 </div>
               </div>
@@ -236,6 +483,26 @@ export default function CampaignsPage() {
         )}
       </div>
 
+      <Dialog
+        open={reschedulingCampaign !== null}
+        onOpenChange={(open) => !open && setReschedulingCampaign(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Schedule {reschedulingCampaign?.name}</DialogTitle>
+            <DialogDescription>
+              Pick when the campaign should go out, once or on a recurring schedule.
+            </DialogDescription>
+          </DialogHeader>
+          <CampaignSchedulePicker value={newSchedule} onChange={setNewSchedule} allowNow={false} />
+          <DialogFooter>
+            <Button onClick={handleReschedule} disabled={rescheduleCampaign.loading}>
+              Save Schedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Chatbot UI */}
       <div
         dangerouslySetInnerHTML={{
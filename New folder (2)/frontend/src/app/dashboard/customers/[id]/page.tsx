@@ -0,0 +1,280 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft, CheckCircle2, Clock, Mail, MinusCircle, Phone, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { ErrorState, LoadingState } from "@/components/query-status";
+import { CommunicationLog, Order, ordersApi } from "@/lib/api";
+import { useApiMutation, useCustomer } from "@/lib/hooks";
+import { orderUpdateInput, validate } from "@shared/schema";
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : "Never";
+
+const formatMoney = (value: number) => value.toFixed(2);
+
+const DELIVERY_ICONS: Record<CommunicationLog["status"], JSX.Element> = {
+  PENDING: <Clock className="h-4 w-4 text-yellow-500" />,
+  SENT: <CheckCircle2 className="h-4 w-4 text-green-500" />,
+  FAILED: <XCircle className="h-4 w-4 text-red-500" />,
+  SKIPPED: <MinusCircle className="h-4 w-4 text-gray-400" />,
+};
+
+const remainingAmount = (order: Order) => order.amount - order.refundedAmount;
+
+export default function CustomerDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { data: customer, loading, error, retry } = useCustomer(id);
+
+  const [refundOrder, setRefundOrder] = useState<Order | null>(null);
+  const [refundAmount, setRefundAmount] = useState("");
+
+  const updateOrder = useApiMutation(ordersApi.update, {
+    successMessage: "Order updated",
+  });
+
+  // The customer's totals are recomputed server-side, so reload after a change
+  const handleStatusChange = async (order: Order, status: "COMPLETED" | "CANCELLED") => {
+    const updated = await updateOrder.mutate(order.id, { status });
+    if (updated) retry();
+  };
+
+  const openRefund = (order: Order) => {
+    setRefundOrder(order);
+    setRefundAmount(remainingAmount(order).toFixed(2));
+  };
+
+  const handleRefund = async () => {
+    if (!refundOrder) return;
+
+    const { value, errors } = validate(orderUpdateInput, {
+      status: "REFUNDED",
+      refundAmount,
+    });
+    if (errors.length > 0) {
+      alert(errors.map((e) => `${e.path} ${e.msg}`).join("\n"));
+      return;
+    }
+
+    const updated = await updateOrder.mutate(refundOrder.id, value);
+    if (!updated) return;
+
+    setRefundOrder(null);
+    retry();
+  };
+
+  if (loading && !customer) {
+    return <LoadingState label="Loading customer..." />;
+  }
+
+  if (error || !customer) {
+    return <ErrorState message={error ?? "Customer not found"} onRetry={retry} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          href="/dashboard/customers"
+          className="mb-4 inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" /> Back to customers
+        </Link>
+        <h1 className="text-3xl font-bold">{customer.name}</h1>
+        {customer.deletedAt && (
+          <p className="mt-2 text-sm text-red-500">
+            Deleted on {formatDate(customer.deletedAt)}. Restore this customer from the customer list.
+          </p>
+        )}
+        <div className="mt-2 flex flex-wrap gap-4 text-sm text-muted-foreground">
+          <span className="flex items-center">
+            <Mail className="mr-1 h-4 w-4" /> {customer.email}
+          </span>
+          <span className="flex items-center">
+            <Phone className="mr-1 h-4 w-4" /> {customer.phone || "-"}
+          </span>
+          <span>Customer since {new Date(customer.createdAt).toLocaleDateString()}</span>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        {[
+          { label: "Total Spend", value: formatMoney(customer.totalSpend) },
+          { label: "Visits", value: customer.visitCount },
+          { label: "Orders", value: customer.orders.length },
+          { label: "Last Visit", value: formatDate(customer.lastVisit) },
+        ].map(({ label, value }) => (
+          <Card key={label}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">{label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-xl font-bold">{value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Orders</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {customer.orders.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No orders yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="p-2">Date</th>
+                    <th className="p-2">Amount</th>
+                    <th className="p-2">Refunded</th>
+                    <th className="p-2">Status</th>
+                    <th className="p-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {customer.orders.map((order) => (
+                    <tr key={order.id} className="border-b last:border-0">
+                      <td className="p-2">{formatDate(order.createdAt)}</td>
+                      <td className="p-2">{formatMoney(order.amount)}</td>
+                      <td className="p-2">
+                        {order.refundedAmount > 0 ? formatMoney(order.refundedAmount) : "-"}
+                      </td>
+                      <td className="p-2">{order.status}</td>
+                      <td className="p-2">
+                        <div className="flex justify-end gap-1">
+                          {order.status === "PENDING" && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={updateOrder.loading}
+                                onClick={() => handleStatusChange(order, "COMPLETED")}
+                              >
+                                Complete
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={updateOrder.loading}
+                                onClick={() => handleStatusChange(order, "CANCELLED")}
+                              >
+                                Cancel
+                              </Button>
+                            </>
+                          )}
+                          {order.status === "COMPLETED" && (
+                            <Button variant="outline" size="sm" onClick={() => openRefund(order)}>
+                              Refund
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Segments</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {customer.segments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Not in any segment.</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {customer.segments.map(({ segment, createdAt }) => (
+                  <li key={segment.id} className="flex justify-between">
+                    <span className="font-medium">{segment.name}</span>
+                    <span className="text-muted-foreground">
+                      since {new Date(createdAt).toLocaleDateString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={refundOrder !== null} onOpenChange={(open) => !open && setRefundOrder(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund Order</DialogTitle>
+            <DialogDescription>
+              Up to {refundOrder && formatMoney(remainingAmount(refundOrder))} can be refunded. A
+              smaller amount is a partial refund and keeps the order completed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <Input
+              type="number"
+              min="0.01"
+              step="0.01"
+              placeholder="Refund amount"
+              value={refundAmount}
+              onChange={(e) => setRefundAmount(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button onClick={handleRefund} disabled={updateOrder.loading}>
+              Refund
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Communication Timeline</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {customer.communications.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No campaigns have targeted this customer.</p>
+          ) : (
+            <ol className="relative space-y-4 border-l pl-6">
+              {customer.communications.map((log) => (
+                <li key={log.id} className="relative">
+                  <span className="absolute -left-[2.05rem] top-0.5 rounded-full bg-background p-0.5">
+                    {DELIVERY_ICONS[log.status]}
+                  </span>
+                  <p className="text-sm font-medium">{log.campaign.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {log.status} · queued {formatDate(log.createdAt)}
+                    {log.sentAt && ` · sent ${formatDate(log.sentAt)}`}
+                    {log.firstOpenedAt && ` · opened ${formatDate(log.firstOpenedAt)}`}
+                    {log.firstClickedAt && ` · clicked ${formatDate(log.firstClickedAt)}`}
+                  </p>
+                  {log.renderedMessage && (
+                    <p className="mt-1 whitespace-pre-wrap text-xs">{log.renderedMessage}</p>
+                  )}
+                  {log.errorMessage && (
+                    <p className="mt-1 text-xs text-red-500">{log.errorMessage}</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,17 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  FileUp,
+  Pencil,
+  RotateCcw,
+  Trash2,
+} from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import {
@@ -12,155 +23,490 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import { ErrorState, LoadingState } from "@/components/query-status";
+import { CustomerImportDialog } from "@/components/customer-import-dialog";
+import { ExportMenu } from "@/components/export-menu";
+import {
+  CustomerFilters,
+  CustomerFilterValues,
+  EMPTY_CUSTOMER_FILTERS,
+} from "@/components/customer-filters";
+import { Customer, CustomerListQuery, CustomerSortField, customersApi } from "@/lib/api";
+import { useApiMutation, useCustomers } from "@/lib/hooks";
+import { customerInput, customerUpdateInput, orderInput, validate } from "@shared/schema";
 
-interface Customer {
-  id: string;
-  name: string;
-  email: string;
-  phone: string;
-  totalPurchases: number;
-}
+const PAGE_SIZE = 10;
+
+const FILTER_KEYS = Object.keys(EMPTY_CUSTOMER_FILTERS) as (keyof CustomerFilterValues)[];
+
+const COLUMNS: { label: string; sortBy?: CustomerSortField; numeric?: boolean }[] = [
+  { label: "Name", sortBy: "name" },
+  { label: "Email", sortBy: "email" },
+  { label: "Phone" },
+  { label: "Total Spend", sortBy: "totalSpend", numeric: true },
+  { label: "Visits", sortBy: "visitCount", numeric: true },
+  { label: "Orders", numeric: true },
+  { label: "Last Visit", sortBy: "lastVisit" },
+];
+
+const describeErrors = (errors: { path: string; msg: string }[]) =>
+  errors.map((e) => `${e.path} ${e.msg}`).join("\n");
+
+const toNumber = (value: string) => (value === "" ? undefined : Number(value));
+
+// Date inputs hold calendar days; widen them to cover the whole local day.
+// Unparseable values are passed through for the API to reject.
+const toDayBoundary = (day: string, time: string) => {
+  if (day === "") return undefined;
+  const date = new Date(`${day}T${time}`);
+  return Number.isNaN(date.getTime()) ? day : date.toISOString();
+};
 
 export default function CustomersPage() {
-  const [customers, setCustomers] = useState<Customer[]>([]);
+  // Filters, sorting and paging live in the URL so views can be shared and
+  // survive a reload
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const filters = useMemo(
+    () =>
+      Object.fromEntries(
+        FILTER_KEYS.map((key) => [key, searchParams.get(key) ?? ""])
+      ) as unknown as CustomerFilterValues,
+    [searchParams]
+  );
+  const page = Number(searchParams.get("page")) || 1;
+  const sortBy = (searchParams.get("sortBy") ?? "createdAt") as CustomerSortField;
+  const sortOrder = searchParams.get("sortOrder") === "asc" ? "asc" : "desc";
+  const showDeleted = searchParams.get("deleted") === "true";
+  const isFiltered = FILTER_KEYS.some((key) => filters[key] !== "");
+
+  const query: CustomerListQuery = {
+    page,
+    limit: PAGE_SIZE,
+    sortBy,
+    sortOrder,
+    search: filters.search || undefined,
+    minSpend: toNumber(filters.minSpend),
+    maxSpend: toNumber(filters.maxSpend),
+    minVisits: toNumber(filters.minVisits),
+    maxVisits: toNumber(filters.maxVisits),
+    lastVisitFrom: toDayBoundary(filters.lastVisitFrom, "00:00:00"),
+    lastVisitTo: toDayBoundary(filters.lastVisitTo, "23:59:59.999"),
+    deleted: showDeleted || undefined,
+  };
+  const { data, loading, error, retry } = useCustomers(query);
+  const customers = data?.customers ?? [];
+  const pagination = data?.pagination;
+
+  const updateParams = (patch: Record<string, string | number | undefined>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === undefined || value === "") {
+        params.delete(key);
+      } else {
+        params.set(key, String(value));
+      }
+    }
+    const search = params.toString();
+    router.replace(search ? `${pathname}?${search}` : pathname, { scroll: false });
+  };
+
+  // Any change to what is listed starts again from the first page
+  const handleApplyFilters = (values: CustomerFilterValues) =>
+    updateParams({ ...values, page: undefined });
+
+  // Clicking the active column flips its direction; a new column starts descending
+  const handleSort = (column: CustomerSortField) =>
+    updateParams({
+      sortBy: column,
+      sortOrder: column === sortBy && sortOrder === "desc" ? "asc" : "desc",
+      page: undefined,
+    });
+
   const [newCustomer, setNewCustomer] = useState({
     name: "",
     email: "",
     phone: "",
   });
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  // The dashboard's "Import Customers" action links here with ?import=1
+  const [isImportOpen, setIsImportOpen] = useState(searchParams.get("import") === "1");
 
-  // Fetch customers from localStorage when component mounts
-  useEffect(() => {
-    const storedCustomers = localStorage.getItem("customers");
-    if (storedCustomers) {
-      setCustomers(JSON.parse(storedCustomers));
+  const handleImportOpenChange = (open: boolean) => {
+    setIsImportOpen(open);
+    if (!open && searchParams.has("import")) {
+      updateParams({ import: undefined });
     }
-  }, []);
+  };
+  const [orderCustomer, setOrderCustomer] = useState<Customer | null>(null);
+  const [orderAmount, setOrderAmount] = useState("");
+  const [editCustomer, setEditCustomer] = useState<Customer | null>(null);
+  const [editForm, setEditForm] = useState({ name: "", email: "", phone: "" });
+
+  const createCustomer = useApiMutation(customersApi.create, {
+    successMessage: "Customer added",
+  });
+  const addOrder = useApiMutation(customersApi.addOrder, {
+    successMessage: "Order recorded",
+  });
+  const updateCustomer = useApiMutation(customersApi.update, {
+    successMessage: "Customer updated",
+  });
+  const removeCustomer = useApiMutation(customersApi.remove, {
+    successMessage: "Customer deleted",
+  });
+  const restoreCustomer = useApiMutation(customersApi.restore, {
+    successMessage: "Customer restored",
+  });
 
-  // Handle adding a new customer and storing it in both state and localStorage
-  const handleAddCustomer = () => {
-    if (!newCustomer.name || !newCustomer.email || !newCustomer.phone) {
-      alert("Please fill in all fields.");
+  // Handle adding a new customer through the API
+  const handleAddCustomer = async () => {
+    const { value, errors } = validate(customerInput, newCustomer);
+    if (errors.length > 0) {
+      alert(describeErrors(errors));
       return;
     }
 
-    const newCustomerData: Customer = {
-      id: Date.now().toString(),
-      totalPurchases: 0, // Initialize with 0 purchases
-      ...newCustomer,
-    };
-
-    // Update state and store the updated customers in localStorage
-    const updatedCustomers = [...customers, newCustomerData];
-    setCustomers(updatedCustomers);
-    localStorage.setItem("customers", JSON.stringify(updatedCustomers));
+    const created = await createCustomer.mutate(value);
+    if (!created) return;
 
-    // Reset the form
+    // Reset the form and reload the list
     setNewCustomer({ name: "", email: "", phone: "" });
     setIsDialogOpen(false);
+    retry();
   };
 
-  // Handle making a purchase for a customer
-  const handleMakePurchase = (customerId: string) => {
-    const updatedCustomers = customers.map((customer) => {
-      if (customer.id === customerId) {
-        const updatedCustomer = { ...customer, totalPurchases: customer.totalPurchases + 1 };
-        return updatedCustomer;
-      }
-      return customer;
+  // Handle recording a completed order for a customer
+  const handleAddOrder = async () => {
+    if (!orderCustomer) return;
+
+    const { value, errors } = validate(orderInput, {
+      amount: orderAmount,
+      status: "COMPLETED",
     });
+    if (errors.length > 0) {
+      alert(describeErrors(errors));
+      return;
+    }
 
-    setCustomers(updatedCustomers);
-    localStorage.setItem("customers", JSON.stringify(updatedCustomers));
+    const order = await addOrder.mutate(orderCustomer.id, value);
+    if (!order) return;
 
-    // Update the segment customer count after the purchase
-    updateSegmentCustomerCount();
+    setOrderCustomer(null);
+    setOrderAmount("");
+    retry();
   };
 
-  // Function to update the customer count in segments based on the rule
-  const updateSegmentCustomerCount = () => {
-    const segments = JSON.parse(localStorage.getItem("segments") || "[]");
-    segments.forEach((segment: any) => {
-      const customersInSegment = customers.filter(
-        (customer) => customer.totalPurchases > 1 // Apply the rule here
-      );
-      segment.customerCount = customersInSegment.length;
+  const openEdit = (customer: Customer) => {
+    setEditCustomer(customer);
+    setEditForm({
+      name: customer.name,
+      email: customer.email,
+      phone: customer.phone ?? "",
     });
-    localStorage.setItem("segments", JSON.stringify(segments));
+  };
+
+  // Handle saving changes to an existing customer
+  const handleUpdateCustomer = async () => {
+    if (!editCustomer) return;
+
+    const { value, errors } = validate(customerUpdateInput, {
+      ...editForm,
+      // An emptied phone field clears the number
+      phone: editForm.phone.trim() === "" ? null : editForm.phone,
+    });
+    if (errors.length > 0) {
+      alert(describeErrors(errors));
+      return;
+    }
+
+    const updated = await updateCustomer.mutate(editCustomer.id, value);
+    if (!updated) return;
+
+    setEditCustomer(null);
+    retry();
+  };
+
+  const handleDeleteCustomer = async (customer: Customer) => {
+    if (!confirm(`Delete ${customer.name}? You can restore them later.`)) return;
+
+    const deleted = await removeCustomer.mutate(customer.id);
+    if (deleted) retry();
+  };
+
+  const handleRestoreCustomer = async (customer: Customer) => {
+    const restored = await restoreCustomer.mutate(customer.id);
+    if (restored) retry();
   };
 
   return (
     <div className="container mx-auto py-10">
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-3xl font-bold">Customers</h1>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>Add Customer</Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Add New Customer</DialogTitle>
-              <DialogDescription>
-                Fill in the details to add a new customer.
-              </DialogDescription>
-            </DialogHeader>
-            <div className="grid gap-4 py-4">
-              <Input
-                placeholder="Name"
-                value={newCustomer.name}
-                onChange={(e) =>
-                  setNewCustomer({ ...newCustomer, name: e.target.value })
-                }
-              />
-              <Input
-                placeholder="Email"
-                value={newCustomer.email}
-                onChange={(e) =>
-                  setNewCustomer({ ...newCustomer, email: e.target.value })
-                }
-              />
-              <Input
-                placeholder="Phone"
-                value={newCustomer.phone}
-                onChange={(e) =>
-                  setNewCustomer({ ...newCustomer, phone: e.target.value })
-                }
-              />
-            </div>
-            <DialogFooter>
-              <Button onClick={handleAddCustomer}>Add Customer</Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+        <div className="flex space-x-2">
+          <Button
+            variant="ghost"
+            onClick={() => updateParams({ deleted: showDeleted ? undefined : "true", page: undefined })}
+          >
+            {showDeleted ? "Show active" : "Show deleted"}
+          </Button>
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <FileUp className="mr-2 h-4 w-4" /> Import
+          </Button>
+          <ExportMenu />
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>Add Customer</Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Add New Customer</DialogTitle>
+                <DialogDescription>
+                  Fill in the details to add a new customer.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid gap-4 py-4">
+                <Input
+                  placeholder="Name"
+                  value={newCustomer.name}
+                  onChange={(e) =>
+                    setNewCustomer({ ...newCustomer, name: e.target.value })
+                  }
+                />
+                <Input
+                  placeholder="Email"
+                  value={newCustomer.email}
+                  onChange={(e) =>
+                    setNewCustomer({ ...newCustomer, email: e.target.value })
+                  }
+                />
+                <Input
+                  placeholder="Phone (optional)"
+                  value={newCustomer.phone}
+                  onChange={(e) =>
+                    setNewCustomer({ ...newCustomer, phone: e.target.value })
+                  }
+                />
+              </div>
+              <DialogFooter>
+                <Button onClick={handleAddCustomer} disabled={createCustomer.loading}>
+                  Add Customer
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
-      <div className="grid gap-4">
-        {customers.length === 0 ? (
+      <CustomerImportDialog
+        open={isImportOpen}
+        onOpenChange={handleImportOpenChange}
+        onImported={retry}
+      />
+
+      <Dialog
+        open={orderCustomer !== null}
+        onOpenChange={(open) => !open && setOrderCustomer(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Order</DialogTitle>
+            <DialogDescription>
+              Add a completed order for {orderCustomer?.name}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Amount"
+              value={orderAmount}
+              onChange={(e) => setOrderAmount(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button onClick={handleAddOrder} disabled={addOrder.loading}>
+              Record Order
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={editCustomer !== null}
+        onOpenChange={(open) => !open && setEditCustomer(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Customer</DialogTitle>
+            <DialogDescription>Update the details for {editCustomer?.name}.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <Input
+              placeholder="Name"
+              value={editForm.name}
+              onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+            />
+            <Input
+              placeholder="Email"
+              value={editForm.email}
+              onChange={(e) => setEditForm({ ...editForm, email: e.target.value })}
+            />
+            <Input
+              placeholder="Phone (optional)"
+              value={editForm.phone}
+              onChange={(e) => setEditForm({ ...editForm, phone: e.target.value })}
+            />
+          </div>
+          <DialogFooter>
+            <Button onClick={handleUpdateCustomer} disabled={updateCustomer.loading}>
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <div className="space-y-4">
+        {showDeleted && (
+          <p className="text-sm text-muted-foreground">
+            Showing deleted customers. They are left out of segments, campaigns and exports until restored.
+          </p>
+        )}
+        <CustomerFilters value={filters} onApply={handleApplyFilters} />
+
+        {loading && !data ? (
+          <LoadingState label="Loading customers..." />
+        ) : error ? (
+          <ErrorState message={error} onRetry={retry} />
+        ) : customers.length === 0 ? (
           <div className="text-center py-10">
-            <p className="text-gray-500">No customers found. Add your first customer!</p>
+            <p className="text-gray-500">
+              {isFiltered
+                ? "No customers match these filters."
+                : showDeleted
+                  ? "No deleted customers."
+                  : "No customers found. Add your first customer!"}
+            </p>
           </div>
         ) : (
-          customers.map((customer) => (
-            <div
-              key={customer.id}
-              className="border rounded-lg p-4 hover:shadow-md transition-shadow"
-            >
-              <h3 className="text-xl font-semibold">{customer.name}</h3>
-              <p className="text-gray-600">Email: {customer.email}</p>
-              <p className="text-gray-600">Phone: {customer.phone}</p>
-              <p className="text-gray-600">Total Purchases: {customer.totalPurchases}</p>
-
-              <Button
-                className="mt-2"
-                onClick={() => handleMakePurchase(customer.id)}
-              >
-                Make Purchase
-              </Button>
-            </div>
-          ))
+          <div className={`overflow-x-auto rounded-lg border ${loading ? "opacity-60" : ""}`}>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-muted/50 text-left">
+                  {COLUMNS.map(({ label, sortBy: column, numeric }) => (
+                    <th key={label} className={`p-3 font-medium ${numeric ? "text-right" : ""}`}>
+                      {column ? (
+                        <button
+                          type="button"
+                          className="inline-flex items-center hover:text-foreground"
+                          onClick={() => handleSort(column)}
+                        >
+                          {label}
+                          {column !== sortBy ? (
+                            <ArrowUpDown className="ml-1 h-3 w-3 text-muted-foreground" />
+                          ) : sortOrder === "asc" ? (
+                            <ArrowUp className="ml-1 h-3 w-3" />
+                          ) : (
+                            <ArrowDown className="ml-1 h-3 w-3" />
+                          )}
+                        </button>
+                      ) : (
+                        label
+                      )}
+                    </th>
+                  ))}
+                  <th className="p-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {customers.map((customer) => (
+                  <tr key={customer.id} className="border-b last:border-0">
+                    <td className="p-3 font-medium">
+                      <Link href={`/dashboard/customers/${customer.id}`} className="hover:underline">
+                        {customer.name}
+                      </Link>
+                    </td>
+                    <td className="p-3">{customer.email}</td>
+                    <td className="p-3">{customer.phone || "-"}</td>
+                    <td className="p-3 text-right">{customer.totalSpend.toFixed(2)}</td>
+                    <td className="p-3 text-right">{customer.visitCount}</td>
+                    <td className="p-3 text-right">{customer._count?.orders ?? 0}</td>
+                    <td className="p-3">
+                      {customer.lastVisit ? new Date(customer.lastVisit).toLocaleDateString() : "Never"}
+                    </td>
+                    <td className="p-3">
+                      <div className="flex justify-end gap-1">
+                        {showDeleted ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={restoreCustomer.loading}
+                            onClick={() => handleRestoreCustomer(customer)}
+                          >
+                            <RotateCcw className="mr-2 h-4 w-4" /> Restore
+                          </Button>
+                        ) : (
+                          <>
+                            <Button variant="outline" size="sm" onClick={() => setOrderCustomer(customer)}>
+                              Record Order
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              aria-label={`Edit ${customer.name}`}
+                              onClick={() => openEdit(customer)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              aria-label={`Delete ${customer.name}`}
+                              disabled={removeCustomer.loading}
+                              onClick={() => handleDeleteCustomer(customer)}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
         )}
       </div>
+
+      {pagination && pagination.total > 0 && (
+        <div className="mt-6 flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Page {pagination.page} of {Math.max(pagination.pages, 1)} ({pagination.total} customers)
+          </p>
+          <div className="space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page <= 1}
+              onClick={() => updateParams({ page: page - 1 })}
+            >
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= pagination.pages}
+              onClick={() => updateParams({ page: page + 1 })}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,69 +1,19 @@
 'use client';
 
-import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Users, Mail, BarChart, TrendingUp, FileUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/components/auth-provider';
 import { useRouter } from 'next/navigation';
-
-interface DashboardStats {
-  totalCustomers: number;
-  totalSegments: number;
-  totalCampaigns: number;
-  activeCampaigns: number;
-}
-
-interface Activity {
-  id: string;
-  type: 'customer' | 'campaign' | 'segment';
-  action: 'created' | 'updated' | 'deleted';
-  name: string;
-  timestamp: number;
-}
+import { Activity } from '@/lib/api';
+import { useDashboardStats } from '@/lib/hooks';
+import { ErrorState, LoadingState } from '@/components/query-status';
 
 export default function DashboardPage() {
   const { user } = useAuth();
   const router = useRouter();
-  const [stats, setStats] = useState<DashboardStats>({
-    totalCustomers: 0,
-    totalSegments: 0,
-    totalCampaigns: 0,
-    activeCampaigns: 0,
-  });
-  const [activities, setActivities] = useState<Activity[]>([]);
-
-  useEffect(() => {
-    const fetchStats = () => {
-      const customers = JSON.parse(localStorage.getItem('customers') || '[]');
-      const segments = JSON.parse(localStorage.getItem('segments') || '[]');
-      const campaigns = JSON.parse(localStorage.getItem('campaigns') || '[]');
-      const storedActivities = JSON.parse(localStorage.getItem('activities') || '[]');
-
-      setStats({
-        totalCustomers: customers.length,
-        totalSegments: segments.length,
-        totalCampaigns: campaigns.length,
-        activeCampaigns: campaigns.filter((c: any) => c.status === 'active').length,
-      });
-
-      const sortedActivities = storedActivities
-        .sort((a: Activity, b: Activity) => b.timestamp - a.timestamp)
-        .slice(0, 5);
-      setActivities(sortedActivities);
-    };
-
-    fetchStats();
-
-    const handleStorageChange = (e: StorageEvent) => {
-      if (["customers", "segments", "campaigns", "activities"].includes(e.key!)) {
-        fetchStats();
-      }
-    };
-
-    window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
-  }, []);
+  const { data: stats, loading, error, retry } = useDashboardStats();
+  const activities = stats?.recentActivity ?? [];
 
   const handleQuickAction = (action: string) => {
     switch (action) {
@@ -74,7 +24,7 @@ export default function DashboardPage() {
         router.push('/dashboard/segments');
         break;
       case 'import-customers':
-        router.push('/dashboard/customers');
+        router.push('/dashboard/customers?import=1');
         break;
       case 'documentation':
         window.open('https://docs.example.com', '_blank');
@@ -90,9 +40,9 @@ export default function DashboardPage() {
     }
   };
 
-  const formatTimestamp = (timestamp: number) => {
+  const formatTimestamp = (timestamp: string) => {
     const now = Date.now();
-    const diff = now - timestamp;
+    const diff = now - new Date(timestamp).getTime();
     const minutes = Math.floor(diff / 60000);
     const hours = Math.floor(minutes / 60);
     const days = Math.floor(hours / 24);
@@ -119,12 +69,14 @@ export default function DashboardPage() {
         </div>
       </div>
 
+      {error && <ErrorState message={error} onRetry={retry} />}
+
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         {[
-          { label: 'Total Customers', value: stats.totalCustomers, Icon: Users },
-          { label: 'Segments', value: stats.totalSegments, Icon: BarChart },
-          { label: 'Campaigns', value: stats.totalCampaigns, Icon: Mail },
-          { label: 'Active Campaigns', value: stats.activeCampaigns, Icon: TrendingUp },
+          { label: 'Total Customers', value: stats?.totalCustomers ?? 0, Icon: Users },
+          { label: 'Segments', value: stats?.totalSegments ?? 0, Icon: BarChart },
+          { label: 'Campaigns', value: stats?.totalCampaigns ?? 0, Icon: Mail },
+          { label: 'Active Campaigns', value: stats?.activeCampaigns ?? 0, Icon: TrendingUp },
         ].map(({ label, value, Icon }) => (
           <Card key={label} className="group relative overflow-hidden">
             <div className="absolute inset-0 bg-gradient-to-br from-primary/10 to-primary/5 opacity-0 transition-opacity group-hover:opacity-100" />
@@ -149,7 +101,9 @@ export default function DashboardPage() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {activities.length === 0 ? (
+              {loading ? (
+                <LoadingState />
+              ) : activities.length === 0 ? (
                 <div className="flex flex-col items-center justify-center py-8 text-center">
                   <BarChart className="mb-4 h-8 w-8 text-muted-foreground" />
                   <p className="text-sm text-muted-foreground">No recent activity</p>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -20,129 +20,194 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Plus, Users, Search, Edit as EditIcon, Trash2 as DeleteIcon } from "lucide-react";
+import { Copy, GitCompare, Pencil, Plus, Search, Sparkles, Trash2, Users } from "lucide-react";
+import { ErrorState, LoadingState } from "@/components/query-status";
+import { ExportMenu } from "@/components/export-menu";
+import { formatRules, SegmentRuleBuilder } from "@/components/segment-rule-builder";
+import { SegmentPreviewPanel } from "@/components/segment-preview";
+import { SegmentComparisonView } from "@/components/segment-comparison";
+import {
+  Segment,
+  SegmentComparison,
+  SegmentPreview,
+  SegmentRuleGroup,
+  SegmentRules,
+  segmentsApi,
+} from "@/lib/api";
+import { useApiMutation, useSegments } from "@/lib/hooks";
+import { toast } from "@/components/ui/use-toast";
 
-interface Segment {
-  id: string;
-  name: string;
-  description: string;
-  customerCount: number;
-  rules: string[];
-  matchedCustomerIds: string[];
-}
-
-interface Customer {
-  id: string;
-  name: string;
-  email: string;
-  phone: string;
-  totalPurchases: number;
-}
+// How long the rules must stay unchanged before the preview is refreshed
+const PREVIEW_DELAY_MS = 400;
+const MAX_COMPARED_SEGMENTS = 4;
 
 export default function SegmentsPage() {
-  const [segments, setSegments] = useState<Segment[]>([]);
-  const [customers, setCustomers] = useState<Customer[]>([]);
+  const { data: segments = [], loading, error, retry } = useSegments();
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
-  const [rules, setRules] = useState<string[]>([]);
+  const [isDynamic, setIsDynamic] = useState(true);
+  // Rules to load into the builder; bumping builderKey remounts it with them
+  const [initialRules, setInitialRules] = useState<SegmentRules | null>(null);
+  const [builderKey, setBuilderKey] = useState(0);
+  const [rules, setRules] = useState<SegmentRuleGroup>({ type: "AND", conditions: [] });
+  const [ruleErrors, setRuleErrors] = useState<{ path: string; msg: string }[]>([]);
+  const [showRuleErrors, setShowRuleErrors] = useState(false);
+  const [preview, setPreview] = useState<SegmentPreview | null>(null);
   const [isCreating, setIsCreating] = useState(false);
+  const [audienceText, setAudienceText] = useState("");
+  // Set while the dialog edits an existing segment rather than creating one
+  const [editingSegment, setEditingSegment] = useState<Segment | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
-  const [editingId, setEditingId] = useState<string | null>(null);
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<SegmentComparison | null>(null);
 
-  useEffect(() => {
-    const storedSegments = localStorage.getItem("segments");
-    const storedCustomers = localStorage.getItem("customers");
+  const createSegment = useApiMutation(segmentsApi.create, {
+    successMessage: "Segment created",
+  });
+  const updateSegment = useApiMutation(segmentsApi.update);
+  const deleteSegment = useApiMutation(segmentsApi.remove, {
+    successMessage: "Segment deleted",
+  });
+  const duplicateSegment = useApiMutation(segmentsApi.duplicate, {
+    successMessage: "Segment duplicated",
+  });
+  const previewSegment = useApiMutation(segmentsApi.preview);
+  const { mutate: fetchPreview } = previewSegment;
+  const generateRules = useApiMutation(segmentsApi.fromText);
+  const compareSegments = useApiMutation(segmentsApi.compare);
 
-    if (storedSegments) {
-      setSegments(JSON.parse(storedSegments));
-    }
-    if (storedCustomers) {
-      setCustomers(JSON.parse(storedCustomers));
-    }
-  }, []);
+  const handleRulesChange = (next: SegmentRuleGroup, errors: { path: string; msg: string }[]) => {
+    setRules(next);
+    setRuleErrors(errors);
+  };
 
-  const getMatchedCustomers = (rules: string[]) => {
-    return customers.filter((customer) => {
-      return rules.every((rule) => {
-        const [field, operator, value] = rule.split(" ");
-        const fieldValue = customer[field as keyof Customer];
-        const parsedValue = isNaN(Number(value)) ? value : Number(value);
+  // Preview the audience once the rules form a complete, valid tree and the
+  // user has paused editing. Responses for rules that have since changed
+  // are dropped.
+  const rulesValid = rules.conditions.length > 0 && ruleErrors.length === 0;
+  useEffect(() => {
+    if (!rulesValid) {
+      setPreview(null);
+      return;
+    }
 
-        switch (operator) {
-          case ">":
-            return fieldValue > parsedValue;
-          case "<":
-            return fieldValue < parsedValue;
-          case "=":
-          case "==":
-            return fieldValue == parsedValue;
-          case "!=":
-            return fieldValue != parsedValue;
-          default:
-            return false;
-        }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      fetchPreview(rules).then((result) => {
+        if (!cancelled) setPreview(result ?? null);
       });
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [fetchPreview, rules, rulesValid]);
+
+  const openBuilder = (startFrom: SegmentRules | null) => {
+    setInitialRules(startFrom);
+    setBuilderKey((key) => key + 1);
+    setShowRuleErrors(false);
+    setIsCreating(true);
+  };
+
+  // Load rules generated from the description into the builder, where they
+  // can be checked and adjusted before saving
+  const handleGenerateRules = async () => {
+    if (!audienceText.trim()) return;
+
+    const result = await generateRules.mutate(audienceText);
+    if (!result) return;
+
+    setInitialRules(result.rules);
+    setBuilderKey((key) => key + 1);
+    toast({
+      title: "Rules generated",
+      description: `${result.customerCount} customer(s) match. Review the rules before saving.`,
     });
   };
 
+  const toggleCompared = (id: string) => {
+    setComparedIds((ids) =>
+      ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id]
+    );
+  };
+
+  const handleCompare = async () => {
+    const result = await compareSegments.mutate(comparedIds);
+    if (result) setComparison(result);
+  };
+
   const handleEdit = (segment: Segment) => {
-    setEditingId(segment.id);
+    setEditingSegment(segment);
     setName(segment.name);
-    setDescription(segment.description);
-    setRules(segment.rules);
-    setIsCreating(true);
+    setDescription(segment.description ?? "");
+    setIsDynamic(segment.isDynamic);
+    openBuilder(segment.rules);
   };
 
-  const handleDelete = (segmentId: string) => {
-    if (!confirm("Are you sure you want to delete this segment?")) return;
-    
-    const updatedSegments = segments.filter((s) => s.id !== segmentId);
-    setSegments(updatedSegments);
-    localStorage.setItem("segments", JSON.stringify(updatedSegments));
+  const handleDuplicate = async (segment: Segment) => {
+    const copy = await duplicateSegment.mutate(segment.id);
+    if (copy) retry();
   };
 
-  const handleCreateSegment = () => {
-    if (!name || !description || rules.length === 0) {
-      alert("Please fill in all fields and define at least one rule.");
-      return;
-    }
+  // Campaigns can't outlive their segment, so deleting a segment in use
+  // deletes its campaigns as well
+  const handleDelete = async (segment: Segment) => {
+    const campaignCount = segment._count?.campaigns ?? 0;
+    const message =
+      campaignCount > 0
+        ? `Delete ${segment.name}? It is used by ${campaignCount} campaign(s), which will be deleted too.`
+        : `Delete ${segment.name}?`;
+    if (!confirm(message)) return;
 
-    const matched = getMatchedCustomers(rules);
-    const newSegment: Segment = {
-      id: editingId || Date.now().toString(),
-      name,
-      description,
-      customerCount: matched.length,
-      rules,
-      matchedCustomerIds: matched.map((c) => c.id),
-    };
-
-    let updatedSegments;
-    if (editingId) {
-      updatedSegments = segments.map((s) => (s.id === editingId ? newSegment : s));
-    } else {
-      updatedSegments = [...segments, newSegment];
-    }
+    const deleted = await deleteSegment.mutate(segment.id, campaignCount > 0);
+    if (!deleted) return;
 
-    setSegments(updatedSegments);
-    localStorage.setItem("segments", JSON.stringify(updatedSegments));
+    setComparedIds((ids) => ids.filter((id) => id !== segment.id));
+    retry();
+  };
 
+  const resetForm = () => {
     setName("");
     setDescription("");
-    setRules([]);
+    setIsDynamic(true);
+    setAudienceText("");
+    setInitialRules(null);
+    setEditingSegment(null);
     setIsCreating(false);
-    setEditingId(null);
   };
 
-  const handleAddRule = () => {
-    const newRule = prompt("Enter rule (e.g., 'totalPurchases > 1000')");
-    if (newRule) {
-      setRules((prev) => [...prev, newRule]);
+  const handleSaveSegment = async () => {
+    if (!name || !rulesValid) {
+      setShowRuleErrors(true);
+      alert("Please enter a name and complete at least one rule.");
+      return;
     }
-  };
 
-  const handleRemoveRule = (rule: string) => {
-    setRules((prev) => prev.filter((r) => r !== rule));
+    const input = {
+      name,
+      description: description || undefined,
+      rules,
+      isDynamic,
+    };
+
+    if (editingSegment) {
+      const updated = await updateSegment.mutate(editingSegment.id, input);
+      if (!updated) return;
+
+      const { added, removed } = updated.membership;
+      toast({
+        title: "Segment updated",
+        description: `${added} customer(s) added, ${removed} removed`,
+      });
+    } else {
+      const segment = await createSegment.mutate(input);
+      if (!segment) return;
+    }
+
+    resetForm();
+    retry();
   };
 
   const filteredSegments = segments.filter((segment) =>
@@ -158,18 +223,20 @@ export default function SegmentsPage() {
             Create and manage customer segments
           </p>
         </div>
-        <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <Dialog open={isCreating} onOpenChange={(open) => !open && resetForm()}>
           <DialogTrigger asChild>
-            <Button>
+            <Button onClick={() => openBuilder(null)}>
               <Plus className="mr-2 h-4 w-4" />
               Create Segment
             </Button>
           </DialogTrigger>
-          <DialogContent>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
-              <DialogTitle>{editingId ? "Edit Segment" : "Create New Segment"}</DialogTitle>
+              <DialogTitle>{editingSegment ? "Edit Segment" : "Create New Segment"}</DialogTitle>
               <DialogDescription>
-                {editingId ? "Update segment details" : "Define a new customer segment with rules"}
+                {editingSegment
+                  ? "Saving re-evaluates the rules and updates the segment's members"
+                  : "Define a new customer segment with rules"}
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4 py-4">
@@ -190,53 +257,71 @@ export default function SegmentsPage() {
                 />
               </div>
               <div className="space-y-2">
-                <Label>Rules</Label>
-                <div className="space-y-1">
-                  <Button variant="outline" onClick={handleAddRule}>
-                    Add Rule
+                <Label htmlFor="audience-text">Describe the audience</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="audience-text"
+                    placeholder="e.g. customers who spent over 500 and haven't visited in 3 months"
+                    value={audienceText}
+                    onChange={(e) => setAudienceText(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleGenerateRules();
+                      }
+                    }}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleGenerateRules}
+                    disabled={generateRules.loading || !audienceText.trim()}
+                  >
+                    <Sparkles className="mr-2 h-4 w-4" />
+                    {generateRules.loading ? "Generating..." : "Generate rules"}
                   </Button>
-                  <div className="space-y-1 mt-2">
-                    {rules.length === 0 ? (
-                      <p className="text-gray-500">No rules defined yet.</p>
-                    ) : (
-                      rules.map((rule, index) => (
-                        <div
-                          key={index}
-                          className="flex items-center space-x-2 bg-gray-100 p-2 rounded"
-                        >
-                          <span>{rule}</span>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleRemoveRule(rule)}
-                          >
-                            Remove
-                          </Button>
-                        </div>
-                      ))
-                    )}
-                  </div>
                 </div>
               </div>
-              {rules.length > 0 && (
-                <div className="bg-gray-100 p-3 rounded">
-                  <p className="text-sm">
-                    Preview:{" "}
-                    <strong>{getMatchedCustomers(rules).length}</strong>{" "}
-                    customers match these rules
-                  </p>
-                </div>
-              )}
+              <div className="space-y-2">
+                <Label>Rules</Label>
+                <SegmentRuleBuilder
+                  key={builderKey}
+                  initialRules={initialRules}
+                  onChange={handleRulesChange}
+                  showAllErrors={showRuleErrors}
+                />
+              </div>
+              <label className="flex items-start space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={isDynamic}
+                  onChange={(e) => setIsDynamic(e.target.checked)}
+                />
+                <span>
+                  Keep membership up to date
+                  <span className="block text-muted-foreground">
+                    Customers join and leave as their details and orders change. Unchecked, the
+                    segment keeps the customers that match when it is saved.
+                  </span>
+                </span>
+              </label>
+              <div className="space-y-2">
+                <Label>Audience preview</Label>
+                <SegmentPreviewPanel
+                  preview={rulesValid ? preview : null}
+                  loading={previewSegment.loading}
+                />
+              </div>
             </div>
             <div className="flex justify-end space-x-2">
-              <Button variant="outline" onClick={() => {
-                setIsCreating(false);
-                setEditingId(null);
-              }}>
+              <Button variant="outline" onClick={resetForm}>
                 Cancel
               </Button>
-              <Button onClick={handleCreateSegment}>
-                {editingId ? "Save Changes" : "Create"}
+              <Button
+                onClick={handleSaveSegment}
+                disabled={createSegment.loading || updateSegment.loading}
+              >
+                {editingSegment ? "Save" : "Create"}
               </Button>
             </div>
           </DialogContent>
@@ -253,60 +338,116 @@ export default function SegmentsPage() {
             className="pl-8"
           />
         </div>
+        <Button
+          variant="outline"
+          onClick={handleCompare}
+          disabled={comparedIds.length < 2 || compareSegments.loading}
+          title="Tick two to four segments to compare them"
+        >
+          <GitCompare className="mr-2 h-4 w-4" />
+          Compare{comparedIds.length > 0 && ` (${comparedIds.length})`}
+        </Button>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {filteredSegments.length === 0 ? (
-          <div className="col-span-3 text-center py-10">
-            <p className="text-gray-500">
-              No segments found. Create your first segment!
-            </p>
-          </div>
-        ) : (
-          filteredSegments.map((segment) => (
-            <Card key={segment.id} className="relative group">
-              <CardHeader>
-                <div className="flex justify-between items-center">
-                  <CardTitle>{segment.name}</CardTitle>
-                  <div className="flex space-x-1 opacity-0 group-hover:opacity-100">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleEdit(segment)}
-                    >
-                      <EditIcon className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDelete(segment.id)}
+      <Dialog open={comparison !== null} onOpenChange={(open) => !open && setComparison(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Segment Comparison</DialogTitle>
+            <DialogDescription>
+              How the selected segments overlap and how their customers differ
+            </DialogDescription>
+          </DialogHeader>
+          {comparison && <SegmentComparisonView comparison={comparison} />}
+        </DialogContent>
+      </Dialog>
+
+      {loading ? (
+        <LoadingState label="Loading segments..." />
+      ) : error ? (
+        <ErrorState message={error} onRetry={retry} />
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {filteredSegments.length === 0 ? (
+            <div className="col-span-3 text-center py-10">
+              <p className="text-gray-500">
+                No segments found. Create your first segment!
+              </p>
+            </div>
+          ) : (
+            filteredSegments.map((segment) => (
+              <Card key={segment.id} className="relative group">
+                <CardHeader>
+                  <div className="flex justify-between items-center">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        aria-label="Select for comparison"
+                        checked={comparedIds.includes(segment.id)}
+                        disabled={
+                          !comparedIds.includes(segment.id) &&
+                          comparedIds.length >= MAX_COMPARED_SEGMENTS
+                        }
+                        onChange={() => toggleCompared(segment.id)}
+                      />
+                      <CardTitle>{segment.name}</CardTitle>
+                    </label>
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label="Edit"
+                        onClick={() => handleEdit(segment)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label="Duplicate"
+                        title="Copy this segment with its members"
+                        disabled={duplicateSegment.loading}
+                        onClick={() => handleDuplicate(segment)}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <ExportMenu segmentId={segment.id} label="" variant="ghost" size="sm" />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label="Delete"
+                        disabled={deleteSegment.loading}
+                        onClick={() => handleDelete(segment)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <CardDescription>{segment.description}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center space-x-2">
+                    <Users className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-sm text-muted-foreground">
+                      {segment._count?.customers ?? 0} customers
+                    </span>
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                        segment.isDynamic ? "bg-primary/10 text-primary" : "bg-gray-100 text-gray-600"
+                      }`}
                     >
-                      <DeleteIcon className="h-4 w-4" />
-                    </Button>
+                      {segment.isDynamic ? "Dynamic" : "Static"}
+                    </span>
                   </div>
-                </div>
-                <CardDescription>{segment.description}</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center space-x-2">
-                  <Users className="h-4 w-4 text-muted-foreground" />
-                  <span className="text-sm text-muted-foreground">
-                    {segment.matchedCustomerIds?.length ?? 0} customers
-                  </span>
-                </div>
-                <div className="mt-2">
-                  <p className="text-xs text-gray-500 font-medium">Rules:</p>
-                  <ul className="text-xs text-gray-500 list-disc pl-4 mt-1">
-                    {segment.rules.map((rule, index) => (
-                      <li key={index}>{rule}</li>
-                    ))}
-                  </ul>
-                </div>
-              </CardContent>
-            </Card>
-          ))
-        )}
-      </div>
+                  <div className="mt-2">
+                    <p className="text-xs text-gray-500 font-medium">Rules:</p>
+                    <p className="text-xs text-gray-500 mt-1">{formatRules(segment.rules)}</p>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,63 +1,97 @@
 'use client';
 
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
 import { useRouter } from 'next/navigation';
-import axios from 'axios';
-
-interface User {
-  id: string;
-  email: string;
-  name: string;
-}
-
-interface Campaign {
-  id: string;
-  name: string;
-  description: string;
-  message: string;
-  status: string;
-  scheduledFor: string | null;
-}
+import { AxiosError } from 'axios';
+import { api, authApi, TOKEN_KEY, User } from '@/lib/api';
+import { toast } from '@/components/ui/use-toast';
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
-  campaigns: Campaign[] | null;
   signIn: (credential?: string) => Promise<void>;
   signOut: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Reads the `exp` claim (in ms) from a JWT without verifying it
+const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [token, setToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
-  const [campaigns, setCampaigns] = useState<Campaign[] | null>(null);
   const router = useRouter();
 
+  const clearSession = useCallback(() => {
+    localStorage.removeItem(TOKEN_KEY);
+    setToken(null);
+    setUser(null);
+  }, []);
+
+  const expireSession = useCallback(() => {
+    clearSession();
+    toast({
+      title: 'Session expired',
+      description: 'Please sign in again.',
+      variant: 'destructive',
+    });
+    router.push('/');
+  }, [clearSession, router]);
+
+  // Restore the session from a stored token on page load
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      setLoading(false);
-      fetchCampaigns(token); // Fetch campaigns if a token exists (on page load or after login)
-    } else {
+    const storedToken = localStorage.getItem(TOKEN_KEY);
+    if (!storedToken) {
       setLoading(false);
+      return;
     }
-  }, []);
 
-  // Fetch campaigns after successful login
-  const fetchCampaigns = async (token: string) => {
-    try {
-      const response = await axios.get('/api/campaigns', {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-      setCampaigns(response.data); // Set campaigns after fetching
-    } catch (error) {
-      console.error('Error fetching campaigns:', error);
-    }
-  };
+    authApi
+      .verify()
+      .then((verifiedUser) => {
+        setUser(verifiedUser);
+        setToken(storedToken);
+      })
+      .catch((error) => {
+        console.error('Session restore failed:', error);
+        // Only drop the token when the server rejected it, not on network errors
+        if (error instanceof AxiosError && error.response?.status === 401) {
+          clearSession();
+        }
+      })
+      .finally(() => setLoading(false));
+  }, [clearSession]);
+
+  // Sign out when the token runs out, or when the API starts rejecting it
+  useEffect(() => {
+    if (!token) return;
+
+    const expiresAt = getTokenExpiry(token);
+    const timeoutId = expiresAt !== null
+      ? setTimeout(expireSession, Math.max(expiresAt - Date.now(), 0))
+      : undefined;
+
+    const interceptorId = api.interceptors.response.use(undefined, (error) => {
+      if (error instanceof AxiosError && error.response?.status === 401) {
+        expireSession();
+      }
+      return Promise.reject(error);
+    });
+
+    return () => {
+      clearTimeout(timeoutId);
+      api.interceptors.response.eject(interceptorId);
+    };
+  }, [token, expireSession]);
 
   const signIn = async (credential?: string) => {
     try {
@@ -65,17 +99,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         throw new Error('No credential provided');
       }
 
-      // For now, mock user creation (replace with actual login logic)
-      const mockUser = {
-        id: '1',
-        email: 'user@example.com',
-        name: 'Test User',
-      };
-
-      setUser(mockUser);
-      const token = 'mock-token'; // Get this from actual login logic
-      localStorage.setItem('token', token);
-      fetchCampaigns(token); // Fetch campaigns after login
+      // Exchange the Google credential for our own JWT
+      const session = await authApi.google(credential);
+      localStorage.setItem(TOKEN_KEY, session.token);
+      setToken(session.token);
+      setUser(session.user);
       router.push('/dashboard');
     } catch (error) {
       console.error('Sign in failed:', error);
@@ -84,14 +112,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const signOut = async () => {
-    localStorage.removeItem('token');
-    setUser(null);
-    setCampaigns(null); // Clear campaigns on logout
+    clearSession();
     router.push('/'); // Redirect to homepage or login page
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, campaigns, signIn, signOut }}>
+    <AuthContext.Provider value={{ user, loading, signIn, signOut }}>
       {children}
     </AuthContext.Provider>
   );
@@ -103,4 +129,4 @@ export function useAuth() {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-}
\ No newline at end of file
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import {
+  CAMPAIGN_CHANNELS,
+  CHANNEL_CONTACTS,
+  WHATSAPP_TEMPLATES,
+  composeWhatsAppMessage,
+  smsStats,
+} from '@shared/channels';
+import { templateErrors } from '@shared/template';
+import { CampaignChannel, CampaignInput } from '@/lib/api';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  MessagePreviewPanel,
+  MessageTemplateEditor,
+  TemplateErrors,
+} from '@/components/message-template-editor';
+
+export const CHANNEL_LABELS: Record<CampaignChannel, string> = {
+  EMAIL: 'Email',
+  SMS: 'SMS',
+  WHATSAPP: 'WhatsApp',
+};
+
+/** What the editor's fields hold, for every channel at once */
+export interface ChannelContent {
+  channel: CampaignChannel;
+  subject: string;
+  message: string;
+  whatsappTemplate: string;
+  whatsappParams: string[];
+}
+
+export const EMPTY_CHANNEL_CONTENT: ChannelContent = {
+  channel: 'EMAIL',
+  subject: '',
+  message: '',
+  whatsappTemplate: '',
+  whatsappParams: [],
+};
+
+type ChannelInput = Pick<CampaignInput, 'channel' | 'subject' | 'message' | 'whatsappTemplate' | 'whatsappParams'>;
+
+/**
+ * The campaign fields for the chosen channel's content, or a message saying
+ * what is missing or wrong.
+ */
+export function toChannelInput(content: ChannelContent): { value: ChannelInput } | { error: string } {
+  const { channel, subject, message, whatsappTemplate, whatsappParams } = content;
+
+  if (channel === 'WHATSAPP') {
+    const template = WHATSAPP_TEMPLATES[whatsappTemplate];
+    if (!template) return { error: 'Please pick a WhatsApp template.' };
+    for (let i = 0; i < template.params.length; i++) {
+      const param = whatsappParams[i] ?? '';
+      if (!param.trim()) return { error: `Please fill in "${template.params[i]}".` };
+      const [error] = templateErrors(param);
+      if (error) return { error: `Please fix "${template.params[i]}": ${error}` };
+    }
+    return { value: { channel, whatsappTemplate, whatsappParams } };
+  }
+
+  if (channel === 'EMAIL') {
+    if (!subject.trim()) return { error: 'Please fill in the email subject.' };
+    const [error] = templateErrors(subject);
+    if (error) return { error: `Please fix the subject: ${error}` };
+  }
+  if (!message.trim()) return { error: 'Please fill in the message.' };
+  const [error] = templateErrors(message);
+  if (error) return { error: `Please fix the message: ${error}` };
+
+  return { value: { channel, message, ...(channel === 'EMAIL' && { subject }) } };
+}
+
+function describeSms(text: string) {
+  const { characters, encoding, segments, perSegment } = smsStats(text);
+  return `${characters} characters · ${segments} segment${segments === 1 ? '' : 's'} of up to ${perSegment} (${encoding})`;
+}
+
+function WhatsAppEditor({
+  value,
+  onChange,
+  segmentId,
+  locked,
+}: {
+  value: ChannelContent;
+  onChange: (value: ChannelContent) => void;
+  segmentId: string;
+  locked?: boolean;
+}) {
+  const template = WHATSAPP_TEMPLATES[value.whatsappTemplate];
+  const paramErrors = value.whatsappParams.map((param) => templateErrors(param));
+  const complete = template && value.whatsappParams.every((param, i) => param.trim() && paramErrors[i].length === 0);
+
+  const setParam = (index: number, param: string) =>
+    onChange({ ...value, whatsappParams: value.whatsappParams.map((p, i) => (i === index ? param : p)) });
+
+  return (
+    <div className="space-y-2">
+      <Select
+        value={value.whatsappTemplate}
+        disabled={locked}
+        onValueChange={(name) =>
+          onChange({ ...value, whatsappTemplate: name, whatsappParams: WHATSAPP_TEMPLATES[name].params.map(() => '') })
+        }
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Select an approved template" />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(WHATSAPP_TEMPLATES).map(([name, { label, language }]) => (
+            <SelectItem key={name} value={name}>
+              {label} ({name}, {language})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {template && (
+        <>
+          <p className="rounded bg-gray-50 p-2 text-sm text-muted-foreground">{template.body}</p>
+          {template.params.map((param, i) => (
+            <div key={param} className="space-y-1">
+              <Label>
+                {`{{${i + 1}}}`} {param}
+              </Label>
+              <Input
+                value={value.whatsappParams[i] ?? ''}
+                onChange={(e) => setParam(i, e.target.value)}
+                placeholder={'e.g. {{firstName}}'}
+              />
+              <TemplateErrors errors={paramErrors[i] ?? []} />
+            </div>
+          ))}
+        </>
+      )}
+
+      {complete && segmentId && (
+        <MessagePreviewPanel
+          segmentId={segmentId}
+          message={composeWhatsAppMessage(value.whatsappTemplate, value.whatsappParams)}
+        />
+      )}
+    </div>
+  );
+}
+
+interface CampaignChannelEditorProps {
+  value: ChannelContent;
+  onChange: (value: ChannelContent) => void;
+  segmentId: string;
+  /** The channel and WhatsApp template are picked elsewhere, e.g. for another A/B variant */
+  locked?: boolean;
+}
+
+/** Channel selection and the content editor for the chosen channel */
+export function CampaignChannelEditor({ value, onChange, segmentId, locked }: CampaignChannelEditorProps) {
+  const subjectErrors = templateErrors(value.subject);
+
+  return (
+    <div className="grid gap-4">
+      {!locked && (
+        <div className="space-y-1">
+          <Select
+            value={value.channel}
+            onValueChange={(channel) => onChange({ ...value, channel: channel as CampaignChannel })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CAMPAIGN_CHANNELS.map((channel) => (
+                <SelectItem key={channel} value={channel}>
+                  {CHANNEL_LABELS[channel]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Customers with no {CHANNEL_CONTACTS[value.channel].label} are skipped.
+          </p>
+        </div>
+      )}
+
+      {value.channel === 'EMAIL' && (
+        <>
+          <Label>Subject</Label>
+          <Input value={value.subject} onChange={(e) => onChange({ ...value, subject: e.target.value })} />
+          <TemplateErrors errors={subjectErrors} />
+          <Label>Body</Label>
+          <MessageTemplateEditor
+            value={value.message}
+            onChange={(message) => onChange({ ...value, message })}
+            segmentId={segmentId}
+          />
+        </>
+      )}
+
+      {value.channel === 'SMS' && (
+        <>
+          <Label>Message</Label>
+          <MessageTemplateEditor
+            value={value.message}
+            onChange={(message) => onChange({ ...value, message })}
+            segmentId={segmentId}
+            footer={
+              <p className="text-xs text-muted-foreground">
+                Template: {describeSms(value.message)}. Personalized messages vary in length.
+              </p>
+            }
+            describePreview={describeSms}
+          />
+        </>
+      )}
+
+      {value.channel === 'WHATSAPP' && (
+        <>
+          <Label>Template</Label>
+          <WhatsAppEditor value={value} onChange={onChange} segmentId={segmentId} locked={locked} />
+        </>
+      )}
+    </div>
+  );
+}
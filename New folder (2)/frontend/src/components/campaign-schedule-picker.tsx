@@ -0,0 +1,210 @@
+'use client';
+
+import { nextCronTime, parseCron } from '@shared/cron';
+import { CampaignInput } from '@/lib/api';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export type ScheduleMode = 'now' | 'once' | 'daily' | 'weekly' | 'custom';
+
+/** What the picker's fields hold; see `toScheduleInput` for what is sent */
+export interface ScheduleDraft {
+  mode: ScheduleMode;
+  /** `datetime-local` value, in the browser's time zone */
+  sendAt: string;
+  /** HH:MM in UTC, for daily and weekly schedules */
+  time: string;
+  /** 0-6 from Sunday */
+  weekday: string;
+  cron: string;
+}
+
+export const EMPTY_SCHEDULE: ScheduleDraft = {
+  mode: 'now',
+  sendAt: '',
+  time: '09:00',
+  weekday: '1',
+  cron: '',
+};
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const UPCOMING_RUNS = 3;
+
+const MODE_LABELS: Record<ScheduleMode, string> = {
+  now: 'Send now',
+  once: 'Schedule once',
+  daily: 'Repeat daily',
+  weekly: 'Repeat weekly',
+  custom: 'Custom (cron)',
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function recurrenceOf(draft: ScheduleDraft): string | undefined {
+  const [hour, minute] = draft.time.split(':').map(Number);
+  switch (draft.mode) {
+    case 'daily':
+      return `${minute} ${hour} * * *`;
+    case 'weekly':
+      return `${minute} ${hour} * * ${draft.weekday}`;
+    case 'custom':
+      return draft.cron.trim();
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The schedule fields of a campaign for `draft`, or a message saying what
+ * is missing.
+ */
+export function toScheduleInput(
+  draft: ScheduleDraft
+): { value: Pick<CampaignInput, 'scheduledFor' | 'recurrence'> } | { error: string } {
+  if (draft.mode === 'now') return { value: {} };
+
+  if (draft.mode === 'once') {
+    const sendAt = new Date(draft.sendAt);
+    if (!draft.sendAt || Number.isNaN(sendAt.getTime())) {
+      return { error: 'Pick when to send the campaign.' };
+    }
+    return { value: { scheduledFor: sendAt.toISOString() } };
+  }
+
+  if (draft.mode !== 'custom' && !/^\d{2}:\d{2}$/.test(draft.time)) {
+    return { error: 'Pick a time for the campaign to repeat at.' };
+  }
+  const recurrence = recurrenceOf(draft) ?? '';
+  try {
+    parseCron(recurrence);
+  } catch (err) {
+    return { error: `Invalid cron expression: ${(err as Error).message}.` };
+  }
+  if (!nextCronTime(recurrence, new Date())) {
+    return { error: 'This schedule never runs.' };
+  }
+  return { value: { recurrence } };
+}
+
+/** e.g. "Weekly on Monday at 09:00 UTC", or the expression itself */
+export function describeRecurrence(recurrence: string): string {
+  const match = /^(\d{1,2}) (\d{1,2}) \* \* (\*|[0-6])$/.exec(recurrence.trim());
+  if (!match) return `Cron "${recurrence}" (UTC)`;
+
+  const [, minute, hour, weekday] = match;
+  const time = `${pad(Number(hour))}:${pad(Number(minute))} UTC`;
+  return weekday === '*' ? `Daily at ${time}` : `Weekly on ${WEEKDAYS[Number(weekday)]} at ${time}`;
+}
+
+export function formatUtc(date: Date | string): string {
+  return `${new Date(date).toLocaleString(undefined, {
+    timeZone: 'UTC',
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })} UTC`;
+}
+
+function upcomingRuns(recurrence: string): Date[] {
+  const runs: Date[] = [];
+  let after = new Date();
+  while (runs.length < UPCOMING_RUNS) {
+    const next = nextCronTime(recurrence, after);
+    if (!next) break;
+    runs.push(next);
+    after = next;
+  }
+  return runs;
+}
+
+interface CampaignSchedulePickerProps {
+  value: ScheduleDraft;
+  onChange: (value: ScheduleDraft) => void;
+  /** Offer "Send now"; off when rescheduling */
+  allowNow?: boolean;
+}
+
+export function CampaignSchedulePicker({ value, onChange, allowNow = true }: CampaignSchedulePickerProps) {
+  const update = (changes: Partial<ScheduleDraft>) => onChange({ ...value, ...changes });
+  const modes = (Object.keys(MODE_LABELS) as ScheduleMode[]).filter((mode) => allowNow || mode !== 'now');
+
+  const input = toScheduleInput(value);
+  const recurrence = 'value' in input ? input.value.recurrence : undefined;
+  const runs = recurrence ? upcomingRuns(recurrence) : [];
+
+  return (
+    <div className="space-y-2">
+      <Select value={value.mode} onValueChange={(mode) => update({ mode: mode as ScheduleMode })}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {modes.map((mode) => (
+            <SelectItem key={mode} value={mode}>
+              {MODE_LABELS[mode]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value.mode === 'once' && (
+        <Input
+          type="datetime-local"
+          value={value.sendAt}
+          onChange={(e) => update({ sendAt: e.target.value })}
+        />
+      )}
+
+      {value.mode === 'weekly' && (
+        <Select value={value.weekday} onValueChange={(weekday) => update({ weekday })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WEEKDAYS.map((day, i) => (
+              <SelectItem key={day} value={String(i)}>
+                {day}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {(value.mode === 'daily' || value.mode === 'weekly') && (
+        <div className="flex items-center gap-2">
+          <Label className="shrink-0">At (UTC)</Label>
+          <Input type="time" value={value.time} onChange={(e) => update({ time: e.target.value })} />
+        </div>
+      )}
+
+      {value.mode === 'custom' && (
+        <Input
+          placeholder="e.g. 0 9 * * 1-5"
+          value={value.cron}
+          onChange={(e) => update({ cron: e.target.value })}
+        />
+      )}
+
+      {value.mode === 'custom' && value.cron.trim() && 'error' in input && (
+        <p className="text-sm text-red-500">{input.error}</p>
+      )}
+
+      {runs.length > 0 && (
+        <div className="text-sm text-muted-foreground">
+          <p>Each run sends to the segment&apos;s members at that time. Next runs:</p>
+          <ul className="list-disc pl-5">
+            {runs.map((run) => (
+              <li key={run.toISOString()}>{formatUtc(run)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
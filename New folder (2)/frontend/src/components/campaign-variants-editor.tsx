@@ -0,0 +1,211 @@
+'use client';
+
+import { AB_WINNER_METRICS, MAX_CAMPAIGN_VARIANTS } from '@shared/schema';
+import { WHATSAPP_TEMPLATES } from '@shared/channels';
+import { CampaignAbTestInput, CampaignInput } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  CampaignChannelEditor,
+  ChannelContent,
+  EMPTY_CHANNEL_CONTENT,
+  toChannelInput,
+} from '@/components/campaign-channel-editor';
+
+type WinnerMetric = CampaignAbTestInput['winnerMetric'];
+
+const METRIC_LABELS: Record<WinnerMetric, string> = {
+  DELIVERY: 'Delivery rate',
+  OPEN: 'Open rate',
+  CLICK: 'Click rate',
+};
+
+/**
+ * What the editor's fields hold. Variant A is the campaign's own content,
+ * edited outside; `variants` are B, C, ...
+ */
+export interface VariantsDraft {
+  enabled: boolean;
+  variants: ChannelContent[];
+  /** Percent per variant, A first */
+  weights: string[];
+  test: boolean;
+  testPercent: string;
+  waitMinutes: string;
+  winnerMetric: WinnerMetric;
+}
+
+export const EMPTY_VARIANTS: VariantsDraft = {
+  enabled: false,
+  variants: [EMPTY_CHANNEL_CONTENT],
+  weights: ['50', '50'],
+  test: false,
+  testPercent: '20',
+  waitMinutes: '240',
+  winnerMetric: 'CLICK',
+};
+
+const label = (index: number) => String.fromCharCode(65 + index);
+
+// A variant's content on the campaign's channel and WhatsApp template
+function onMainChannel(content: ChannelContent, main: ChannelContent): ChannelContent {
+  const template = WHATSAPP_TEMPLATES[main.whatsappTemplate];
+  return {
+    ...content,
+    channel: main.channel,
+    whatsappTemplate: main.whatsappTemplate,
+    whatsappParams: template ? template.params.map((_, i) => content.whatsappParams[i] ?? '') : [],
+  };
+}
+
+/**
+ * The A/B fields of a campaign whose own content is `main`, or a message
+ * saying what is missing or wrong.
+ */
+export function toVariantsInput(
+  draft: VariantsDraft,
+  main: ChannelContent
+): { value: Pick<CampaignInput, 'variants' | 'abTest'> } | { error: string } {
+  if (!draft.enabled) return { value: {} };
+
+  const contents = [main, ...draft.variants.map((content) => onMainChannel(content, main))];
+  const variants = [];
+  for (let i = 0; i < contents.length; i++) {
+    const input = toChannelInput(contents[i]);
+    if ('error' in input) return { error: `Variant ${label(i)}: ${input.error}` };
+
+    const weight = Number(draft.weights[i]);
+    if (!Number.isInteger(weight) || weight < 1 || weight > 99) {
+      return { error: `Variant ${label(i)}: the split must be a whole percent from 1 to 99.` };
+    }
+    const { subject, message, whatsappParams } = input.value;
+    variants.push({ weight, subject, message, whatsappParams });
+  }
+  const total = variants.reduce((sum, { weight }) => sum + weight, 0);
+  if (total !== 100) return { error: `The split adds up to ${total}%, not 100%.` };
+
+  if (!draft.test) return { value: { variants } };
+
+  const testPercent = Number(draft.testPercent);
+  const waitMinutes = Number(draft.waitMinutes);
+  if (!Number.isInteger(testPercent) || testPercent < 5 || testPercent > 50) {
+    return { error: 'The test slice must be a whole percent from 5 to 50.' };
+  }
+  if (!Number.isInteger(waitMinutes) || waitMinutes < 5) {
+    return { error: 'Wait at least 5 minutes before picking the winner.' };
+  }
+  if (draft.winnerMetric === 'OPEN' && main.channel !== 'EMAIL') {
+    return { error: 'Opens are only tracked for email; pick the winner by another rate.' };
+  }
+  return { value: { variants, abTest: { testPercent, waitMinutes, winnerMetric: draft.winnerMetric } } };
+}
+
+interface CampaignVariantsEditorProps {
+  value: VariantsDraft;
+  onChange: (value: VariantsDraft) => void;
+  /** The campaign's own content, i.e. variant A */
+  main: ChannelContent;
+  segmentId: string;
+}
+
+/** Extra message variants to A/B test against the campaign's own content */
+export function CampaignVariantsEditor({ value, onChange, main, segmentId }: CampaignVariantsEditorProps) {
+  const update = (changes: Partial<VariantsDraft>) => onChange({ ...value, ...changes });
+
+  const setVariant = (index: number, content: ChannelContent) =>
+    update({ variants: value.variants.map((v, i) => (i === index ? content : v)) });
+  const setWeight = (index: number, weight: string) =>
+    update({ weights: value.weights.map((w, i) => (i === index ? weight : w)) });
+
+  const addVariant = () =>
+    update({ variants: [...value.variants, EMPTY_CHANNEL_CONTENT], weights: [...value.weights, '0'] });
+  const removeVariant = (index: number) =>
+    update({
+      variants: value.variants.filter((_, i) => i !== index),
+      weights: value.weights.filter((_, i) => i !== index + 1),
+    });
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={value.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+        A/B test the message
+      </label>
+
+      {value.enabled && (
+        <>
+          <div className="flex items-center gap-2">
+            <Label className="w-40 shrink-0">Variant A split (%)</Label>
+            <Input value={value.weights[0]} onChange={(e) => setWeight(0, e.target.value)} />
+          </div>
+
+          {value.variants.map((content, i) => (
+            <div key={i} className="rounded border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Label className="w-40 shrink-0">Variant {label(i + 1)} split (%)</Label>
+                <Input value={value.weights[i + 1]} onChange={(e) => setWeight(i + 1, e.target.value)} />
+                {value.variants.length > 1 && (
+                  <Button variant="outline" size="sm" onClick={() => removeVariant(i)}>
+                    Remove
+                  </Button>
+                )}
+              </div>
+              <CampaignChannelEditor
+                value={onMainChannel(content, main)}
+                onChange={(changed) => setVariant(i, changed)}
+                segmentId={segmentId}
+                locked
+              />
+            </div>
+          ))}
+
+          {value.variants.length + 1 < MAX_CAMPAIGN_VARIANTS && (
+            <Button variant="outline" size="sm" onClick={addVariant}>
+              Add Variant
+            </Button>
+          )}
+
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={value.test} onChange={(e) => update({ test: e.target.checked })} />
+            Test on a slice first, then send the winner to the rest
+          </label>
+
+          {value.test && (
+            <div className="grid grid-cols-2 items-center gap-2">
+              <Label>Test slice (% of recipients)</Label>
+              <Input value={value.testPercent} onChange={(e) => update({ testPercent: e.target.value })} />
+              <Label>Wait (minutes)</Label>
+              <Input value={value.waitMinutes} onChange={(e) => update({ waitMinutes: e.target.value })} />
+              <Label>Winner by</Label>
+              <Select
+                value={value.winnerMetric}
+                onValueChange={(metric) => update({ winnerMetric: metric as WinnerMetric })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AB_WINNER_METRICS.filter((metric) => metric !== 'OPEN' || main.channel === 'EMAIL').map(
+                    (metric) => (
+                      <SelectItem key={metric} value={metric}>
+                        {METRIC_LABELS[metric]}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+/** Filter bar state, kept as raw strings so it round-trips through the URL */
+export interface CustomerFilterValues {
+  search: string;
+  minSpend: string;
+  maxSpend: string;
+  minVisits: string;
+  maxVisits: string;
+  lastVisitFrom: string;
+  lastVisitTo: string;
+}
+
+export const EMPTY_CUSTOMER_FILTERS: CustomerFilterValues = {
+  search: '',
+  minSpend: '',
+  maxSpend: '',
+  minVisits: '',
+  maxVisits: '',
+  lastVisitFrom: '',
+  lastVisitTo: '',
+};
+
+interface CustomerFiltersProps {
+  value: CustomerFilterValues;
+  onApply: (value: CustomerFilterValues) => void;
+}
+
+const RANGES: {
+  label: string;
+  from: keyof CustomerFilterValues;
+  to: keyof CustomerFilterValues;
+  type: 'number' | 'date';
+}[] = [
+  { label: 'Total spend', from: 'minSpend', to: 'maxSpend', type: 'number' },
+  { label: 'Visits', from: 'minVisits', to: 'maxVisits', type: 'number' },
+  { label: 'Last visit', from: 'lastVisitFrom', to: 'lastVisitTo', type: 'date' },
+];
+
+export function CustomerFilters({ value, onApply }: CustomerFiltersProps) {
+  const [draft, setDraft] = useState(value);
+
+  // Follow the applied filters when they change from outside, e.g. on
+  // back/forward navigation
+  const applied = JSON.stringify(value);
+  useEffect(() => {
+    setDraft(JSON.parse(applied));
+  }, [applied]);
+
+  const isFiltered = Object.values(value).some((v) => v !== '');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onApply(draft);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border p-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          className="pl-9"
+          placeholder="Search by name, email or phone"
+          value={draft.search}
+          onChange={(e) => setDraft({ ...draft, search: e.target.value })}
+        />
+      </div>
+      <div className="grid gap-4 md:grid-cols-3">
+        {RANGES.map(({ label, from, to, type }) => (
+          <div key={label} className="space-y-2">
+            <Label>{label}</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type={type}
+                min={type === 'number' ? '0' : undefined}
+                placeholder="Min"
+                value={draft[from]}
+                onChange={(e) => setDraft({ ...draft, [from]: e.target.value })}
+              />
+              <span className="text-muted-foreground">–</span>
+              <Input
+                type={type}
+                min={type === 'number' ? '0' : undefined}
+                placeholder="Max"
+                value={draft[to]}
+                onChange={(e) => setDraft({ ...draft, [to]: e.target.value })}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        {isFiltered && (
+          <Button type="button" variant="ghost" onClick={() => onApply(EMPTY_CUSTOMER_FILTERS)}>
+            <X className="mr-2 h-4 w-4" /> Clear
+          </Button>
+        )}
+        <Button type="submit">Apply filters</Button>
+      </div>
+    </form>
+  );
+}
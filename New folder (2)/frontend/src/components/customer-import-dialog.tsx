@@ -0,0 +1,267 @@
+'use client';
+
+import { ChangeEvent, useState } from 'react';
+import { FileUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CustomerImportField, CustomerImportReport, customersApi } from '@/lib/api';
+import { useApiMutation } from '@/lib/hooks';
+import { toast } from '@/components/ui/use-toast';
+import { CUSTOMER_IMPORT_FIELDS } from '@shared/schema';
+
+// Radix Select items can't have an empty value
+const IGNORE = '__ignore';
+
+const FIELD_LABELS: Record<CustomerImportField, string> = {
+  email: 'Email',
+  name: 'Name',
+  phone: 'Phone',
+  orderAmount: 'Order amount',
+  orderStatus: 'Order status',
+  orderDate: 'Order date',
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  created: 'text-green-600',
+  updated: 'text-blue-600',
+  skipped: 'text-yellow-600',
+  error: 'text-red-600',
+};
+
+type Step = 'file' | 'mapping' | 'preview';
+
+interface CustomerImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+export function CustomerImportDialog({ open, onOpenChange, onImported }: CustomerImportDialogProps) {
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<'csv' | 'json'>('csv');
+  const [content, setContent] = useState('');
+  const [columns, setColumns] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Record<string, CustomerImportField | undefined>>({});
+  const [skipExisting, setSkipExisting] = useState(false);
+  const [report, setReport] = useState<CustomerImportReport | null>(null);
+
+  const runImport = useApiMutation(customersApi.import);
+
+  const reset = () => {
+    setStep('file');
+    setFileName('');
+    setContent('');
+    setColumns([]);
+    setMapping({});
+    setSkipExisting(false);
+    setReport(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  // Read the file and let the server suggest a column mapping
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const fileFormat = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    const text = await file.text();
+    const result = await runImport.mutate({ format: fileFormat, content: text, dryRun: true });
+    if (!result) return;
+
+    setFileName(file.name);
+    setFormat(fileFormat);
+    setContent(text);
+    setColumns(result.columns);
+    setMapping(result.mapping);
+    setStep('mapping');
+  };
+
+  const handlePreview = async () => {
+    const result = await runImport.mutate({
+      format,
+      content,
+      mapping,
+      dryRun: true,
+      onDuplicate: skipExisting ? 'skip' : 'update',
+    });
+    if (!result) return;
+
+    setReport(result);
+    setStep('preview');
+  };
+
+  const handleCommit = async () => {
+    const result = await runImport.mutate({
+      format,
+      content,
+      mapping,
+      dryRun: false,
+      onDuplicate: skipExisting ? 'skip' : 'update',
+    });
+    if (!result) return;
+
+    const { created, updated, skipped, error } = result.summary;
+    toast({
+      title: 'Import finished',
+      description: `${created} created, ${updated} updated, ${skipped} skipped, ${error} failed.`,
+    });
+    handleOpenChange(false);
+    onImported();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Customers</DialogTitle>
+          <DialogDescription>
+            {step === 'file' && 'Upload a CSV or JSON file of customers.'}
+            {step === 'mapping' && `Map the columns of ${fileName} to customer fields.`}
+            {step === 'preview' && 'Review what will happen before importing.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="space-y-2 py-4">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              disabled={runImport.loading}
+              onChange={handleFileChange}
+            />
+            <p className="text-xs text-muted-foreground">
+              Rows are matched to existing customers by email. Map an order amount column to
+              also create historical orders.
+            </p>
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <div className="space-y-3 py-4">
+            {columns.map((column) => (
+              <div key={column} className="grid grid-cols-2 items-center gap-4">
+                <Label className="truncate">{column}</Label>
+                <Select
+                  value={mapping[column] ?? IGNORE}
+                  onValueChange={(value) =>
+                    setMapping({
+                      ...mapping,
+                      [column]: value === IGNORE ? undefined : (value as CustomerImportField),
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={IGNORE}>Ignore column</SelectItem>
+                    {CUSTOMER_IMPORT_FIELDS.map((field) => (
+                      <SelectItem key={field} value={field}>
+                        {FIELD_LABELS[field]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={skipExisting}
+                onChange={(e) => setSkipExisting(e.target.checked)}
+              />
+              <span>Skip customers that already exist instead of updating them</span>
+            </label>
+          </div>
+        )}
+
+        {step === 'preview' && report && (
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-4 gap-2 text-center text-sm">
+              {(['created', 'updated', 'skipped', 'error'] as const).map((status) => (
+                <div key={status} className="rounded border p-2">
+                  <strong className={STATUS_COLORS[status]}>{report.summary[status]}</strong>
+                  <div className="text-muted-foreground capitalize">{status}</div>
+                </div>
+              ))}
+            </div>
+            <div className="max-h-64 overflow-y-auto rounded border">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-background">
+                  <tr className="border-b text-left">
+                    <th className="p-2">Row</th>
+                    <th className="p-2">Email</th>
+                    <th className="p-2">Result</th>
+                    <th className="p-2">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rows.map((row) => (
+                    <tr key={row.row} className="border-b last:border-0">
+                      <td className="p-2">{row.row}</td>
+                      <td className="p-2">{row.email ?? '-'}</td>
+                      <td className={`p-2 capitalize ${STATUS_COLORS[row.status]}`}>{row.status}</td>
+                      <td className="p-2 text-muted-foreground">
+                        {row.message ?? (row.ordersCreated > 0 ? `${row.ordersCreated} order` : '')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button onClick={handlePreview} disabled={runImport.loading}>
+                Preview
+              </Button>
+            </>
+          )}
+          {step === 'preview' && report && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')}>
+                Back
+              </Button>
+              <Button
+                onClick={handleCommit}
+                disabled={runImport.loading || report.summary.created + report.summary.updated === 0}
+              >
+                <FileUp className="mr-2 h-4 w-4" />
+                Import {report.summary.created + report.summary.updated} rows
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
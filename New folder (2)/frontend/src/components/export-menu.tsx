@@ -0,0 +1,47 @@
+'use client';
+
+import { Download } from 'lucide-react';
+import { Button, ButtonProps } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { customersApi } from '@/lib/api';
+import { useApiMutation } from '@/lib/hooks';
+import { downloadBlob } from '@/lib/utils';
+
+interface ExportMenuProps {
+  /** Export only this segment's members instead of every customer */
+  segmentId?: string;
+  label?: string;
+  variant?: ButtonProps['variant'];
+  size?: ButtonProps['size'];
+}
+
+export function ExportMenu({ segmentId, label = 'Export', variant = 'outline', size }: ExportMenuProps) {
+  const exportCustomers = useApiMutation(customersApi.export);
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    const file = await exportCustomers.mutate({ format, segmentId });
+    if (file) {
+      downloadBlob(file.blob, file.filename);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant={variant} size={size} disabled={exportCustomers.loading}>
+          <Download className={label ? 'mr-2 h-4 w-4' : 'h-4 w-4'} />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport('csv')}>Export as CSV</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('json')}>Export as JSON</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
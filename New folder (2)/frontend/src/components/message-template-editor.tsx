@@ -0,0 +1,188 @@
+'use client';
+
+import { ReactNode, useEffect, useMemo, useRef, useState } from 'react';
+import { TEMPLATE_FIELDS, templateErrors } from '@shared/template';
+import { MessagePreview, campaignsApi } from '@/lib/api';
+import { useApiMutation } from '@/lib/hooks';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const PREVIEW_DELAY_MS = 400;
+
+interface MessagePreviewPanelProps {
+  /** Recipients for the preview come from this segment */
+  segmentId: string;
+  /** A valid message template */
+  message: string;
+  /** Extra detail about the rendered message, e.g. its SMS length */
+  describe?: (rendered: string) => ReactNode;
+}
+
+/**
+ * The message as a chosen recipient in the segment will get it, rendered by
+ * the API once typing pauses.
+ */
+export function MessagePreviewPanel({ segmentId, message, describe }: MessagePreviewPanelProps) {
+  const [search, setSearch] = useState('');
+  const [customerId, setCustomerId] = useState<string | undefined>(undefined);
+  const [preview, setPreview] = useState<MessagePreview | null>(null);
+  const previewMessage = useApiMutation(campaignsApi.previewMessage);
+  const { mutate: fetchPreview } = previewMessage;
+
+  // A chosen recipient may not be in another segment
+  useEffect(() => {
+    setCustomerId(undefined);
+  }, [segmentId]);
+
+  // Responses for an outdated template are dropped
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      fetchPreview({ segmentId, message, customerId, search: search || undefined }).then((result) => {
+        if (!cancelled) setPreview(result ?? null);
+      });
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [fetchPreview, segmentId, message, customerId, search]);
+
+  const recipients = preview?.recipients ?? [];
+
+  return (
+    <div className={`rounded border p-3 space-y-2 ${previewMessage.loading ? 'opacity-60' : ''}`}>
+      <div className="flex gap-2">
+        <Input
+          placeholder="Find a recipient"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setCustomerId(undefined);
+          }}
+        />
+        <Select
+          value={preview?.customer?.id ?? ''}
+          onValueChange={setCustomerId}
+          disabled={recipients.length === 0}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="No recipients" />
+          </SelectTrigger>
+          <SelectContent>
+            {recipients.map((recipient) => (
+              <SelectItem key={recipient.id} value={recipient.id}>
+                {recipient.name} ({recipient.email})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {preview?.rendered != null ? (
+        <>
+          <p className="whitespace-pre-wrap text-sm">{preview.rendered}</p>
+          {describe && <div className="text-xs text-muted-foreground">{describe(preview.rendered)}</div>}
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {previewMessage.loading ? 'Rendering preview...' : 'No one in this segment to preview for.'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/** Lists a template's mistakes, if it has any */
+export function TemplateErrors({ errors }: { errors: string[] }) {
+  if (errors.length === 0) return null;
+  return (
+    <ul className="list-disc pl-5 text-sm text-red-500">
+      {errors.map((error) => (
+        <li key={error}>{error}</li>
+      ))}
+    </ul>
+  );
+}
+
+interface MessageTemplateEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Recipients for the preview come from this segment; no preview without one */
+  segmentId: string;
+  /** Shown under the template, e.g. its length */
+  footer?: ReactNode;
+  describePreview?: (rendered: string) => ReactNode;
+}
+
+/**
+ * A message template field with its tokens at hand, the template's mistakes
+ * as they are typed, and the message as a chosen recipient will get it.
+ */
+export function MessageTemplateEditor({
+  value,
+  onChange,
+  segmentId,
+  footer,
+  describePreview,
+}: MessageTemplateEditorProps) {
+  const textarea = useRef<HTMLTextAreaElement>(null);
+  const errors = useMemo(() => templateErrors(value), [value]);
+  const canPreview = segmentId !== '' && value.trim() !== '' && errors.length === 0;
+
+  const insertToken = (field: string) => {
+    const token = `{{${field}}}`;
+    const el = textarea.current;
+    const start = el ? el.selectionStart : value.length;
+    const end = el ? el.selectionEnd : value.length;
+    onChange(value.slice(0, start) + token + value.slice(end));
+
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        ref={textarea}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={'Hi {{firstName | default: "there"}}, ...'}
+      />
+      {footer}
+
+      <div className="flex flex-wrap gap-1">
+        {Object.entries(TEMPLATE_FIELDS).map(([field, { description }]) => (
+          <button
+            key={field}
+            type="button"
+            title={description}
+            onClick={() => insertToken(field)}
+            className="rounded border px-2 py-0.5 font-mono text-xs hover:bg-gray-100"
+          >
+            {`{{${field}}}`}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Filters: {'{{lastVisit | date}}'}, {'{{totalSpend | money}}'}, {'{{name | upper}}'},{' '}
+        {'{{phone | default: "n/a"}}'}. Conditionals: {'{{#if visitCount > 5}}...{{else}}...{{/if}}'}.
+      </p>
+
+      <TemplateErrors errors={errors} />
+
+      {canPreview && (
+        <MessagePreviewPanel segmentId={segmentId} message={value} describe={describePreview} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { AlertCircle, RotateCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+export function LoadingState({ label = 'Loading...' }: { label?: string }) {
+  return (
+    <div className="flex items-center justify-center space-x-2 py-10">
+      <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+      <p className="text-sm text-muted-foreground">{label}</p>
+    </div>
+  );
+}
+
+export function ErrorState({ message, onRetry }: { message: string; onRetry: () => void }) {
+  return (
+    <div className="flex flex-col items-center justify-center space-y-3 py-10 text-center">
+      <AlertCircle className="h-8 w-8 text-destructive" />
+      <p className="text-sm text-muted-foreground">{message}</p>
+      <Button variant="outline" size="sm" onClick={onRetry}>
+        <RotateCw className="mr-2 h-4 w-4" /> Retry
+      </Button>
+    </div>
+  );
+}
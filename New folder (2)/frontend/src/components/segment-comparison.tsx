@@ -0,0 +1,196 @@
+'use client';
+
+import { SegmentComparison, SegmentOverlapRegion } from '@/lib/api';
+
+const COLORS = ['#3b82f6', '#f97316', '#22c55e', '#a855f7'];
+
+// Circle centres for two, three and four segments in a 300x220 view box
+const LAYOUTS: Record<number, { x: number; y: number; r: number }[]> = {
+  2: [
+    { x: 115, y: 110, r: 75 },
+    { x: 185, y: 110, r: 75 },
+  ],
+  3: [
+    { x: 115, y: 90, r: 65 },
+    { x: 185, y: 90, r: 65 },
+    { x: 150, y: 150, r: 65 },
+  ],
+  4: [
+    { x: 110, y: 80, r: 58 },
+    { x: 190, y: 80, r: 58 },
+    { x: 110, y: 140, r: 58 },
+    { x: 190, y: 140, r: 58 },
+  ],
+};
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const formatAverage = (value: number | null, digits = 2) =>
+  value === null ? '-' : value.toFixed(digits);
+
+interface VennDiagramProps {
+  comparison: SegmentComparison;
+}
+
+/**
+ * Overlapping circles, one per segment. Region counts are placed at the
+ * middle of the circles they belong to, pushed away from the others. With
+ * four segments some regions can't be drawn, so only the totals are shown
+ * and the region list carries the detail.
+ */
+function VennDiagram({ comparison }: VennDiagramProps) {
+  const { segments, regions } = comparison;
+  const circles = LAYOUTS[segments.length];
+  const centre = { x: mean(circles.map((c) => c.x)), y: mean(circles.map((c) => c.y)) };
+
+  const regionPosition = (region: SegmentOverlapRegion) => {
+    const members = region.segmentIds.map((id) => circles[segments.findIndex((s) => s.id === id)]);
+    const x = mean(members.map((c) => c.x));
+    const y = mean(members.map((c) => c.y));
+    return { x: x + (x - centre.x) * 0.6, y: y + (y - centre.y) * 0.6 };
+  };
+
+  return (
+    <svg viewBox="0 0 300 220" className="mx-auto h-56 w-full max-w-sm">
+      {circles.map((circle, i) => (
+        <circle
+          key={segments[i].id}
+          cx={circle.x}
+          cy={circle.y}
+          r={circle.r}
+          fill={COLORS[i]}
+          fillOpacity={0.2}
+          stroke={COLORS[i]}
+          strokeWidth={2}
+        />
+      ))}
+      {segments.length < 4
+        ? regions.map((region) => {
+            const { x, y } = regionPosition(region);
+            return (
+              <text
+                key={region.segmentIds.join()}
+                x={x}
+                y={y}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                className="fill-foreground text-xs font-semibold"
+              >
+                {region.count}
+              </text>
+            );
+          })
+        : (
+            <text
+              x={centre.x}
+              y={centre.y}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              className="fill-foreground text-xs font-semibold"
+            >
+              {comparison.intersectionCount}
+            </text>
+          )}
+    </svg>
+  );
+}
+
+interface SegmentComparisonViewProps {
+  comparison: SegmentComparison;
+}
+
+export function SegmentComparisonView({ comparison }: SegmentComparisonViewProps) {
+  const { segments } = comparison;
+  const nameOf = (id: string) => segments.find((s) => s.id === id)?.name ?? id;
+  const colorOf = (id: string) => COLORS[segments.findIndex((s) => s.id === id)];
+
+  const regions = [...comparison.regions].sort(
+    (a, b) => a.segmentIds.length - b.segmentIds.length || b.count - a.count
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <VennDiagram comparison={comparison} />
+          <div className="flex flex-wrap justify-center gap-3 text-xs">
+            {segments.map((segment) => (
+              <span key={segment.id} className="flex items-center gap-1">
+                <span
+                  className="inline-block h-3 w-3 rounded-full"
+                  style={{ backgroundColor: colorOf(segment.id) }}
+                />
+                {segment.name}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-3 text-sm">
+          <p>
+            <strong>{comparison.unionCount}</strong> customers in any segment,{' '}
+            <strong>{comparison.intersectionCount}</strong> in all of them.
+          </p>
+          <div>
+            <p className="mb-1 text-xs font-medium text-muted-foreground">Pairwise overlap</p>
+            <ul className="space-y-1">
+              {comparison.pairwise.map(({ segmentIds: [a, b], count }) => (
+                <li key={`${a}-${b}`} className="flex justify-between">
+                  <span>
+                    {nameOf(a)} ∩ {nameOf(b)}
+                  </span>
+                  <strong>{count}</strong>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <p className="mb-1 text-xs font-medium text-muted-foreground">
+              Customers in exactly these segments
+            </p>
+            <ul className="space-y-1">
+              {regions.map(({ segmentIds, count }) => (
+                <li key={segmentIds.join()} className="flex justify-between">
+                  <span>{segmentIds.map(nameOf).join(' ∩ ')}</span>
+                  <strong>{count}</strong>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left">
+            <th className="p-2">Segment</th>
+            <th className="p-2 text-right">Customers</th>
+            <th className="p-2 text-right">Avg. spend</th>
+            <th className="p-2 text-right">Avg. visits</th>
+            <th className="p-2 text-right">Avg. days since visit</th>
+          </tr>
+        </thead>
+        <tbody>
+          {segments.map((segment) => (
+            <tr key={segment.id} className="border-b last:border-0">
+              <td className="p-2">
+                <span className="flex items-center gap-2">
+                  <span
+                    className="inline-block h-3 w-3 rounded-full"
+                    style={{ backgroundColor: colorOf(segment.id) }}
+                  />
+                  {segment.name}
+                </span>
+              </td>
+              <td className="p-2 text-right">{segment.customerCount}</td>
+              <td className="p-2 text-right">{formatAverage(segment.averages.totalSpend)}</td>
+              <td className="p-2 text-right">{formatAverage(segment.averages.visitCount, 1)}</td>
+              <td className="p-2 text-right">
+                {formatAverage(segment.averages.daysSinceLastVisit, 0)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { DistributionBucket, SegmentPreview } from '@/lib/api';
+
+interface SegmentPreviewPanelProps {
+  preview: SegmentPreview | null;
+  /** A newer preview is on its way; the current one is kept but dimmed */
+  loading: boolean;
+}
+
+function Distribution({ title, buckets }: { title: string; buckets: DistributionBucket[] }) {
+  const largest = Math.max(1, ...buckets.map((b) => b.count));
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">{title}</p>
+      {buckets.map(({ label, count }) => (
+        <div key={label} className="flex items-center gap-2 text-xs">
+          <span className="w-20 shrink-0 truncate text-muted-foreground" title={label}>
+            {label}
+          </span>
+          <div className="h-2 flex-1 rounded bg-gray-100">
+            <div
+              className="h-2 rounded bg-primary"
+              style={{ width: `${(count / largest) * 100}%` }}
+            />
+          </div>
+          <span className="w-8 text-right">{count}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function SegmentPreviewPanel({ preview, loading }: SegmentPreviewPanelProps) {
+  if (!preview) {
+    return (
+      <div className="rounded border p-3 text-sm text-muted-foreground">
+        {loading ? 'Calculating audience...' : 'Complete the rules to preview the audience.'}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 rounded border p-3 transition-opacity ${loading ? 'opacity-60' : ''}`}>
+      <p className="text-sm">
+        <strong>{preview.customerCount}</strong> of {preview.totalCustomers} customers match (
+        {preview.matchPercentage}%)
+      </p>
+
+      {preview.customerCount > 0 && (
+        <>
+          <div className="grid gap-4 md:grid-cols-3">
+            <Distribution title="Total spend" buckets={preview.distributions.spend} />
+            <Distribution title="Visits" buckets={preview.distributions.visits} />
+            <Distribution title="Last visit" buckets={preview.distributions.recency} />
+          </div>
+
+          <div>
+            <p className="mb-1 text-xs font-medium text-muted-foreground">Top spenders</p>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="p-1">Name</th>
+                  <th className="p-1">Email</th>
+                  <th className="p-1 text-right">Spend</th>
+                  <th className="p-1 text-right">Visits</th>
+                  <th className="p-1">Last visit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.sampleCustomers.map((customer) => (
+                  <tr key={customer.id} className="border-b last:border-0">
+                    <td className="p-1">{customer.name}</td>
+                    <td className="p-1">{customer.email}</td>
+                    <td className="p-1 text-right">{customer.totalSpend.toFixed(2)}</td>
+                    <td className="p-1 text-right">{customer.visitCount}</td>
+                    <td className="p-1">
+                      {customer.lastVisit ? new Date(customer.lastVisit).toLocaleDateString() : 'Never'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
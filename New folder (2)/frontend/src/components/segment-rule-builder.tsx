@@ -0,0 +1,519 @@
+'use client';
+
+import { DragEvent, useEffect, useMemo, useState } from 'react';
+import { FolderPlus, GripVertical, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SegmentField, SegmentRuleGroup, SegmentRules } from '@/lib/api';
+import { useLatestRef } from '@/lib/hooks';
+import {
+  MAX_RULE_DEPTH,
+  SEGMENT_FIELDS,
+  SEGMENT_OPERATORS,
+  WINDOWED_SEGMENT_FIELDS,
+  segmentRules,
+  validate,
+} from '@shared/schema';
+
+const FIELD_LABELS: Record<SegmentField, string> = {
+  totalSpend: 'Total spend',
+  visitCount: 'Visit count',
+  lastVisit: 'Last visit',
+  email: 'Email',
+  name: 'Name',
+  phone: 'Phone',
+  createdAt: 'Customer since',
+  orderCount: 'Completed orders',
+  avgOrderValue: 'Avg. order value',
+  recentSpend: 'Recent spend',
+  firstOrderDate: 'First order',
+  lastOrderDate: 'Last order',
+};
+
+const OPERATOR_LABELS: Record<string, string> = {
+  gt: 'is greater than',
+  gte: 'is at least',
+  lt: 'is less than',
+  lte: 'is at most',
+  eq: 'equals',
+  before: 'is before',
+  after: 'is after',
+  between: 'is between',
+  daysAgo: 'is more than',
+  notSince: 'is before, or never',
+  contains: 'contains',
+  startsWith: 'starts with',
+  endsWith: 'ends with',
+  equals: 'is exactly',
+};
+
+const GROUP_LABELS: Record<SegmentRuleGroup['type'], string> = {
+  AND: 'All of',
+  OR: 'Any of',
+  NOT: 'None of',
+};
+
+interface ConditionNode {
+  id: string;
+  kind: 'condition';
+  field: SegmentField;
+  operator: string;
+  /** Raw input text; `between` holds both dates separated by a comma */
+  value: string;
+  /** Look-back window for windowed fields */
+  days: string;
+}
+
+interface GroupNode {
+  id: string;
+  kind: 'group';
+  type: SegmentRuleGroup['type'];
+  children: RuleNode[];
+}
+
+type RuleNode = ConditionNode | GroupNode;
+
+let nextId = 0;
+const newId = () => `rule-${nextId++}`;
+
+const fieldType = (field: SegmentField) => SEGMENT_FIELDS[field];
+
+const isWindowed = (field: SegmentField) =>
+  (WINDOWED_SEGMENT_FIELDS as readonly SegmentField[]).includes(field);
+
+const newCondition = (): ConditionNode => ({
+  id: newId(),
+  kind: 'condition',
+  field: 'totalSpend',
+  operator: SEGMENT_OPERATORS.number[0],
+  value: '',
+  days: '',
+});
+
+const newGroup = (type: SegmentRuleGroup['type'] = 'AND', children: RuleNode[] = []): GroupNode => ({
+  id: newId(),
+  kind: 'group',
+  type,
+  children,
+});
+
+// Date inputs work in calendar days, stored rules hold ISO timestamps
+const toDay = (value: string) => value.slice(0, 10);
+
+const isGroup = (rules: SegmentRules): rules is SegmentRuleGroup => 'conditions' in rules;
+
+const fromRules = (rules: SegmentRules): RuleNode => {
+  if (isGroup(rules)) {
+    return newGroup(rules.type, rules.conditions.map(fromRules));
+  }
+
+  let value = String(rules.value);
+  if (fieldType(rules.field) === 'date' && rules.operator !== 'daysAgo') {
+    value = value.split(',').map(toDay).join(',');
+  }
+  return {
+    id: newId(),
+    kind: 'condition',
+    field: rules.field,
+    operator: rules.operator,
+    value,
+    days: rules.days === undefined ? '' : String(rules.days),
+  };
+};
+
+// The root is always a group so conditions can be added next to a loaded one
+const toRootGroup = (rules?: SegmentRules | null): GroupNode => {
+  if (!rules) return newGroup();
+  const node = fromRules(rules);
+  return node.kind === 'group' ? node : newGroup('AND', [node]);
+};
+
+// A window left blank or not a number is sent as missing, which the shared
+// schema reports against the days input
+const toDays = (days: string) => {
+  const parsed = Number(days);
+  return days.trim() !== '' && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// Emits the evaluator's JSON; values stay as typed and are coerced by the
+// shared schema
+const toRules = (node: RuleNode): SegmentRules =>
+  node.kind === 'group'
+    ? { type: node.type, conditions: node.children.map(toRules) }
+    : {
+        field: node.field,
+        operator: node.operator,
+        value: node.value,
+        ...(isWindowed(node.field) && { days: toDays(node.days) }),
+      };
+
+const mapNode = (node: RuleNode, id: string, fn: (node: RuleNode) => RuleNode): RuleNode => {
+  if (node.id === id) return fn(node);
+  if (node.kind === 'condition') return node;
+  return { ...node, children: node.children.map((child) => mapNode(child, id, fn)) };
+};
+
+const removeNode = (node: GroupNode, id: string): GroupNode => ({
+  ...node,
+  children: node.children
+    .filter((child) => child.id !== id)
+    .map((child) => (child.kind === 'group' ? removeNode(child, id) : child)),
+});
+
+const childPath = (path: string, index: number) =>
+  path ? `${path}.conditions.${index}` : `conditions.${index}`;
+
+/**
+ * Human-readable form of a rule tree, e.g. for segment cards:
+ * `totalSpend gt 1000 AND (visitCount lt 3 OR email contains @acme.com)`
+ */
+export const formatRules = (rules: SegmentRules, nested = false): string => {
+  if (!isGroup(rules)) {
+    const field = rules.days === undefined ? rules.field : `${rules.field} (last ${rules.days} days)`;
+    return `${field} ${rules.operator} ${rules.value}`;
+  }
+  if (rules.type === 'NOT') {
+    return `NOT (${rules.conditions.map((c) => formatRules(c, true)).join(' OR ')})`;
+  }
+  const text = rules.conditions.map((c) => formatRules(c, true)).join(` ${rules.type} `);
+  return nested && rules.conditions.length > 1 ? `(${text})` : text;
+};
+
+type Issue = { path: string; msg: string };
+
+interface Actions {
+  update: (id: string, fn: (node: RuleNode) => RuleNode) => void;
+  remove: (id: string) => void;
+  move: (groupId: string, from: number, to: number) => void;
+  issuesAt: (path: string) => Issue[];
+  dragging: { groupId: string; index: number } | null;
+  setDragging: (dragging: { groupId: string; index: number } | null) => void;
+}
+
+function IssueList({ issues }: { issues: Issue[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <p className="text-xs text-red-500">{issues.map((issue) => issue.msg).join('; ')}</p>
+  );
+}
+
+function ConditionEditor({ node, path, actions }: { node: ConditionNode; path: string; actions: Actions }) {
+  const type = fieldType(node.field);
+  const set = (patch: Partial<ConditionNode>) =>
+    actions.update(node.id, (current) => ({ ...current, ...patch }) as ConditionNode);
+
+  const handleFieldChange = (field: SegmentField) => {
+    // Operators and values don't carry over between data types
+    if (fieldType(field) === type) {
+      set({ field });
+    } else {
+      set({ field, operator: SEGMENT_OPERATORS[fieldType(field)][0], value: '' });
+    }
+  };
+
+  const handleOperatorChange = (operator: string) => {
+    const reshaped = operator === 'between' || node.operator === 'between' ||
+      operator === 'daysAgo' || node.operator === 'daysAgo';
+    set(reshaped ? { operator, value: '' } : { operator });
+  };
+
+  const [from = '', to = ''] = node.value.split(',');
+
+  return (
+    <div className="flex-1 space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={node.field} onValueChange={(value) => handleFieldChange(value as SegmentField)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SEGMENT_FIELDS) as SegmentField[]).map((field) => (
+              <SelectItem key={field} value={field}>
+                {FIELD_LABELS[field]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={node.operator} onValueChange={handleOperatorChange}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SEGMENT_OPERATORS[type].map((operator) => (
+              <SelectItem key={operator} value={operator}>
+                {OPERATOR_LABELS[operator] ?? operator}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {type === 'number' ? (
+          <Input
+            type="number"
+            min="0"
+            className="w-32"
+            value={node.value}
+            onChange={(e) => set({ value: e.target.value })}
+          />
+        ) : type === 'string' ? (
+          <Input className="w-48" value={node.value} onChange={(e) => set({ value: e.target.value })} />
+        ) : node.operator === 'daysAgo' ? (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              step="1"
+              className="w-24"
+              value={node.value}
+              onChange={(e) => set({ value: e.target.value })}
+            />
+            <span className="text-sm text-muted-foreground">days ago</span>
+          </div>
+        ) : node.operator === 'between' ? (
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              className="w-40"
+              value={from}
+              onChange={(e) => set({ value: `${e.target.value},${to}` })}
+            />
+            <span className="text-sm text-muted-foreground">and</span>
+            <Input
+              type="date"
+              className="w-40"
+              value={to}
+              onChange={(e) => set({ value: `${from},${e.target.value}` })}
+            />
+          </div>
+        ) : (
+          <Input
+            type="date"
+            className="w-40"
+            value={node.value}
+            onChange={(e) => set({ value: e.target.value })}
+          />
+        )}
+        {isWindowed(node.field) && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">in the last</span>
+            <Input
+              type="number"
+              min="1"
+              step="1"
+              className="w-20"
+              value={node.days}
+              onChange={(e) => set({ days: e.target.value })}
+            />
+            <span className="text-sm text-muted-foreground">days</span>
+          </div>
+        )}
+      </div>
+      <IssueList issues={actions.issuesAt(path)} />
+    </div>
+  );
+}
+
+function GroupEditor({
+  node,
+  path,
+  depth,
+  actions,
+}: {
+  node: GroupNode;
+  path: string;
+  depth: number;
+  actions: Actions;
+}) {
+  const addChild = (child: RuleNode) =>
+    actions.update(node.id, (current) => ({
+      ...(current as GroupNode),
+      children: [...(current as GroupNode).children, child],
+    }));
+
+  const handleDragStart = (e: DragEvent<HTMLElement>, index: number) => {
+    e.stopPropagation();
+    e.dataTransfer.effectAllowed = 'move';
+    // Firefox only starts a drag when some data is set
+    e.dataTransfer.setData('text/plain', node.children[index].id);
+    const row = e.currentTarget.closest('[data-rule-row]');
+    if (row) e.dataTransfer.setDragImage(row, 0, 0);
+    actions.setDragging({ groupId: node.id, index });
+  };
+
+  // Reordering is limited to siblings within the same group
+  const handleDragOver = (e: DragEvent<HTMLElement>) => {
+    if (actions.dragging?.groupId === node.id) {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLElement>, index: number) => {
+    if (actions.dragging?.groupId !== node.id) return;
+    e.preventDefault();
+    e.stopPropagation();
+    actions.move(node.id, actions.dragging.index, index);
+    actions.setDragging(null);
+  };
+
+  return (
+    <div className={depth > 0 ? 'flex-1 space-y-2 rounded-md border border-dashed p-3' : 'space-y-2'}>
+      <div className="flex items-center gap-2">
+        <Select
+          value={node.type}
+          onValueChange={(type) =>
+            actions.update(node.id, (current) => ({ ...current, type }) as GroupNode)
+          }
+        >
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(GROUP_LABELS) as SegmentRuleGroup['type'][]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {GROUP_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground">these conditions match</span>
+        {depth > 0 && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="ml-auto"
+            aria-label="Remove group"
+            onClick={() => actions.remove(node.id)}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {node.children.map((child, index) => (
+        <div
+          key={child.id}
+          data-rule-row
+          className={`flex items-start gap-2 rounded-md ${
+            actions.dragging?.groupId === node.id && actions.dragging.index === index ? 'opacity-50' : ''
+          }`}
+          onDragOver={handleDragOver}
+          onDrop={(e) => handleDrop(e, index)}
+        >
+          <span
+            draggable
+            className="mt-2 cursor-grab text-muted-foreground"
+            aria-label="Drag to reorder"
+            onDragStart={(e) => handleDragStart(e, index)}
+            onDragEnd={() => actions.setDragging(null)}
+          >
+            <GripVertical className="h-4 w-4" />
+          </span>
+          {child.kind === 'group' ? (
+            <GroupEditor node={child} path={childPath(path, index)} depth={depth + 1} actions={actions} />
+          ) : (
+            <>
+              <ConditionEditor node={child} path={childPath(path, index)} actions={actions} />
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Remove condition"
+                onClick={() => actions.remove(child.id)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      ))}
+
+      <IssueList issues={actions.issuesAt(path ? `${path}.conditions` : 'conditions')} />
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => addChild(newCondition())}>
+          <Plus className="mr-1 h-4 w-4" /> Condition
+        </Button>
+        {depth + 1 < MAX_RULE_DEPTH && (
+          <Button variant="outline" size="sm" onClick={() => addChild(newGroup('OR', [newCondition()]))}>
+            <FolderPlus className="mr-1 h-4 w-4" /> Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface SegmentRuleBuilderProps {
+  /** Rules to start from; remount (via `key`) to load a different segment */
+  initialRules?: SegmentRules | null;
+  /**
+   * Called with the normalised rules and any validation issues whenever the
+   * tree changes. Only send the rules to the API when `errors` is empty.
+   */
+  onChange: (rules: SegmentRuleGroup, errors: Issue[]) => void;
+  /** Show issues on untouched conditions too, e.g. after a failed submit */
+  showAllErrors?: boolean;
+}
+
+export function SegmentRuleBuilder({ initialRules, onChange, showAllErrors = false }: SegmentRuleBuilderProps) {
+  const [root, setRoot] = useState(() => toRootGroup(initialRules));
+  const [dragging, setDragging] = useState<Actions['dragging']>(null);
+
+  const { value, errors } = useMemo(() => validate(segmentRules, toRules(root)), [root]);
+
+  // Report every edit; only the tree changing re-fires it, not a new
+  // `onChange` from the parent re-rendering
+  const onChangeRef = useLatestRef(onChange);
+  useEffect(() => {
+    onChangeRef.current(value as SegmentRuleGroup, errors);
+  }, [onChangeRef, value, errors]);
+
+  // Conditions only show their issues once something has been typed
+  const touched = new Set<string>();
+  const collectTouched = (node: RuleNode, path: string) => {
+    if (node.kind === 'condition') {
+      if (node.value.replace(',', '') !== '') touched.add(path);
+    } else {
+      node.children.forEach((child, index) => collectTouched(child, childPath(path, index)));
+    }
+  };
+  collectTouched(root, '');
+
+  const actions: Actions = {
+    update: (id, fn) => setRoot((current) => mapNode(current, id, fn) as GroupNode),
+    remove: (id) => setRoot((current) => removeNode(current, id)),
+    move: (groupId, from, to) =>
+      setRoot((current) =>
+        mapNode(current, groupId, (node) => {
+          const children = [...(node as GroupNode).children];
+          const [moved] = children.splice(from, 1);
+          children.splice(to, 0, moved);
+          return { ...node, children } as GroupNode;
+        }) as GroupNode
+      ),
+    issuesAt: (path) =>
+      errors.filter((issue) => {
+        const isConditionIssue = [`${path}.value`, `${path}.operator`, `${path}.days`].includes(issue.path);
+        // An empty root group is just a fresh builder, not a mistake yet
+        const isGroupIssue = issue.path === path && path.endsWith('conditions');
+        if (isGroupIssue) return showAllErrors || path !== 'conditions';
+        return isConditionIssue && (showAllErrors || touched.has(path));
+      }),
+    dragging,
+    setDragging,
+  };
+
+  return (
+    <div className="space-y-2">
+      <GroupEditor node={root} path="" depth={0} actions={actions} />
+      {/* Whole-tree issues such as the condition limit */}
+      <IssueList issues={errors.filter((issue) => issue.path === '')} />
+    </div>
+  );
+}
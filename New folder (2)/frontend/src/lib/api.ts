@@ -0,0 +1,350 @@
+import axios, { AxiosError } from 'axios';
+import { toast } from '@/components/ui/use-toast';
+import {
+  campaign,
+  customer,
+  customerDetail,
+  order,
+  parse,
+  segment,
+  segmentFromTextResult,
+  segmentUpdateResult,
+  validate,
+  ValidationError,
+} from '@shared/schema';
+import type { FieldError, Validator } from '@shared/validation';
+import type {
+  Campaign,
+  CampaignChannel,
+  CampaignEngagement,
+  CampaignInput,
+  CampaignScheduleInput,
+  Customer,
+  CustomerExportQuery,
+  CustomerImportInput,
+  CustomerImportReport,
+  CustomerInput,
+  CustomerListQuery,
+  CustomerUpdateInput,
+  MessagePreview,
+  MessagePreviewInput,
+  OrderInput,
+  OrderUpdateInput,
+  SegmentDuplicateInput,
+  SegmentInput,
+  SegmentRules,
+} from '@shared/schema';
+
+export type {
+  Campaign,
+  CampaignAbTestInput,
+  CampaignChannel,
+  CampaignEngagement,
+  CampaignInput,
+  CampaignScheduleInput,
+  CampaignStatus,
+  CampaignVariantInput,
+  CampaignVariantResult,
+  CommunicationLog,
+  Customer,
+  CustomerDetail,
+  CustomerImportField,
+  CustomerImportInput,
+  CustomerImportReport,
+  CustomerImportRowResult,
+  CustomerInput,
+  CustomerListQuery,
+  CustomerSortField,
+  CustomerUpdateInput,
+  MessagePreview,
+  MessagePreviewInput,
+  MessagePreviewRecipient,
+  Order,
+  OrderInput,
+  OrderStatus,
+  OrderUpdateInput,
+  Segment,
+  SegmentCondition,
+  SegmentField,
+  SegmentInput,
+  SegmentMembershipChange,
+  SegmentRuleGroup,
+  SegmentRules,
+  SegmentUpdateResult,
+} from '@shared/schema';
+
+export const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+export const TOKEN_KEY = 'token';
+
+export const api = axios.create({
+  baseURL: `${API_URL}/api`,
+});
+
+// Attach the session token to every request
+api.interceptors.request.use((config) => {
+  if (typeof window !== 'undefined') {
+    const token = localStorage.getItem(TOKEN_KEY);
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+  }
+  return config;
+});
+
+export interface User {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+export interface AuthResponse {
+  token: string;
+  user: User;
+}
+
+export interface DistributionBucket {
+  label: string;
+  count: number;
+}
+
+export interface SegmentPreview {
+  customerCount: number;
+  totalCustomers: number;
+  /** Share of all active customers that match, 0–100 */
+  matchPercentage: number;
+  sampleCustomers: Pick<Customer, 'id' | 'name' | 'email' | 'totalSpend' | 'visitCount' | 'lastVisit'>[];
+  distributions: {
+    spend: DistributionBucket[];
+    visits: DistributionBucket[];
+    recency: DistributionBucket[];
+  };
+}
+
+export interface SegmentComparisonSummary {
+  id: string;
+  name: string;
+  isDynamic: boolean;
+  customerCount: number;
+  /** Null when the segment has no members (or none who ever visited) */
+  averages: {
+    totalSpend: number | null;
+    visitCount: number | null;
+    daysSinceLastVisit: number | null;
+  };
+}
+
+export interface SegmentOverlapRegion {
+  segmentIds: string[];
+  count: number;
+}
+
+export interface SegmentComparison {
+  segments: SegmentComparisonSummary[];
+  pairwise: SegmentOverlapRegion[];
+  /** Customers in every compared segment */
+  intersectionCount: number;
+  /** Customers in at least one compared segment */
+  unionCount: number;
+  /** Customers in exactly these segments and no other compared one */
+  regions: SegmentOverlapRegion[];
+}
+
+export interface SegmentDeleteResult {
+  id: string;
+  deletedCampaigns: number;
+}
+
+export interface DeliveryStats extends CampaignEngagement {
+  total: number;
+  sent: number;
+  failed: number;
+  pending: number;
+  /** Messages never sent: no contact for the channel, or the campaign was cancelled */
+  skipped: number;
+  /** Of the messages attempted, i.e. leaving out skipped ones */
+  deliveryRate: number;
+  failureRate: number;
+  /** Of the messages sent, opened or clicked at least once */
+  openRate: number;
+  clickRate: number;
+}
+
+export interface ChannelStats extends DeliveryStats {
+  channel: CampaignChannel;
+  campaigns: number;
+}
+
+export interface Activity {
+  id: string;
+  type: 'customer' | 'campaign' | 'segment';
+  action: 'created' | 'updated' | 'deleted';
+  name: string;
+  timestamp: string;
+}
+
+export interface DashboardStats {
+  totalCustomers: number;
+  totalSegments: number;
+  totalCampaigns: number;
+  activeCampaigns: number;
+  recentActivity: Activity[];
+}
+
+export interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+}
+
+export interface CustomerList {
+  customers: Customer[];
+  pagination: Pagination;
+}
+
+/**
+ * Extracts a human readable message from an API error. The backend answers
+ * with either `{ message }` or `{ errors: [{ path, msg }] }`. Responses that
+ * do not match the shared schema surface as a `ValidationError`.
+ */
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof ValidationError) {
+    return `Unexpected response from server (${error.message})`;
+  }
+  if (error instanceof AxiosError) {
+    const data = error.response?.data;
+    if (data?.message) return data.message;
+    if (Array.isArray(data?.errors) && data.errors.length > 0) {
+      return data.errors
+        .map((e: { path?: string; msg?: string }) => (e.path ? `${e.path}: ${e.msg}` : e.msg))
+        .join(', ');
+    }
+    if (!error.response) return 'Unable to reach the server';
+  }
+  return error instanceof Error ? error.message : 'Something went wrong';
+}
+
+/** Shows `error` as a toast and returns the message shown */
+export function reportError(error: unknown) {
+  const message = getErrorMessage(error);
+  toast({ title: 'Error', description: message, variant: 'destructive' });
+  return message;
+}
+
+/**
+ * Parses a list response item by item. Items that don't match the schema,
+ * e.g. records saved before a rule was tightened, are left out rather than
+ * failing the whole list, and reported together in one toast.
+ */
+function parseEach<T>(validator: Validator<T>, data: unknown): T[] {
+  if (!Array.isArray(data)) {
+    throw new ValidationError([{ path: '', msg: 'must be an array' }]);
+  }
+  const dropped: FieldError[] = [];
+  const items = data.flatMap((item, i) => {
+    const { value, errors } = validate(validator, item);
+    if (errors.length === 0) return [value];
+    dropped.push(...errors.map((e) => ({ ...e, path: e.path ? `${i}.${e.path}` : String(i) })));
+    return [];
+  });
+  if (dropped.length > 0) reportError(new ValidationError(dropped));
+  return items;
+}
+
+export const authApi = {
+  google: (credential: string) =>
+    api.post<AuthResponse>('/auth/google', { token: credential }).then((res) => res.data),
+  verify: () => api.get<{ user: User }>('/auth/verify').then((res) => res.data.user),
+};
+
+export const customersApi = {
+  list: (params: CustomerListQuery = {}) =>
+    api.get<CustomerList>('/customers', { params }).then((res) => ({
+      ...res.data,
+      customers: parseEach(customer, res.data.customers),
+    })),
+  get: (id: string) =>
+    api.get(`/customers/${id}`).then((res) => parse(customerDetail, res.data)),
+  create: (data: CustomerInput) =>
+    api.post('/customers', data).then((res) => parse(customer, res.data)),
+  update: (id: string, data: CustomerUpdateInput) =>
+    api.patch(`/customers/${id}`, data).then((res) => parse(customer, res.data)),
+  remove: (id: string) =>
+    api.delete(`/customers/${id}`).then((res) => parse(customer, res.data)),
+  restore: (id: string) =>
+    api.post(`/customers/${id}/restore`).then((res) => parse(customer, res.data)),
+  addOrder: (customerId: string, data: OrderInput) =>
+    api.post(`/customers/${customerId}/orders`, data).then((res) => parse(order, res.data)),
+  import: (data: CustomerImportInput) =>
+    api.post<CustomerImportReport>('/customers/import', data).then((res) => res.data),
+  export: (params: CustomerExportQuery) =>
+    api.get<Blob>('/customers/export', { params, responseType: 'blob' }).then((res) => ({
+      blob: res.data,
+      filename:
+        /filename="([^"]+)"/.exec(res.headers['content-disposition'] ?? '')?.[1] ??
+        `customers.${params.format ?? 'csv'}`,
+    })),
+};
+
+export const ordersApi = {
+  get: (id: string) => api.get(`/orders/${id}`).then((res) => parse(order, res.data)),
+  update: (id: string, data: OrderUpdateInput) =>
+    api.patch(`/orders/${id}`, data).then((res) => parse(order, res.data)),
+};
+
+export const segmentsApi = {
+  list: () => api.get('/segments').then((res) => parseEach(segment, res.data)),
+  get: (id: string) => api.get(`/segments/${id}`).then((res) => parse(segment, res.data)),
+  create: (data: SegmentInput) =>
+    api.post('/segments', data).then((res) => parse(segment, res.data)),
+  update: (id: string, data: SegmentInput) =>
+    api.put(`/segments/${id}`, data).then((res) => parse(segmentUpdateResult, res.data)),
+  remove: (id: string, cascade = false) =>
+    api
+      .delete<SegmentDeleteResult>(`/segments/${id}`, { params: { cascade } })
+      .then((res) => res.data),
+  duplicate: (id: string, data: SegmentDuplicateInput = {}) =>
+    api.post(`/segments/${id}/duplicate`, data).then((res) => parse(segment, res.data)),
+  compare: (segmentIds: string[]) =>
+    api.post<SegmentComparison>('/segments/overlap', { segmentIds }).then((res) => res.data),
+  fromText: (text: string) =>
+    api.post('/segments/from-text', { text }).then((res) => parse(segmentFromTextResult, res.data)),
+  preview: (rules: SegmentRules) =>
+    api.post<SegmentPreview>('/segments/preview', { rules }).then((res) => res.data),
+};
+
+export const campaignsApi = {
+  list: () => api.get('/campaigns').then((res) => parseEach(campaign, res.data)),
+  create: (data: CampaignInput) =>
+    api.post('/campaigns', data).then((res) => parse(campaign, res.data)),
+  reschedule: (id: string, data: CampaignScheduleInput) =>
+    api.patch(`/campaigns/${id}/schedule`, data).then((res) => parse(campaign, res.data)),
+  unschedule: (id: string) =>
+    api.patch(`/campaigns/${id}/unschedule`).then((res) => parse(campaign, res.data)),
+  launch: (id: string) =>
+    api.post(`/campaigns/${id}/launch`).then((res) => parse(campaign, res.data)),
+  pause: (id: string) =>
+    api.post(`/campaigns/${id}/pause`).then((res) => parse(campaign, res.data)),
+  resume: (id: string) =>
+    api.post(`/campaigns/${id}/resume`).then((res) => parse(campaign, res.data)),
+  cancel: (id: string) =>
+    api.post(`/campaigns/${id}/cancel`).then((res) => parse(campaign, res.data)),
+  previewMessage: (data: MessagePreviewInput) =>
+    api.post<MessagePreview>('/campaigns/preview-message', data).then((res) => res.data),
+  /** With `variants`, the campaign's A/B variants are replaced by that many generated ones */
+  generateMessage: (id: string, objective: string, variants?: number) =>
+    api
+      .post(`/campaigns/${id}/generate-message`, { objective, variants })
+      .then((res) => parse(campaign, res.data)),
+};
+
+export const deliveryApi = {
+  stats: (campaignId: string) =>
+    api.get<DeliveryStats>(`/delivery/stats/${campaignId}`).then((res) => res.data),
+  channelStats: () => api.get<ChannelStats[]>('/delivery/stats/channels').then((res) => res.data),
+};
+
+export const dashboardApi = {
+  stats: () => api.get<DashboardStats>('/dashboard/stats').then((res) => res.data),
+};
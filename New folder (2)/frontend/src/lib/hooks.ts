@@ -0,0 +1,132 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from '@/components/ui/use-toast';
+import {
+  campaignsApi,
+  customersApi,
+  dashboardApi,
+  deliveryApi,
+  CustomerListQuery,
+  reportError,
+  segmentsApi,
+} from '@/lib/api';
+
+export interface QueryState<T> {
+  data: T | undefined;
+  loading: boolean;
+  error: string | null;
+  retry: () => void;
+  setData: (data: T | undefined) => void;
+}
+
+/**
+ * A ref always holding the latest `value`, so effects and stable callbacks
+ * can call the current version of a prop or callback without re-running.
+ */
+export function useLatestRef<T>(value: T) {
+  const ref = useRef(value);
+  useEffect(() => {
+    ref.current = value;
+  });
+  return ref;
+}
+
+/**
+ * Runs `fetcher` on mount and whenever `key` changes, and tracks its
+ * loading/error state. Failures are reported through a toast; `retry` runs
+ * the fetcher again.
+ */
+export function useApiQuery<T>(fetcher: () => Promise<T>, key = ''): QueryState<T> {
+  const [data, setData] = useState<T | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const fetcherRef = useLatestRef(fetcher);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetcherRef
+      .current()
+      .then((result) => {
+        if (!cancelled) setData(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(reportError(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fetcherRef, key, attempt]);
+
+  const retry = useCallback(() => setAttempt((n) => n + 1), []);
+
+  return { data, loading, error, retry, setData };
+}
+
+/**
+ * Wraps a write call. `mutate` resolves to the result, or to `undefined` when
+ * the call failed (the error has already been shown as a toast by then). It
+ * keeps its identity across renders, so effects can depend on it.
+ */
+export function useApiMutation<A extends unknown[], R>(
+  mutation: (...args: A) => Promise<R>,
+  options: { successMessage?: string } = {}
+) {
+  const [loading, setLoading] = useState(false);
+  const mutationRef = useLatestRef(mutation);
+  const successMessageRef = useLatestRef(options.successMessage);
+
+  const mutate = useCallback(async (...args: A): Promise<R | undefined> => {
+    setLoading(true);
+    try {
+      const result = await mutationRef.current(...args);
+      if (successMessageRef.current) {
+        toast({ title: 'Success', description: successMessageRef.current });
+      }
+      return result;
+    } catch (err) {
+      reportError(err);
+      return undefined;
+    } finally {
+      setLoading(false);
+    }
+  }, [mutationRef, successMessageRef]);
+
+  return { mutate, loading };
+}
+
+export function useCustomers(query: CustomerListQuery) {
+  return useApiQuery(() => customersApi.list(query), JSON.stringify(query));
+}
+
+export function useCustomer(id: string) {
+  return useApiQuery(() => customersApi.get(id), id);
+}
+
+export function useSegments() {
+  return useApiQuery(() => segmentsApi.list());
+}
+
+export function useCampaigns() {
+  return useApiQuery(() => campaignsApi.list());
+}
+
+export function useDeliveryStats(campaignId: string) {
+  return useApiQuery(() => deliveryApi.stats(campaignId), campaignId);
+}
+
+export function useChannelStats() {
+  return useApiQuery(() => deliveryApi.channelStats());
+}
+
+export function useDashboardStats() {
+  return useApiQuery(() => dashboardApi.stats());
+}
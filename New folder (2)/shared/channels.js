@@ -0,0 +1,127 @@
+/**
+ * What differs between the channels a campaign can go out on: the contact
+ * field each needs, how SMS text is split into billable segments, and the
+ * WhatsApp message templates the business account may send.
+ */
+
+const CAMPAIGN_CHANNELS = /** @type {const} */ (['EMAIL', 'SMS', 'WHATSAPP']);
+
+/** @typedef {typeof CAMPAIGN_CHANNELS[number]} CampaignChannel */
+
+/**
+ * The customer field each channel sends to. Customers without it are
+ * skipped.
+ * @type {Record<CampaignChannel, { field: 'email' | 'phone', label: string }>}
+ */
+const CHANNEL_CONTACTS = {
+  EMAIL: { field: 'email', label: 'email address' },
+  SMS: { field: 'phone', label: 'phone number' },
+  WHATSAPP: { field: 'phone', label: 'phone number' },
+};
+
+/**
+ * Why a customer can't be reached on `channel`, or null if they can.
+ * @param {CampaignChannel} channel
+ * @param {{ email?: string | null, phone?: string | null }} customer
+ * @returns {string | null}
+ */
+const missingContact = (channel, customer) => {
+  const { field, label } = CHANNEL_CONTACTS[channel];
+  const value = customer[field];
+  return typeof value === 'string' && value.trim() !== '' ? null : `No ${label} for ${channel} delivery`;
+};
+
+// The GSM 03.38 alphabet; the extension characters take two septets each
+const GSM_BASIC = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+);
+const GSM_EXTENSION = new Set('^{}\\[~]|€\f');
+
+/**
+ * @typedef {Object} SmsStats
+ * @property {number} characters
+ * @property {'GSM-7' | 'UCS-2'} encoding UCS-2 whenever a character is outside the GSM alphabet
+ * @property {number} segments Messages the text is billed as
+ * @property {number} perSegment Characters that fit in each of those segments
+ */
+
+/**
+ * How an SMS with this text is encoded and split. A single message holds
+ * 160 GSM-7 or 70 UCS-2 characters; longer ones are sent in parts of 153
+ * or 67, the rest of each part being taken by the header joining them.
+ * @param {string} text
+ * @returns {SmsStats}
+ */
+const smsStats = (text) => {
+  const chars = Array.from(text);
+  const gsm = chars.every((c) => GSM_BASIC.has(c) || GSM_EXTENSION.has(c));
+
+  // Septets for GSM-7, UTF-16 code units for UCS-2
+  const units = gsm
+    ? chars.reduce((sum, c) => sum + (GSM_EXTENSION.has(c) ? 2 : 1), 0)
+    : text.length;
+  const [single, multipart] = gsm ? [160, 153] : [70, 67];
+  const perSegment = units <= single ? single : multipart;
+
+  return {
+    characters: chars.length,
+    encoding: gsm ? 'GSM-7' : 'UCS-2',
+    segments: units === 0 ? 0 : Math.ceil(units / perSegment),
+    perSegment,
+  };
+};
+
+/**
+ * @typedef {Object} WhatsAppTemplate
+ * @property {string} label
+ * @property {string} language
+ * @property {string} body With numbered placeholders {{1}}, {{2}}, ...
+ * @property {string[]} params What each placeholder is for, in order
+ */
+
+/**
+ * The templates approved for the WhatsApp Business account, by name. Outside
+ * a conversation the customer started, WhatsApp only delivers these, so a
+ * campaign picks one and fills in its placeholders.
+ * @type {Record<string, WhatsAppTemplate>}
+ */
+const WHATSAPP_TEMPLATES = {
+  special_offer: {
+    label: 'Special offer',
+    language: 'en',
+    body: 'Hi {{1}}! We have something for you: {{2}}. Reply STOP to opt out.',
+    params: ['Customer name', 'Offer'],
+  },
+  win_back: {
+    label: 'We miss you',
+    language: 'en',
+    body: 'Hi {{1}}, it has been a while since your last visit on {{2}}. Come back and enjoy {{3}}!',
+    params: ['Customer name', 'Last visit', 'Incentive'],
+  },
+  loyalty_thanks: {
+    label: 'Loyalty thank-you',
+    language: 'en',
+    body: 'Thank you {{1}}! You have visited us {{2}} times. {{3}}',
+    params: ['Customer name', 'Visit count', 'Closing message'],
+  },
+};
+
+/**
+ * The message a WhatsApp template sends with `params` in its placeholders.
+ * The params are message templates themselves, so the result can be
+ * rendered per recipient like any other message.
+ * @param {string} name
+ * @param {string[]} params
+ */
+const composeWhatsAppMessage = (name, params) =>
+  WHATSAPP_TEMPLATES[name].body.replace(/\{\{(\d+)\}\}/g, (_, n) => params[Number(n) - 1] ?? '');
+
+module.exports = {
+  CAMPAIGN_CHANNELS,
+  CHANNEL_CONTACTS,
+  WHATSAPP_TEMPLATES,
+  missingContact,
+  smsStats,
+  composeWhatsAppMessage,
+};
@@ -0,0 +1,143 @@
+/**
+ * Minimal cron expressions for recurring campaigns, shared so the dialog can
+ * show upcoming runs exactly as the scheduler will compute them.
+ *
+ * Five fields, evaluated in UTC: minute hour day-of-month month day-of-week.
+ * Each field takes `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps
+ * (`*\/15`, `0-30/10`). Day of week runs 0-6 from Sunday; 7 is Sunday too.
+ * As in standard cron, when both day fields are restricted a day matching
+ * either one counts.
+ */
+
+const MACROS = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Give up looking for a next run after this long, e.g. for "0 0 30 2 *"
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * @typedef {Object} CronSchedule
+ * @property {Set<number>} minutes
+ * @property {Set<number>} hours
+ * @property {Set<number>} days
+ * @property {Set<number>} months
+ * @property {Set<number>} weekdays
+ * @property {boolean} anyDay Day of month is `*`
+ * @property {boolean} anyWeekday Day of week is `*`
+ */
+
+/**
+ * @param {string} text
+ * @param {{ name: string, min: number, max: number }} field
+ * @returns {Set<number>}
+ */
+const parseField = (text, { name, min, max }) => {
+  const values = new Set();
+
+  for (const part of text.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`invalid ${name} "${part}"`);
+    }
+    const [, range, start, end, step] = match;
+    const from = range === '*' ? min : Number(start);
+    const to = range === '*' ? max : end !== undefined ? Number(end) : step ? max : from;
+    const increment = step ? Number(step) : 1;
+
+    if (from < min || to > max || from > to || increment < 1) {
+      throw new Error(`${name} must be between ${min} and ${max}`);
+    }
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Parses an expression, throwing an Error that says what is wrong with it.
+ * @param {string} expression
+ * @returns {CronSchedule}
+ */
+const parseCron = (expression) => {
+  const trimmed = String(expression).trim();
+  const parts = (MACROS[trimmed] || trimmed).split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error('must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, FIELDS[i]));
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: parts[2] === '*',
+    anyWeekday: parts[4] === '*',
+  };
+};
+
+/**
+ * @param {CronSchedule} schedule
+ * @param {Date} date
+ */
+const matchesDay = (schedule, date) => {
+  const day = schedule.days.has(date.getUTCDate());
+  const weekday = schedule.weekdays.has(date.getUTCDay());
+  if (schedule.anyDay) return weekday;
+  if (schedule.anyWeekday) return day;
+  return day || weekday;
+};
+
+/**
+ * The first time strictly after `after` that the expression matches, or
+ * null if it never does.
+ * @param {string} expression
+ * @param {Date} after
+ * @returns {Date | null}
+ */
+const nextCronTime = (expression, after) => {
+  const schedule = parseCron(expression);
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after.getTime() + SEARCH_LIMIT_MS;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  return null;
+};
+
+module.exports = {
+  parseCron,
+  nextCronTime,
+};
@@ -0,0 +1,1060 @@
+// @ts-check
+/**
+ * Domain types and validators shared by the Express API and the Next.js app.
+ * The backend validates request bodies with these; the frontend validates
+ * API responses, so a contract change on either side fails loudly.
+ */
+
+const v = require('./validation');
+const { parseCron } = require('./cron');
+const { templateErrors } = require('./template');
+const { CAMPAIGN_CHANNELS, WHATSAPP_TEMPLATES } = require('./channels');
+
+const ORDER_STATUSES = /** @type {const} */ (['PENDING', 'COMPLETED', 'CANCELLED', 'REFUNDED']);
+/** Statuses an order can be recorded with; refunds go through an update */
+const NEW_ORDER_STATUSES = /** @type {const} */ (['PENDING', 'COMPLETED', 'CANCELLED']);
+const CAMPAIGN_STATUSES = /** @type {const} */ (['DRAFT', 'SCHEDULED', 'RUNNING', 'PAUSED', 'COMPLETED', 'CANCELLED', 'FAILED']);
+/**
+ * SKIPPED messages were never sent: the recipient couldn't be reached on
+ * the campaign's channel, or the campaign was cancelled first
+ */
+const COMMUNICATION_STATUSES = /** @type {const} */ (['PENDING', 'SENT', 'FAILED', 'SKIPPED']);
+const DELIVERY_STATUSES = /** @type {const} */ (['SENT', 'FAILED']);
+/** Vendors may also report a message as still PENDING, e.g. queued */
+const VENDOR_EVENT_STATUSES = /** @type {const} */ (['PENDING', 'SENT', 'FAILED']);
+/** NOT matches customers for whom none of the group's conditions hold */
+const RULE_GROUP_TYPES = /** @type {const} */ (['AND', 'OR', 'NOT']);
+/** Limits on rule trees, so a segment can't turn into an unbounded query */
+const MAX_RULE_DEPTH = 5;
+const MAX_RULE_CONDITIONS = 50;
+
+/**
+ * Allowed order status changes. A partial refund keeps a COMPLETED order
+ * completed and only raises its `refundedAmount`.
+ * @type {Record<OrderStatus, readonly OrderStatus[]>}
+ */
+const ORDER_STATUS_TRANSITIONS = {
+  PENDING: ['COMPLETED', 'CANCELLED'],
+  COMPLETED: ['REFUNDED'],
+  CANCELLED: [],
+  REFUNDED: [],
+};
+
+/**
+ * Allowed campaign status changes. SCHEDULED goes back to DRAFT when
+ * unscheduled; a PAUSED campaign whose messages were all handed to the
+ * vendor still settles to COMPLETED or FAILED as receipts come in.
+ * @type {Record<CampaignStatus, readonly CampaignStatus[]>}
+ */
+const CAMPAIGN_STATUS_TRANSITIONS = {
+  DRAFT: ['SCHEDULED', 'RUNNING', 'CANCELLED'],
+  SCHEDULED: ['DRAFT', 'RUNNING', 'CANCELLED'],
+  RUNNING: ['PAUSED', 'COMPLETED', 'CANCELLED', 'FAILED'],
+  PAUSED: ['RUNNING', 'COMPLETED', 'CANCELLED', 'FAILED'],
+  COMPLETED: [],
+  CANCELLED: [],
+  FAILED: [],
+};
+
+/** What decides the winner of an A/B test: delivery, open or click rate */
+const AB_WINNER_METRICS = /** @type {const} */ (['DELIVERY', 'OPEN', 'CLICK']);
+const MAX_CAMPAIGN_VARIANTS = 5;
+
+const IMPORT_FORMATS = /** @type {const} */ (['csv', 'json']);
+const SORT_ORDERS = /** @type {const} */ (['asc', 'desc']);
+const CUSTOMER_SORT_FIELDS = /** @type {const} */ (['createdAt', 'name', 'email', 'totalSpend', 'visitCount', 'lastVisit']);
+const EXPORT_FORMATS = /** @type {const} */ (['csv', 'json']);
+const IMPORT_ROW_STATUSES = /** @type {const} */ (['created', 'updated', 'skipped', 'error']);
+
+/**
+ * Columns an import can fill. Spend, visits and last visit aren't among
+ * them: they are computed from the customer's orders, so history is
+ * imported as orders.
+ */
+const CUSTOMER_IMPORT_FIELDS = /** @type {const} */ ([
+  'email',
+  'name',
+  'phone',
+  'orderAmount',
+  'orderStatus',
+  'orderDate',
+]);
+
+/**
+ * Fields a segment rule can filter on, by data type. The order fields are
+ * computed from the customer's completed orders, net of refunds.
+ */
+const SEGMENT_FIELDS = /** @type {const} */ ({
+  totalSpend: 'number',
+  visitCount: 'number',
+  lastVisit: 'date',
+  email: 'string',
+  name: 'string',
+  phone: 'string',
+  createdAt: 'date',
+  orderCount: 'number',
+  avgOrderValue: 'number',
+  recentSpend: 'number',
+  firstOrderDate: 'date',
+  lastOrderDate: 'date',
+});
+
+/** Fields measured over a look-back window, set by the condition's `days` */
+const WINDOWED_SEGMENT_FIELDS = /** @type {const} */ (['recentSpend']);
+
+/**
+ * Operators supported by the segment evaluator for each data type.
+ * `notSince` matches dates before the value as well as missing dates, so
+ * `lastOrderDate notSince X` means "no completed order since X".
+ */
+const SEGMENT_OPERATORS = /** @type {const} */ ({
+  number: ['gt', 'gte', 'lt', 'lte', 'eq'],
+  date: ['before', 'after', 'between', 'daysAgo', 'notSince'],
+  string: ['contains', 'startsWith', 'endsWith', 'equals'],
+});
+
+/**
+ * @template T
+ * @typedef {import('./validation').Validator<T>} Validator
+ */
+
+/**
+ * @typedef {typeof ORDER_STATUSES[number]} OrderStatus
+ * @typedef {typeof CAMPAIGN_STATUSES[number]} CampaignStatus
+ * @typedef {typeof COMMUNICATION_STATUSES[number]} CommunicationStatus
+ * @typedef {import('./channels').CampaignChannel} CampaignChannel
+ * @typedef {keyof typeof SEGMENT_FIELDS} SegmentField
+ */
+
+/**
+ * @typedef {Object} Customer
+ * @property {string} id
+ * @property {string} email
+ * @property {string} name
+ * @property {string | null} phone
+ * @property {number} totalSpend
+ * @property {number} visitCount
+ * @property {string | null} lastVisit
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ * @property {string | null} deletedAt Set while the customer is soft deleted
+ * @property {{ orders: number }} [_count]
+ */
+
+/**
+ * @typedef {Object} Order
+ * @property {string} id
+ * @property {string} customerId
+ * @property {number} amount
+ * @property {number} refundedAmount Refunded so far; equals `amount` once REFUNDED
+ * @property {OrderStatus} status
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ */
+
+/**
+ * @typedef {Object} SegmentCondition
+ * @property {SegmentField} field
+ * @property {string} operator
+ * @property {string | number} value
+ * @property {number} [days] Look-back window in days; required for windowed fields
+ */
+
+/**
+ * Groups can nest, so `conditions` may hold further groups. A NOT group
+ * wraps one or more nodes and matches when none of them do.
+ * @typedef {Object} SegmentRuleGroup
+ * @property {typeof RULE_GROUP_TYPES[number]} type
+ * @property {SegmentRules[]} conditions
+ */
+
+/** @typedef {SegmentRuleGroup | SegmentCondition} SegmentRules */
+
+/**
+ * @typedef {Object} Segment
+ * @property {string} id
+ * @property {string} name
+ * @property {string | null} description
+ * @property {SegmentRules} rules
+ * @property {boolean} isDynamic Membership follows customer and order changes
+ * @property {string} createdById
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ * @property {number} [customerCount]
+ * @property {{ customers: number, campaigns?: number }} [_count]
+ */
+
+/**
+ * @typedef {Object} Campaign
+ * @property {string} id
+ * @property {string} name
+ * @property {string | null} description
+ * @property {string} message Body for email and SMS; the filled-in template for WhatsApp
+ * @property {CampaignChannel} channel
+ * @property {string | null} subject Email subject
+ * @property {string | null} whatsappTemplate Name of an approved WhatsApp template
+ * @property {string[] | null} whatsappParams Message templates filling its placeholders
+ * @property {CampaignStatus} status
+ * @property {string | null} scheduledFor Next run for recurring campaigns
+ * @property {string | null} recurrence Cron expression, evaluated in UTC
+ * @property {string | null} parentCampaignId Set on the runs of a recurring campaign
+ * @property {string} segmentId
+ * @property {string} createdById
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ * @property {number} [customerCount]
+ * @property {{ name: string, _count: { customers: number } }} [segment]
+ * @property {{ communications: number, runs?: number }} [_count]
+ * @property {number | null} testPercent Share of the recipients an A/B test sends to first
+ * @property {number | null} testWaitMinutes
+ * @property {typeof AB_WINNER_METRICS[number] | null} winnerMetric
+ * @property {string | null} testEndsAt When the test's winner goes to the rest
+ * @property {string | null} winnerVariantId
+ * @property {Partial<Record<Lowercase<CommunicationStatus>, number>>} [stats]
+ * @property {CampaignEngagement} [engagement]
+ * @property {CampaignVariantResult[]} [variants] A/B variants with their results, by label
+ */
+
+/**
+ * An A/B variant and how its messages did. Recipients held back for the
+ * winner of a test count towards no variant until it is picked.
+ * @typedef {Object} CampaignVariantResult
+ * @property {string} id
+ * @property {string} label A, B, ...
+ * @property {number} weight
+ * @property {string | null} subject
+ * @property {string} message
+ * @property {Partial<Record<Lowercase<CommunicationStatus>, number>> & { total: number }} stats
+ * @property {number} opened Messages opened at least once
+ * @property {number} clicked Messages clicked at least once
+ * @property {number} deliveryRate Of the messages attempted
+ * @property {number} openRate Of the messages sent
+ * @property {number} clickRate Of the messages sent
+ * @property {boolean} winner
+ */
+
+/**
+ * Tracked opens and clicks. Unique counts are messages opened or clicked at
+ * least once; opens are only tracked for email.
+ * @typedef {Object} CampaignEngagement
+ * @property {{ unique: number, total: number }} opens
+ * @property {{ unique: number, total: number }} clicks
+ */
+
+/**
+ * @typedef {Object} CommunicationLog
+ * @property {string} id
+ * @property {string} campaignId
+ * @property {string} customerId
+ * @property {CommunicationStatus} status
+ * @property {string | null} sentAt
+ * @property {string | null} errorMessage Why the message failed or was skipped
+ * @property {string | null} [dispatchedAt] When the message was handed to the delivery vendor
+ * @property {string | null} [vendorMessageId]
+ * @property {string | null} [renderedMessage] The campaign message as rendered for this customer
+ * @property {string | null} [variantId] The A/B variant sent; null while held back for a test's winner
+ * @property {string | null} [firstOpenedAt]
+ * @property {string | null} [firstClickedAt]
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ */
+
+/**
+ * @typedef {Object} CustomerDetail
+ * @property {string} id
+ * @property {string} email
+ * @property {string} name
+ * @property {string | null} phone
+ * @property {number} totalSpend
+ * @property {number} visitCount
+ * @property {string | null} lastVisit
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ * @property {string | null} deletedAt
+ * @property {Order[]} orders Newest first
+ * @property {{ segmentId: string, createdAt: string, segment: { id: string, name: string } }[]} segments
+ * @property {(CommunicationLog & { campaign: { id: string, name: string } })[]} communications Oldest first
+ */
+
+/**
+ * @typedef {Object} CustomerInput
+ * @property {string} email
+ * @property {string} name
+ * @property {string} [phone]
+ */
+
+/**
+ * Partial update; `phone: null` clears the phone number
+ * @typedef {Object} CustomerUpdateInput
+ * @property {string} [email]
+ * @property {string} [name]
+ * @property {string | null} [phone]
+ */
+
+/**
+ * @typedef {Object} OrderInput
+ * @property {number} amount
+ * @property {typeof NEW_ORDER_STATUSES[number]} status
+ */
+
+/**
+ * Moves an order to a new status. With REFUNDED, `refundAmount` refunds part
+ * of the order; without it the whole remaining amount is refunded.
+ * @typedef {Object} OrderUpdateInput
+ * @property {OrderStatus} status
+ * @property {number} [refundAmount]
+ */
+
+/**
+ * @typedef {Object} SegmentInput
+ * @property {string} name
+ * @property {string} [description]
+ * @property {SegmentRules} rules
+ * @property {boolean} [isDynamic] Defaults to true for new segments; updates leave it unchanged when omitted
+ */
+
+/**
+ * How many customers a segment update added and removed
+ * @typedef {Object} SegmentMembershipChange
+ * @property {number} added
+ * @property {number} removed
+ */
+
+/**
+ * @typedef {Segment & { membership: SegmentMembershipChange }} SegmentUpdateResult
+ */
+
+/**
+ * @typedef {Object} SegmentDuplicateInput
+ * @property {string} [name] Defaults to the original name with " (copy)"
+ */
+
+/**
+ * @typedef {Object} SegmentFromTextInput
+ * @property {string} text Plain-language description of the audience
+ */
+
+/**
+ * Rules generated from a description, for review before saving
+ * @typedef {Object} SegmentFromTextResult
+ * @property {SegmentRules} rules
+ * @property {number} customerCount
+ */
+
+/**
+ * @typedef {Object} SegmentOverlapInput
+ * @property {string[]} segmentIds Two to four distinct segments
+ */
+
+/**
+ * @typedef {Object} SegmentDeleteQuery
+ * @property {boolean} [cascade] Also delete the campaigns that target the segment
+ */
+
+/**
+ * @typedef {Object} CampaignInput
+ * @property {string} name
+ * @property {string} [description]
+ * @property {string} segmentId
+ * @property {CampaignChannel} [channel] EMAIL by default
+ * @property {string} [subject] Required for email
+ * @property {string} [message] Required for email and SMS
+ * @property {string} [whatsappTemplate] Required for WhatsApp
+ * @property {string[]} [whatsappParams] One per placeholder of the WhatsApp template
+ * @property {string} [scheduledFor]
+ * @property {string} [recurrence] Makes the campaign recurring; `scheduledFor` then defaults to its next time
+ * @property {CampaignVariantInput[]} [variants] Two or more A/B variants, replacing the content above
+ * @property {CampaignAbTestInput} [abTest] Tests the variants on a slice of the recipients first
+ */
+
+/**
+ * One version of an A/B tested campaign's content, with the same fields the
+ * campaign's channel needs. WhatsApp variants share the campaign's template
+ * and differ in its params.
+ * @typedef {Object} CampaignVariantInput
+ * @property {number} weight Percent of the recipients (or of the test slice) getting it; the weights add up to 100
+ * @property {string} [subject]
+ * @property {string} [message]
+ * @property {string[]} [whatsappParams]
+ */
+
+/**
+ * Sends the variants to a slice of the recipients, then the variant doing
+ * best on `winnerMetric` to the rest once `waitMinutes` have passed.
+ * @typedef {Object} CampaignAbTestInput
+ * @property {number} testPercent
+ * @property {number} waitMinutes
+ * @property {typeof AB_WINNER_METRICS[number]} winnerMetric
+ */
+
+/**
+ * Renders a campaign message for one member of a segment. Without a
+ * `customerId`, the first of the matching recipients is used.
+ * @typedef {Object} MessagePreviewInput
+ * @property {string} segmentId
+ * @property {string} message
+ * @property {string} [customerId]
+ * @property {string} [search] Narrows the recipients to choose from by name or email
+ */
+
+/**
+ * @typedef {Object} MessagePreviewRecipient
+ * @property {string} id
+ * @property {string} name
+ * @property {string} email
+ */
+
+/**
+ * @typedef {Object} MessagePreview
+ * @property {MessagePreviewRecipient | null} customer Null if no recipient matched
+ * @property {string | null} rendered
+ * @property {MessagePreviewRecipient[]} recipients
+ */
+
+/**
+ * Moves a campaign's schedule. A null `recurrence` makes it a one-off.
+ * @typedef {Object} CampaignScheduleInput
+ * @property {string} [scheduledFor]
+ * @property {string | null} [recurrence]
+ */
+
+/**
+ * @typedef {typeof CUSTOMER_IMPORT_FIELDS[number]} CustomerImportField
+ */
+
+/**
+ * @typedef {Object} CustomerImportInput
+ * @property {'csv' | 'json'} format
+ * @property {string} content Raw file contents
+ * @property {Record<string, CustomerImportField | undefined>} [mapping] Column name to field; guessed from the headers when omitted
+ * @property {boolean} [dryRun] Defaults to true, so nothing is written unless explicitly asked
+ * @property {'update' | 'skip'} [onDuplicate] What to do with emails that already exist
+ */
+
+/**
+ * @typedef {Object} CustomerImportRow
+ * @property {string} email
+ * @property {string} [name]
+ * @property {string} [phone]
+ * @property {number} [orderAmount]
+ * @property {OrderStatus} [orderStatus]
+ * @property {string} [orderDate]
+ */
+
+/**
+ * @typedef {Object} CustomerImportRowResult
+ * @property {number} row 1-based index of the data row in the file
+ * @property {string | null} email
+ * @property {typeof IMPORT_ROW_STATUSES[number]} status
+ * @property {string} [message]
+ * @property {number} ordersCreated
+ */
+
+/**
+ * @typedef {Object} CustomerImportReport
+ * @property {boolean} dryRun
+ * @property {string[]} columns
+ * @property {Record<string, CustomerImportField>} mapping
+ * @property {Record<typeof IMPORT_ROW_STATUSES[number], number> & { total: number }} summary
+ * @property {CustomerImportRowResult[]} rows
+ */
+
+/**
+ * @typedef {typeof CUSTOMER_SORT_FIELDS[number]} CustomerSortField
+ */
+
+/**
+ * @typedef {Object} CustomerListQuery
+ * @property {number} [page]
+ * @property {number} [limit]
+ * @property {string} [search] Matches name, email or phone
+ * @property {number} [minSpend]
+ * @property {number} [maxSpend]
+ * @property {number} [minVisits]
+ * @property {number} [maxVisits]
+ * @property {string} [lastVisitFrom]
+ * @property {string} [lastVisitTo]
+ * @property {CustomerSortField} [sortBy]
+ * @property {'asc' | 'desc'} [sortOrder]
+ * @property {boolean} [deleted] List soft-deleted customers instead of active ones
+ */
+
+/**
+ * @typedef {Object} CustomerExportQuery
+ * @property {'csv' | 'json'} [format]
+ * @property {string} [segmentId] Only export members of this segment
+ */
+
+/**
+ * @typedef {Object} DeliveryReceiptInput
+ * @property {string} communicationId
+ * @property {'SENT' | 'FAILED'} status
+ * @property {string} [errorMessage]
+ */
+
+/**
+ * A status change a vendor reports through its webhook. Other fields the
+ * vendor sends are kept with the event.
+ * @typedef {Object} VendorWebhookEvent
+ * @property {string} id The vendor's id for the event; events seen before are ignored
+ * @property {string} communicationId
+ * @property {typeof VENDOR_EVENT_STATUSES[number]} status
+ * @property {string} [errorMessage]
+ * @property {string} occurredAt When it happened at the vendor; orders events that arrive out of order
+ */
+
+/**
+ * @typedef {Object} VendorEventReplayInput
+ * @property {string} since Replays the events received since then
+ * @property {string} [until]
+ */
+
+const timestamps = {
+  createdAt: v.isoDate(),
+  updatedAt: v.isoDate(),
+};
+
+/**
+ * A `between` value: two ISO dates separated by a comma, the start no later
+ * than the end. Returns both normalised to ISO strings.
+ * @type {Validator<string>}
+ */
+const dateRange = (value, path, errors) => {
+  const parts = typeof value === 'string' ? value.split(',') : [];
+  if (parts.length !== 2) {
+    errors.push({ path, msg: 'must be two dates separated by a comma' });
+    return v.invalid(value);
+  }
+
+  const count = errors.length;
+  const [start, end] = parts.map((part, i) => v.isoDate()(part.trim(), v.joinPath(path, i), errors));
+  if (errors.length > count) return v.invalid(value);
+  if (start > end) {
+    errors.push({ path, msg: 'the start date must not be after the end date' });
+    return v.invalid(value);
+  }
+  return `${start},${end}`;
+};
+
+/** @type {Validator<SegmentCondition>} */
+const segmentCondition = (value, path, errors) => {
+  const condition = v.object({}, { passthrough: true })(value, path, errors);
+  if (!condition || typeof condition !== 'object') return v.invalid(condition);
+
+  const field = /** @type {SegmentField} */ (condition.field);
+  const type = SEGMENT_FIELDS[field];
+  if (!type) {
+    errors.push({
+      path: v.joinPath(path, 'field'),
+      msg: `unsupported field ${JSON.stringify(condition.field)}, expected one of ${Object.keys(SEGMENT_FIELDS).join(', ')}`,
+    });
+    return v.invalid(condition);
+  }
+
+  /** @type {readonly string[]} */
+  const operators = SEGMENT_OPERATORS[type];
+  const operator = condition.operator;
+  if (typeof operator !== 'string' || !operators.includes(operator)) {
+    errors.push({
+      path: v.joinPath(path, 'operator'),
+      msg: `unsupported operator ${JSON.stringify(operator)} for ${type} field ${condition.field}, expected one of ${operators.join(', ')}`,
+    });
+    return v.invalid(condition);
+  }
+
+  /** @type {Validator<string | number>} */
+  let valueValidator;
+  if (type === 'number' || operator === 'daysAgo') {
+    valueValidator = v.number({ min: 0, integer: operator === 'daysAgo' });
+  } else if (operator === 'between') {
+    valueValidator = dateRange;
+  } else if (type === 'date') {
+    valueValidator = v.isoDate();
+  } else {
+    valueValidator = v.string({ min: 1 });
+  }
+
+  /** @type {readonly SegmentField[]} */
+  const windowed = WINDOWED_SEGMENT_FIELDS;
+  return {
+    field,
+    operator,
+    value: valueValidator(condition.value, v.joinPath(path, 'value'), errors),
+    ...(windowed.includes(field) && {
+      days: v.number({ min: 1, integer: true })(condition.days, v.joinPath(path, 'days'), errors),
+    }),
+  };
+};
+
+/**
+ * Validates one node of a rule tree at the given group nesting depth.
+ * @param {number} depth
+ * @returns {Validator<SegmentRules>}
+ */
+const segmentRuleNode = (depth) => (value, path, errors) => {
+  if (!value || typeof value !== 'object' || !('conditions' in value)) {
+    return segmentCondition(value, path, errors);
+  }
+  if (depth > MAX_RULE_DEPTH) {
+    errors.push({ path, msg: `groups can be nested at most ${MAX_RULE_DEPTH} levels deep` });
+    return v.invalid(value);
+  }
+  return v.object({
+    type: v.oneOf(RULE_GROUP_TYPES),
+    conditions: v.array(segmentRuleNode(depth + 1), { min: 1 }),
+  })(value, path, errors);
+};
+
+/**
+ * @param {SegmentRules} rules
+ * @returns {number}
+ */
+const countConditions = (rules) => {
+  const { conditions } = /** @type {Partial<SegmentRuleGroup>} */ (rules || {});
+  return Array.isArray(conditions) ? conditions.reduce((n, c) => n + countConditions(c), 0) : 1;
+};
+
+/**
+ * A rule tree: a single condition or an AND/OR/NOT group, nested up to
+ * MAX_RULE_DEPTH groups deep with at most MAX_RULE_CONDITIONS conditions.
+ * Errors point at the offending node, e.g. `conditions.1.conditions.0.operator`.
+ * @type {Validator<SegmentRules>}
+ */
+const segmentRules = (value, path, errors) => {
+  const rules = segmentRuleNode(1)(value, path, errors);
+  if (countConditions(rules) > MAX_RULE_CONDITIONS) {
+    errors.push({ path, msg: `can contain at most ${MAX_RULE_CONDITIONS} conditions` });
+  }
+  return rules;
+};
+
+/** @type {Validator<CustomerInput>} */
+const customerInput = v.object({
+  email: v.email(),
+  name: v.string({ min: 1 }),
+  phone: v.optional(v.string()),
+});
+
+/** @type {Validator<CustomerUpdateInput>} */
+const customerUpdateInput = v.object({
+  email: v.optional(v.email()),
+  name: v.optional(v.string({ min: 1 })),
+  phone: v.optional(v.nullable(v.string())),
+});
+
+/** @type {Validator<CustomerImportInput>} */
+const customerImportInput = v.object({
+  format: v.oneOf(IMPORT_FORMATS),
+  content: v.string({ min: 1, trim: false }),
+  mapping: v.optional(v.record(v.optional(v.oneOf(CUSTOMER_IMPORT_FIELDS)))),
+  dryRun: v.optional(v.boolean()),
+  onDuplicate: v.optional(v.oneOf(/** @type {const} */ (['update', 'skip']))),
+});
+
+/** @type {Validator<CustomerImportRow>} */
+const customerImportRow = v.object({
+  email: v.email(),
+  name: v.optional(v.string()),
+  phone: v.optional(v.string()),
+  orderAmount: v.optional(v.number({ min: 0 })),
+  orderStatus: v.optional(v.oneOf(ORDER_STATUSES)),
+  orderDate: v.optional(v.isoDate()),
+});
+
+/** @type {Validator<CustomerListQuery>} */
+const customerListQuery = v.object({
+  page: v.optional(v.number({ min: 1, integer: true })),
+  limit: v.optional(v.number({ min: 1, max: 100, integer: true })),
+  search: v.optional(v.string()),
+  minSpend: v.optional(v.number({ min: 0 })),
+  maxSpend: v.optional(v.number({ min: 0 })),
+  minVisits: v.optional(v.number({ min: 0, integer: true })),
+  maxVisits: v.optional(v.number({ min: 0, integer: true })),
+  lastVisitFrom: v.optional(v.isoDate()),
+  lastVisitTo: v.optional(v.isoDate()),
+  sortBy: v.optional(v.oneOf(CUSTOMER_SORT_FIELDS)),
+  sortOrder: v.optional(v.oneOf(SORT_ORDERS)),
+  deleted: v.optional(v.boolean()),
+});
+
+/** @type {Validator<CustomerExportQuery>} */
+const customerExportQuery = v.object({
+  format: v.optional(v.oneOf(EXPORT_FORMATS)),
+  segmentId: v.optional(v.uuid()),
+});
+
+/** @type {Validator<OrderInput>} */
+const orderInput = v.object({
+  amount: v.number({ min: 0 }),
+  status: v.oneOf(NEW_ORDER_STATUSES),
+});
+
+/** @type {Validator<OrderUpdateInput>} */
+const orderUpdateInput = v.object({
+  status: v.oneOf(ORDER_STATUSES),
+  refundAmount: v.optional(v.number({ min: 0.01 })),
+});
+
+/** @type {Validator<SegmentInput>} */
+const segmentInput = v.object({
+  name: v.string({ min: 1 }),
+  description: v.optional(v.string()),
+  rules: segmentRules,
+  isDynamic: v.optional(v.boolean()),
+});
+
+/** @type {Validator<SegmentDuplicateInput>} */
+const segmentDuplicateInput = v.object({
+  name: v.optional(v.string({ min: 1 })),
+});
+
+/** @type {Validator<SegmentDeleteQuery>} */
+const segmentDeleteQuery = v.object({
+  cascade: v.optional(v.boolean()),
+});
+
+/** @type {Validator<SegmentFromTextInput>} */
+const segmentFromTextInput = v.object({
+  text: v.string({ min: 1, max: 500 }),
+});
+
+/** @type {Validator<SegmentOverlapInput>} */
+const segmentOverlapInput = (value, path, errors) => {
+  const input = v.object({
+    segmentIds: v.array(v.uuid(), { min: 2, max: 4 }),
+  })(value, path, errors);
+  if (input && Array.isArray(input.segmentIds)
+    && new Set(input.segmentIds).size !== input.segmentIds.length) {
+    errors.push({ path: v.joinPath(path, 'segmentIds'), msg: 'must not list a segment twice' });
+  }
+  return input;
+};
+
+/** @type {Validator<{ rules: SegmentRules }>} */
+const segmentPreviewInput = v.object({
+  rules: segmentRules,
+});
+
+/** @type {Validator<string>} */
+const cronExpression = (value, path, errors) => {
+  const expression = v.string({ min: 1 })(value, path, errors);
+  if (typeof expression !== 'string' || expression === '') return expression;
+  try {
+    parseCron(expression);
+  } catch (error) {
+    errors.push({ path, msg: /** @type {Error} */ (error).message });
+  }
+  return expression;
+};
+
+/** @type {Validator<string>} */
+const messageTemplate = (value, path, errors) => {
+  const message = v.string({ min: 1 })(value, path, errors);
+  if (typeof message === 'string') {
+    for (const msg of templateErrors(message)) {
+      errors.push({ path, msg });
+    }
+  }
+  return message;
+};
+
+const campaignVariantInput = v.object({
+  weight: v.number({ min: 1, max: 99, integer: true }),
+  subject: v.optional(messageTemplate),
+  message: v.optional(messageTemplate),
+  whatsappParams: v.optional(v.array(messageTemplate, { max: 10 })),
+});
+
+const campaignAbTestInput = v.object({
+  testPercent: v.number({ min: 5, max: 50, integer: true }),
+  waitMinutes: v.number({ min: 5, max: 10080, integer: true }),
+  winnerMetric: v.oneOf(AB_WINNER_METRICS),
+});
+
+/** @type {Validator<CampaignInput>} */
+const campaignInput = (value, path, errors) => {
+  const input = v.object({
+    name: v.string({ min: 1 }),
+    description: v.optional(v.string()),
+    segmentId: v.uuid(),
+    channel: v.optional(v.oneOf(CAMPAIGN_CHANNELS)),
+    subject: v.optional(messageTemplate),
+    message: v.optional(messageTemplate),
+    whatsappTemplate: v.optional(v.oneOf(Object.keys(WHATSAPP_TEMPLATES))),
+    whatsappParams: v.optional(v.array(messageTemplate, { max: 10 })),
+    scheduledFor: v.optional(v.isoDate()),
+    recurrence: v.optional(cronExpression),
+    variants: v.optional(v.array(campaignVariantInput, { min: 2, max: MAX_CAMPAIGN_VARIANTS })),
+    abTest: v.optional(campaignAbTestInput),
+  })(value, path, errors);
+  if (!input) return input;
+
+  // Each channel needs its own content, in every variant if there are any
+  const channel = input.channel || 'EMAIL';
+  const template = input.whatsappTemplate && WHATSAPP_TEMPLATES[input.whatsappTemplate];
+  /**
+   * @param {{ subject?: string, message?: string, whatsappParams?: string[] }} content
+   * @param {string} contentPath
+   */
+  const checkContent = (content, contentPath) => {
+    /** @param {'subject' | 'message'} field */
+    const requireField = (field) => {
+      if (content[field] === undefined) {
+        errors.push({ path: v.joinPath(contentPath, field), msg: `is required for ${channel} campaigns` });
+      }
+    };
+    if (channel === 'EMAIL') requireField('subject');
+    if (channel !== 'WHATSAPP') requireField('message');
+    const params = content.whatsappParams || [];
+    if (channel === 'WHATSAPP' && template && params.length !== template.params.length) {
+      errors.push({
+        path: v.joinPath(contentPath, 'whatsappParams'),
+        msg: `must have ${template.params.length} value(s) for template ${input.whatsappTemplate}`,
+      });
+    }
+  };
+
+  if (channel === 'WHATSAPP' && input.whatsappTemplate === undefined) {
+    errors.push({ path: v.joinPath(path, 'whatsappTemplate'), msg: 'is required for WHATSAPP campaigns' });
+  }
+
+  const { variants, abTest } = input;
+  if (!Array.isArray(variants)) {
+    checkContent(input, path);
+  } else {
+    /** @type {number[]} */
+    const weights = [];
+    variants.forEach((variant, i) => {
+      if (typeof variant !== 'object' || variant === null) return;
+      checkContent(variant, v.joinPath(v.joinPath(path, 'variants'), i));
+      weights.push(variant.weight);
+    });
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (weights.every((weight) => typeof weight === 'number') && total !== 100) {
+      errors.push({ path: v.joinPath(path, 'variants'), msg: `weights must add up to 100, not ${total}` });
+    }
+  }
+
+  if (abTest && !Array.isArray(variants)) {
+    errors.push({ path: v.joinPath(path, 'abTest'), msg: 'needs variants to test' });
+  }
+  if (abTest && abTest.winnerMetric === 'OPEN' && channel !== 'EMAIL') {
+    errors.push({ path: v.joinPath(v.joinPath(path, 'abTest'), 'winnerMetric'), msg: 'OPEN is only tracked for EMAIL campaigns' });
+  }
+  return input;
+};
+
+/** @type {Validator<MessagePreviewInput>} */
+const messagePreviewInput = v.object({
+  segmentId: v.uuid(),
+  message: messageTemplate,
+  customerId: v.optional(v.uuid()),
+  search: v.optional(v.string({ max: 100 })),
+});
+
+/** @type {Validator<CampaignScheduleInput>} */
+const campaignScheduleInput = (value, path, errors) => {
+  const input = v.object({
+    scheduledFor: v.optional(v.isoDate()),
+    recurrence: v.optional(v.nullable(cronExpression)),
+  })(value, path, errors);
+  if (input && !input.scheduledFor && !input.recurrence) {
+    errors.push({ path: v.joinPath(path, 'scheduledFor'), msg: 'is required without a recurrence' });
+  }
+  return input;
+};
+
+/** @type {Validator<{ objective: string, variants?: number }>} */
+const generateMessageInput = v.object({
+  objective: v.string({ min: 1 }),
+  variants: v.optional(v.number({ min: 2, max: MAX_CAMPAIGN_VARIANTS, integer: true })),
+});
+
+/** @type {Validator<DeliveryReceiptInput>} */
+const deliveryReceiptInput = v.object({
+  communicationId: v.uuid(),
+  status: v.oneOf(DELIVERY_STATUSES),
+  errorMessage: v.optional(v.string()),
+});
+
+/** @type {Validator<{ updates: DeliveryReceiptInput[] }>} */
+const deliveryBatchInput = v.object({
+  updates: v.array(deliveryReceiptInput),
+});
+
+/** @type {Validator<VendorWebhookEvent>} */
+const vendorWebhookEvent = v.object({
+  id: v.string({ min: 1, max: 191 }),
+  communicationId: v.uuid(),
+  status: v.oneOf(VENDOR_EVENT_STATUSES),
+  errorMessage: v.optional(v.string()),
+  occurredAt: v.isoDate(),
+}, { passthrough: true });
+
+/** @type {Validator<{ events: VendorWebhookEvent[] }>} */
+const vendorWebhookInput = v.object({
+  events: v.array(vendorWebhookEvent, { min: 1, max: 500 }),
+});
+
+/** @type {Validator<VendorEventReplayInput>} */
+const vendorEventReplayInput = v.object({
+  since: v.isoDate(),
+  until: v.optional(v.isoDate()),
+});
+
+/** @type {Validator<Customer>} */
+const customer = v.object({
+  id: v.string(),
+  email: v.string(),
+  name: v.string(),
+  phone: v.nullable(v.string()),
+  totalSpend: v.number(),
+  visitCount: v.number({ integer: true }),
+  lastVisit: v.nullable(v.isoDate()),
+  deletedAt: v.nullable(v.isoDate()),
+  ...timestamps,
+}, { passthrough: true });
+
+/** @type {Validator<Order>} */
+const order = v.object({
+  id: v.string(),
+  customerId: v.string(),
+  amount: v.number(),
+  refundedAmount: v.number(),
+  status: v.oneOf(ORDER_STATUSES),
+  ...timestamps,
+}, { passthrough: true });
+
+/** @type {Validator<Segment>} */
+const segment = v.object({
+  id: v.string(),
+  name: v.string(),
+  description: v.nullable(v.string()),
+  rules: segmentRules,
+  isDynamic: v.boolean(),
+  createdById: v.string(),
+  ...timestamps,
+}, { passthrough: true });
+
+/** @type {Validator<SegmentUpdateResult>} */
+const segmentUpdateResult = v.pipe(segment, v.object({
+  membership: v.object({
+    added: v.number({ integer: true }),
+    removed: v.number({ integer: true }),
+  }),
+}, { passthrough: true }));
+
+/** @type {Validator<SegmentFromTextResult>} */
+const segmentFromTextResult = v.object({
+  rules: segmentRules,
+  customerCount: v.number({ integer: true }),
+});
+
+/** @type {Validator<Campaign>} */
+const campaign = v.object({
+  id: v.string(),
+  name: v.string(),
+  description: v.nullable(v.string()),
+  message: v.string(),
+  channel: v.oneOf(CAMPAIGN_CHANNELS),
+  subject: v.nullable(v.string()),
+  whatsappTemplate: v.nullable(v.string()),
+  whatsappParams: v.nullable(v.array(v.string())),
+  status: v.oneOf(CAMPAIGN_STATUSES),
+  scheduledFor: v.nullable(v.isoDate()),
+  recurrence: v.nullable(v.string()),
+  parentCampaignId: v.nullable(v.string()),
+  testPercent: v.nullable(v.number({ integer: true })),
+  testWaitMinutes: v.nullable(v.number({ integer: true })),
+  winnerMetric: v.nullable(v.oneOf(AB_WINNER_METRICS)),
+  testEndsAt: v.nullable(v.isoDate()),
+  winnerVariantId: v.nullable(v.string()),
+  segmentId: v.string(),
+  createdById: v.string(),
+  ...timestamps,
+}, { passthrough: true });
+
+/** @type {Validator<CommunicationLog>} */
+const communicationLog = v.object({
+  id: v.string(),
+  campaignId: v.string(),
+  customerId: v.string(),
+  status: v.oneOf(COMMUNICATION_STATUSES),
+  sentAt: v.nullable(v.isoDate()),
+  errorMessage: v.nullable(v.string()),
+  ...timestamps,
+}, { passthrough: true });
+
+/** @type {Validator<CustomerDetail>} */
+const customerDetail = v.pipe(customer, v.object({
+  orders: v.array(order),
+  segments: v.array(v.object({
+    segmentId: v.string(),
+    createdAt: v.isoDate(),
+    segment: v.object({ id: v.string(), name: v.string() }),
+  })),
+  communications: v.array(v.pipe(communicationLog, v.object({
+    campaign: v.object({ id: v.string(), name: v.string() }),
+  }, { passthrough: true }))),
+}, { passthrough: true }));
+
+module.exports = {
+  ValidationError: v.ValidationError,
+  validate: v.validate,
+  parse: v.parse,
+  array: v.array,
+  ORDER_STATUSES,
+  NEW_ORDER_STATUSES,
+  ORDER_STATUS_TRANSITIONS,
+  CAMPAIGN_STATUSES,
+  CAMPAIGN_STATUS_TRANSITIONS,
+  COMMUNICATION_STATUSES,
+  DELIVERY_STATUSES,
+  VENDOR_EVENT_STATUSES,
+  AB_WINNER_METRICS,
+  MAX_CAMPAIGN_VARIANTS,
+  RULE_GROUP_TYPES,
+  MAX_RULE_DEPTH,
+  MAX_RULE_CONDITIONS,
+  SORT_ORDERS,
+  CUSTOMER_SORT_FIELDS,
+  IMPORT_FORMATS,
+  EXPORT_FORMATS,
+  IMPORT_ROW_STATUSES,
+  CUSTOMER_IMPORT_FIELDS,
+  SEGMENT_FIELDS,
+  SEGMENT_OPERATORS,
+  WINDOWED_SEGMENT_FIELDS,
+  segmentCondition,
+  segmentRules,
+  customerInput,
+  customerUpdateInput,
+  customerImportInput,
+  customerImportRow,
+  customerListQuery,
+  customerExportQuery,
+  orderInput,
+  orderUpdateInput,
+  segmentInput,
+  segmentDuplicateInput,
+  segmentDeleteQuery,
+  segmentFromTextInput,
+  segmentOverlapInput,
+  segmentPreviewInput,
+  campaignInput,
+  campaignScheduleInput,
+  messagePreviewInput,
+  generateMessageInput,
+  deliveryReceiptInput,
+  deliveryBatchInput,
+  vendorWebhookInput,
+  vendorEventReplayInput,
+  customer,
+  customerDetail,
+  order,
+  segment,
+  segmentUpdateResult,
+  segmentFromTextResult,
+  campaign,
+  communicationLog,
+};
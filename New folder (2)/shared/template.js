@@ -0,0 +1,283 @@
+/**
+ * Campaign message templates, rendered once per recipient. Shared so the
+ * dialog can point out mistakes as they are typed.
+ *
+ *   Hi {{firstName | default: "there"}}, you've spent {{totalSpend | money}}
+ *   {{#if visitCount >= 10}}- thanks for being a regular!{{else}}- come back soon!{{/if}}
+ *   Last seen {{lastVisit | date | default: "a while ago"}}.
+ *
+ * A `{{field}}` token may be followed by filters, applied left to right.
+ * `{{#if condition}}...{{else}}...{{/if}}` blocks nest; a condition is a
+ * field, `!field`, or a field compared to a number or quoted string with
+ * one of > >= < <= == !=. A bare field is false when empty or zero, and
+ * comparisons with an empty field are false.
+ */
+
+/** @typedef {'text' | 'number' | 'date'} TemplateFieldType */
+
+/**
+ * The customer fields a template can use.
+ * @type {Record<string, { type: TemplateFieldType, description: string }>}
+ */
+const TEMPLATE_FIELDS = {
+  name: { type: 'text', description: 'Full name' },
+  firstName: { type: 'text', description: 'First word of the name' },
+  email: { type: 'text', description: 'Email address' },
+  phone: { type: 'text', description: 'Phone number, if known' },
+  totalSpend: { type: 'number', description: 'Total spent' },
+  visitCount: { type: 'number', description: 'Number of visits' },
+  lastVisit: { type: 'date', description: 'Date of the last visit, if any' },
+  daysSinceLastVisit: { type: 'number', description: 'Whole days since the last visit, if any' },
+};
+
+const formatDate = (date) =>
+  date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+/**
+ * Filters by name. `types` lists the field types a filter applies to; all
+ * of them if omitted.
+ * @type {Record<string, { types?: TemplateFieldType[], argument?: boolean, apply: (value: any, argument?: string) => any }>}
+ */
+const FILTERS = {
+  date: { types: ['date'], apply: (value) => formatDate(value) },
+  money: {
+    types: ['number'],
+    apply: (value) => value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+  },
+  upper: { types: ['text'], apply: (value) => String(value).toUpperCase() },
+  lower: { types: ['text'], apply: (value) => String(value).toLowerCase() },
+  default: { argument: true, apply: (value) => value },
+};
+
+const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+const COMPARISONS = {
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b,
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '==': (a, b) => a === b,
+  '!=': (a, b) => a !== b,
+};
+
+const isEmpty = (value) => value === null || value === undefined || value === '';
+
+/**
+ * @typedef {{ name: string, argument?: string }} FilterCall
+ * @typedef {{ field: string, negate: boolean, op?: string, value?: string | number }} Condition
+ * @typedef {{ type: 'text', text: string }
+ *   | { type: 'field', field: string, filters: FilterCall[] }
+ *   | { type: 'if', condition: Condition, then: TemplateNode[], otherwise: TemplateNode[] }} TemplateNode
+ */
+
+const fieldList = () => Object.keys(TEMPLATE_FIELDS).join(', ');
+
+const checkField = (field, tag, errors) => {
+  if (!TEMPLATE_FIELDS[field]) {
+    errors.push(`Unknown field "${field}" in ${tag}; use one of ${fieldList()}`);
+    return false;
+  }
+  return true;
+};
+
+/** @returns {TemplateNode | null} */
+const parseFieldTag = (body, tag, errors) => {
+  const [field, ...filterParts] = body.split('|').map((part) => part.trim());
+  if (!/^\w+$/.test(field)) {
+    errors.push(`Invalid token ${tag}`);
+    return null;
+  }
+  if (!checkField(field, tag, errors)) return null;
+
+  const { type } = TEMPLATE_FIELDS[field];
+  const filters = [];
+  for (const part of filterParts) {
+    const match = /^(\w+)\s*(?::\s*"([^"]*)")?$/.exec(part);
+    const filter = match && FILTERS[match[1]];
+    if (!filter) {
+      errors.push(`Unknown filter "${part}" in ${tag}; use one of ${TEMPLATE_FILTERS.join(', ')}`);
+    } else if (filter.argument && match[2] === undefined) {
+      errors.push(`Filter "${match[1]}" in ${tag} needs a quoted value, e.g. ${match[1]}: "there"`);
+    } else if (!filter.argument && match[2] !== undefined) {
+      errors.push(`Filter "${match[1]}" in ${tag} doesn't take a value`);
+    } else if (filter.types && !filter.types.includes(type)) {
+      errors.push(`Filter "${match[1]}" in ${tag} can't be used on ${type} field "${field}"`);
+    } else {
+      filters.push({ name: match[1], argument: match[2] });
+    }
+  }
+  return { type: 'field', field, filters };
+};
+
+/** @returns {Condition | null} */
+const parseCondition = (body, tag, errors) => {
+  const match = /^(!?)\s*(\w+)(?:\s*(>=|<=|==|!=|>|<)\s*(-?\d+(?:\.\d+)?|"[^"]*"))?$/.exec(body.trim());
+  if (!match) {
+    errors.push(`Invalid condition in ${tag}; write e.g. {{#if visitCount > 5}} or {{#if phone}}`);
+    return null;
+  }
+  const [, negate, field, op, literal] = match;
+  if (!checkField(field, tag, errors)) return null;
+  if (!op) return { field, negate: negate === '!' };
+
+  if (negate) {
+    errors.push(`Use != rather than ! with a comparison in ${tag}`);
+    return null;
+  }
+  const { type } = TEMPLATE_FIELDS[field];
+  const isString = literal.startsWith('"');
+  if (type === 'date' || (type === 'number') === isString) {
+    errors.push(`"${field}" can't be compared with ${literal} in ${tag}`);
+    return null;
+  }
+  return { field, negate: false, op, value: isString ? literal.slice(1, -1) : Number(literal) };
+};
+
+/**
+ * Parses a template, collecting every mistake in it rather than stopping at
+ * the first.
+ * @param {string} template
+ * @returns {{ nodes: TemplateNode[], errors: string[] }}
+ */
+const parseTemplate = (template) => {
+  /** @type {string[]} */
+  const errors = [];
+  const root = { then: /** @type {TemplateNode[]} */ ([]) };
+  // Open #if blocks, innermost last, each with the list being filled
+  const stack = [];
+  let target = root.then;
+  let last = 0;
+
+  const addText = (text) => {
+    if (text.includes('{{') || text.includes('}}')) {
+      errors.push('Unmatched "{{" or "}}"');
+    }
+    if (text) target.push({ type: 'text', text });
+  };
+
+  for (const match of template.matchAll(/\{\{([^{}]*)\}\}/g)) {
+    addText(template.slice(last, match.index));
+    last = match.index + match[0].length;
+
+    const tag = match[0];
+    const body = match[1].trim();
+
+    if (body.startsWith('#if')) {
+      const condition = parseCondition(body.slice(3), tag, errors);
+      /** @type {TemplateNode} */
+      const node = { type: 'if', condition: condition || { field: 'name', negate: false }, then: [], otherwise: [] };
+      target.push(node);
+      stack.push({ node, inElse: false });
+      target = node.then;
+    } else if (body === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) {
+        errors.push('{{else}} outside an {{#if}} block');
+        continue;
+      }
+      open.inElse = true;
+      target = open.node.otherwise;
+    } else if (body === '/if') {
+      if (!stack.pop()) {
+        errors.push('{{/if}} without an {{#if}}');
+        continue;
+      }
+      const open = stack[stack.length - 1];
+      target = !open ? root.then : open.inElse ? open.node.otherwise : open.node.then;
+    } else {
+      const node = parseFieldTag(body, tag, errors);
+      if (node) target.push(node);
+    }
+  }
+  addText(template.slice(last));
+
+  if (stack.length > 0) {
+    errors.push(`${stack.length} {{#if}} block(s) not closed with {{/if}}`);
+  }
+  return { nodes: root.then, errors };
+};
+
+/**
+ * The mistakes in a template, e.g. unknown fields; empty if it is fine.
+ * @param {string} template
+ */
+const templateErrors = (template) => parseTemplate(template).errors;
+
+/**
+ * @typedef {Object} TemplateCustomer
+ * @property {string} name
+ * @property {string} email
+ * @property {string | null} [phone]
+ * @property {number} totalSpend
+ * @property {number} visitCount
+ * @property {Date | string | null} lastVisit
+ */
+
+const fieldValues = (customer, now) => {
+  const lastVisit = customer.lastVisit ? new Date(customer.lastVisit) : null;
+  return {
+    name: customer.name,
+    firstName: customer.name ? customer.name.trim().split(/\s+/)[0] : '',
+    email: customer.email,
+    phone: customer.phone,
+    totalSpend: customer.totalSpend,
+    visitCount: customer.visitCount,
+    lastVisit,
+    daysSinceLastVisit: lastVisit
+      ? Math.max(0, Math.floor((now.getTime() - lastVisit.getTime()) / 86400000))
+      : null,
+  };
+};
+
+const display = (value) => {
+  if (isEmpty(value)) return '';
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value === 'number') return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  return String(value);
+};
+
+const holds = ({ field, negate, op, value }, values) => {
+  const actual = values[field];
+  if (!op) return negate ? isEmpty(actual) || actual === 0 : !isEmpty(actual) && actual !== 0;
+  return !isEmpty(actual) && COMPARISONS[op](actual, value);
+};
+
+const renderNodes = (nodes, values) =>
+  nodes.map((node) => {
+    if (node.type === 'text') return node.text;
+    if (node.type === 'if') {
+      return renderNodes(holds(node.condition, values) ? node.then : node.otherwise, values);
+    }
+
+    let value = values[node.field];
+    for (const { name, argument } of node.filters) {
+      if (name === 'default') {
+        if (isEmpty(value)) value = argument;
+      } else if (!isEmpty(value)) {
+        value = FILTERS[name].apply(value);
+      }
+    }
+    return display(value);
+  }).join('');
+
+/**
+ * Compiles a template into a function rendering it for one customer.
+ * Throws if the template has mistakes.
+ * @param {string} template
+ * @returns {(customer: TemplateCustomer, now?: Date) => string}
+ */
+const compileTemplate = (template) => {
+  const { nodes, errors } = parseTemplate(template);
+  if (errors.length > 0) {
+    throw new Error(`Invalid message template: ${errors.join('; ')}`);
+  }
+  return (customer, now = new Date()) => renderNodes(nodes, fieldValues(customer, now));
+};
+
+module.exports = {
+  TEMPLATE_FIELDS,
+  TEMPLATE_FILTERS,
+  parseTemplate,
+  templateErrors,
+  compileTemplate,
+};
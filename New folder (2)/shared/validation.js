@@ -0,0 +1,293 @@
+// @ts-check
+/**
+ * Tiny validator combinators shared by the backend and the frontend.
+ *
+ * A validator receives a value and the path it was found at, records any
+ * problems on `errors` and returns the normalised value.
+ */
+
+/**
+ * @typedef {Object} FieldError
+ * @property {string} path
+ * @property {string} msg
+ */
+
+/**
+ * @template T
+ * @typedef {(value: unknown, path: string, errors: FieldError[]) => T} Validator
+ */
+
+/**
+ * The type of the values a validator returns.
+ * @template V
+ * @typedef {V extends Validator<infer T> ? T : never} Infer
+ */
+
+/**
+ * What `object` returns for a shape: each key holds what its validator
+ * returns, and keys whose validator may return undefined are optional.
+ * @template {Record<string, Validator<unknown>>} S
+ * @typedef {{ [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]> }
+ *   & { [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Exclude<Infer<S[K]>, undefined> }} ObjectOf
+ */
+
+/**
+ * What `object` returns; with `passthrough` the keys outside the shape too.
+ * @template {Record<string, Validator<unknown>>} S
+ * @template {boolean} P
+ * @typedef {P extends true ? ObjectOf<S> & Record<string, unknown> : ObjectOf<S>} ObjectResult
+ */
+
+class ValidationError extends Error {
+  /** @param {FieldError[]} errors */
+  constructor(errors) {
+    super(errors.map((e) => (e.path ? `${e.path}: ${e.msg}` : e.msg)).join(', '));
+    this.name = 'ValidationError';
+    this.errors = errors;
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * @param {string} path
+ * @param {string | number} key
+ */
+const joinPath = (path, key) => (path ? `${path}.${key}` : String(key));
+
+/**
+ * Validators return a value they recorded errors for as it came in, typed
+ * as a valid one; callers check `errors` before relying on it.
+ * @template T
+ * @param {unknown} value
+ * @returns {T}
+ */
+const invalid = (value) => /** @type {T} */ (value);
+
+/**
+ * @param {{ min?: number, max?: number, trim?: boolean, pattern?: RegExp, message?: string }} [options]
+ * @returns {Validator<string>}
+ */
+const string = ({ min = 0, max, trim = true, pattern, message } = {}) => (value, path, errors) => {
+  if (typeof value !== 'string') {
+    errors.push({ path, msg: 'must be a string' });
+    return invalid(value);
+  }
+  const result = trim ? value.trim() : value;
+  if (result.length < min) {
+    errors.push({ path, msg: min === 1 ? 'is required' : `must be at least ${min} characters` });
+  } else if (max !== undefined && result.length > max) {
+    errors.push({ path, msg: `must be at most ${max} characters` });
+  } else if (pattern && !pattern.test(result)) {
+    errors.push({ path, msg: message || 'has an invalid format' });
+  }
+  return result;
+};
+
+/** @returns {Validator<string>} */
+const email = () => (value, path, errors) => {
+  const result = string({ pattern: EMAIL_PATTERN, message: 'must be a valid email' })(value, path, errors);
+  return typeof result === 'string' ? result.toLowerCase() : result;
+};
+
+/** @returns {Validator<string>} */
+const uuid = () => string({ pattern: UUID_PATTERN, message: 'must be a valid id' });
+
+/**
+ * Accepts numbers and numeric strings (query strings, CSV cells).
+ * @param {{ min?: number, max?: number, integer?: boolean }} [options]
+ * @returns {Validator<number>}
+ */
+const number = ({ min, max, integer = false } = {}) => (value, path, errors) => {
+  const result = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof result !== 'number' || !Number.isFinite(result)) {
+    errors.push({ path, msg: 'must be a number' });
+    return invalid(value);
+  }
+  if (integer && !Number.isInteger(result)) {
+    errors.push({ path, msg: 'must be an integer' });
+  } else if (min !== undefined && result < min) {
+    errors.push({ path, msg: `must be at least ${min}` });
+  } else if (max !== undefined && result > max) {
+    errors.push({ path, msg: `must be at most ${max}` });
+  }
+  return result;
+};
+
+/** @returns {Validator<boolean>} */
+const boolean = () => (value, path, errors) => {
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (typeof value !== 'boolean') {
+    errors.push({ path, msg: 'must be a boolean' });
+  }
+  return /** @type {boolean} */ (value);
+};
+
+/**
+ * Accepts Date objects and ISO 8601 strings, and returns an ISO string.
+ * @returns {Validator<string>}
+ */
+const isoDate = () => (value, path, errors) => {
+  const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    errors.push({ path, msg: 'must be a valid date' });
+    return invalid(value);
+  }
+  return date.toISOString();
+};
+
+/**
+ * @template {string} T
+ * @param {readonly T[]} values
+ * @returns {Validator<T>}
+ */
+const oneOf = (values) => (value, path, errors) => {
+  if (!values.includes(/** @type {T} */ (value))) {
+    errors.push({ path, msg: `must be one of ${values.join(', ')}` });
+  }
+  return /** @type {T} */ (value);
+};
+
+/**
+ * Lets `undefined` (and an empty string) through untouched.
+ * @template T
+ * @param {Validator<T>} validator
+ * @returns {Validator<T | undefined>}
+ */
+const optional = (validator) => (value, path, errors) =>
+  value === undefined || value === '' ? undefined : validator(value, path, errors);
+
+/**
+ * @template T
+ * @param {Validator<T>} validator
+ * @returns {Validator<T | null>}
+ */
+const nullable = (validator) => (value, path, errors) =>
+  value === null ? null : validator(value, path, errors);
+
+/**
+ * @template T
+ * @param {Validator<T>} item
+ * @param {{ min?: number, max?: number }} [options]
+ * @returns {Validator<T[]>}
+ */
+const array = (item, { min = 0, max } = {}) => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push({ path, msg: 'must be an array' });
+    return invalid(value);
+  }
+  if (value.length < min) {
+    errors.push({ path, msg: `must contain at least ${min} item(s)` });
+  } else if (max !== undefined && value.length > max) {
+    errors.push({ path, msg: `must contain at most ${max} item(s)` });
+  }
+  return value.map((entry, index) => item(entry, joinPath(path, index), errors));
+};
+
+/**
+ * Validates every value of a string-keyed map.
+ * @template T
+ * @param {Validator<T>} item
+ * @returns {Validator<Record<string, T>>}
+ */
+const record = (item) => (value, path, errors) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push({ path, msg: 'must be an object' });
+    return invalid(value);
+  }
+  /** @type {Record<string, T>} */
+  const result = {};
+  for (const [key, entry] of Object.entries(value)) {
+    result[key] = item(entry, joinPath(path, key), errors);
+  }
+  return result;
+};
+
+/**
+ * Validates the listed keys. Unknown keys are dropped unless `passthrough`
+ * is set, which API responses use to keep Prisma's `_count` and includes.
+ * @template {Record<string, Validator<unknown>>} S
+ * @template {boolean} [P=false]
+ * @param {S} shape
+ * @param {{ passthrough?: P }} [options]
+ * @returns {Validator<ObjectResult<S, P>>}
+ */
+const object = (shape, { passthrough } = {}) => (value, path, errors) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push({ path, msg: 'must be an object' });
+    return invalid(value);
+  }
+  const input = /** @type {Record<string, unknown>} */ (value);
+  /** @type {Record<string, unknown>} */
+  const result = passthrough ? { ...input } : {};
+  for (const [key, validator] of Object.entries(shape)) {
+    const parsed = validator(input[key], joinPath(path, key), errors);
+    if (parsed !== undefined) {
+      result[key] = parsed;
+    } else {
+      delete result[key];
+    }
+  }
+  return /** @type {ObjectResult<S, P>} */ (result);
+};
+
+/**
+ * Runs `second` on the output of `first`. Used to extend a passthrough
+ * object schema with extra keys.
+ * @template A, B
+ * @param {Validator<A>} first
+ * @param {Validator<B>} second
+ * @returns {Validator<A & B>}
+ */
+const pipe = (first, second) => (value, path, errors) =>
+  /** @type {A & B} */ (second(first(value, path, errors), path, errors));
+
+/**
+ * @template T
+ * @param {Validator<T>} validator
+ * @param {unknown} input
+ * @returns {{ value: T, errors: FieldError[] }}
+ */
+const validate = (validator, input) => {
+  /** @type {FieldError[]} */
+  const errors = [];
+  const value = validator(input, '', errors);
+  return { value, errors };
+};
+
+/**
+ * Like `validate`, but throws a `ValidationError` instead of returning errors.
+ * @template T
+ * @param {Validator<T>} validator
+ * @param {unknown} input
+ * @returns {T}
+ */
+const parse = (validator, input) => {
+  const { value, errors } = validate(validator, input);
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+  return value;
+};
+
+module.exports = {
+  ValidationError,
+  string,
+  email,
+  uuid,
+  number,
+  boolean,
+  isoDate,
+  oneOf,
+  optional,
+  nullable,
+  array,
+  record,
+  object,
+  pipe,
+  joinPath,
+  invalid,
+  validate,
+  parse,
+};